@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 // download-models.mjs - Downloads core ML models for bundling
-// Run with: node scripts/download-models.mjs
+// Run with: node scripts/download-models.mjs [--embed=nomic-embed-text-v1.5,multilingual-e5-small]
 
 import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'fs'
 import { join, dirname } from 'path'
@@ -9,10 +9,10 @@ import { fileURLToPath } from 'url'
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const MODELS_DIR = join(__dirname, '..', 'public', 'models')
 
-// all models to bundle (3 core models = ~318MB)
-const CORE_MODELS = [
-  // embed - required for all semantic search and RAG
-  {
+// embed - required for all semantic search and RAG, keys match EMBEDDING_MODELS in src/types/local-models.ts
+// every one bundled here can be picked in settings
+const EMBED_MODELS = {
+  'nomic-embed-text-v1.5': {
     id: 'nomic-ai/nomic-embed-text-v1.5',
     files: [
       'config.json',
@@ -23,6 +23,44 @@ const CORE_MODELS = [
     ],
     localDir: 'nomic-embed-text-v1.5'
   },
+  'multilingual-e5-small': {
+    id: 'Xenova/multilingual-e5-small',
+    files: [
+      'config.json',
+      'tokenizer.json',
+      'tokenizer_config.json',
+      'special_tokens_map.json',
+      'onnx/model_quantized.onnx'  // (~118MB)
+    ],
+    localDir: 'multilingual-e5-small'
+  },
+  'bge-m3': {
+    id: 'Xenova/bge-m3',
+    files: [
+      'config.json',
+      'tokenizer.json',
+      'tokenizer_config.json',
+      'special_tokens_map.json',
+      'onnx/model_quantized.onnx'  // (~570MB)
+    ],
+    localDir: 'bge-m3'
+  }
+}
+
+const DEFAULT_EMBED = ['nomic-embed-text-v1.5']
+
+function selectedEmbedModels() {
+  const arg = process.argv.find(a => a.startsWith('--embed='))
+  const keys = arg ? arg.slice('--embed='.length).split(',').map(k => k.trim()).filter(Boolean) : DEFAULT_EMBED
+  const unknown = keys.filter(k => !EMBED_MODELS[k])
+  if (unknown.length) {
+    throw new Error(`Unknown embedding model(s): ${unknown.join(', ')}. Known: ${Object.keys(EMBED_MODELS).join(', ')}`)
+  }
+  return keys.map(k => EMBED_MODELS[k])
+}
+
+// task models to bundle (3 core models, ~0.7GB)
+const CORE_MODELS = [
   // classify - used for email categorization
   {
     id: 'MoritzLaurer/deberta-v3-xsmall-zeroshot-v1.1-all-33',
@@ -45,6 +83,18 @@ const CORE_MODELS = [
       'onnx/model_quantized.onnx'  // (~104MB)
     ],
     localDir: 'bert-base-NER'
+  },
+  // generate - in-browser fallback when neither chrome ai nor ollama is available
+  {
+    id: 'onnx-community/Qwen2.5-0.5B-Instruct',
+    files: [
+      'config.json',
+      'generation_config.json',
+      'tokenizer.json',
+      'tokenizer_config.json',
+      'onnx/model_q4.onnx'
+    ],
+    localDir: 'qwen2.5-0.5b-instruct'
   }
 ]
 
@@ -93,7 +143,7 @@ async function main() {
     mkdirSync(MODELS_DIR, { recursive: true })
   }
   
-  for (const model of CORE_MODELS) {
+  for (const model of [...selectedEmbedModels(), ...CORE_MODELS]) {
     try {
       await downloadModel(model)
     } catch (err) {
@@ -1,4 +1,13 @@
 export { useOllama } from './useOllama'
+export { useOllamaModels } from './useOllamaModels'
+export { useOpenAICompat } from './useOpenAICompat'
+export { useAIRouting } from './useAIRouting'
+export { useAgentSettings } from './useAgentSettings'
+export { useEmbeddingModel } from './useEmbeddingModel'
+export { useLibrary } from './useLibrary'
+export { useProviderHealth } from './useProviderHealth'
+export { useBrowserModel } from './useBrowserModel'
+export { usePromptTemplates } from './usePromptTemplates'
 export { useChromeAI } from './useChromeAI'
 export { usePageSummary } from './usePageSummary'
 export { useChat } from './useChat'
@@ -7,5 +16,5 @@ export { useDictionary } from './useDictionary'
 export { useTabSession } from './useTabSession'
 export { useTransitions } from './useTransitions'
 export { useDropdown } from './useDropdown'
-export { sendToBackground, withTiming } from './useMessaging'
+export { sendToBackground, streamFromBackground, withTiming } from './useMessaging'
 export { usePdfProgress } from './usePdfProgress'
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { ref } from 'vue'
+import { storageService } from '@/services/StorageService'
+import { logger } from '@/services/LoggerService'
+import type { AIRoutingTable } from '@/types'
+
+const log = logger.createScoped('useAIRouting')
+
+const aiRouting = ref<AIRoutingTable>({})
+
+// the background gateway picks up changes through storage.onChanged
+export function useAIRouting() {
+  async function loadAIRouting(): Promise<void> {
+    try {
+      aiRouting.value = await storageService.get<AIRoutingTable>('aiRouting', {})
+    } catch (err) {
+      log.warn('failed to load routing', (err as Error).message)
+    }
+  }
+
+  async function saveAIRouting(routes: AIRoutingTable): Promise<void> {
+    aiRouting.value = routes
+    try {
+      await storageService.set('aiRouting', routes)
+    } catch (err) {
+      log.error('failed to save routing', err)
+    }
+  }
+
+  return {
+    aiRouting,
+    loadAIRouting,
+    saveAIRouting
+  }
+}
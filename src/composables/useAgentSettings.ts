@@ -0,0 +1,35 @@
+import { ref } from 'vue'
+import { storageService } from '@/services/StorageService'
+import { logger } from '@/services/LoggerService'
+import { AgentPrefs } from '@/utils/agentSettings'
+import type { AgentSettings } from '@/types'
+
+const log = logger.createScoped('useAgentSettings')
+
+const agentSettings = ref<AgentSettings>(AgentPrefs.DEFAULT)
+
+// the background reads these fresh on every chat request
+export function useAgentSettings() {
+  async function loadAgentSettings(): Promise<void> {
+    try {
+      agentSettings.value = AgentPrefs.normalize(await storageService.get<Partial<AgentSettings>>('agentSettings', AgentPrefs.DEFAULT))
+    } catch (err) {
+      log.warn('failed to load agent settings', (err as Error).message)
+    }
+  }
+
+  async function saveAgentSettings(settings: AgentSettings): Promise<void> {
+    agentSettings.value = AgentPrefs.normalize(settings)
+    try {
+      await storageService.set('agentSettings', agentSettings.value)
+    } catch (err) {
+      log.error('failed to save agent settings', err)
+    }
+  }
+
+  return {
+    agentSettings,
+    loadAgentSettings,
+    saveAgentSettings
+  }
+}
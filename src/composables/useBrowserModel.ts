@@ -0,0 +1,22 @@
+import { ref } from 'vue'
+import { MODEL_REGISTRY } from '@/types/local-models'
+
+// whether the in-browser generation model was bundled into this build
+// the background falls back to it on its own, the panel only needs to know not to wait for setup
+const browserModelReady = ref(false)
+
+let checked: Promise<void> | null = null
+
+export function useBrowserModel() {
+  function checkBrowserModel(): Promise<void> {
+    checked ??= fetch(chrome.runtime.getURL(`${MODEL_REGISTRY.generate.localPath}config.json`))
+      .then(res => { browserModelReady.value = res.ok })
+      .catch(() => { browserModelReady.value = false })
+    return checked
+  }
+
+  return {
+    browserModelReady,
+    checkBrowserModel
+  }
+}
@@ -1,7 +1,6 @@
 import { ref, nextTick, type Ref, computed } from 'vue'
-import type { AppPageSummary, AppChatMessage, AppChatResponse } from '@/types'
-import type { AIProviderPreference } from './useSettings'
-import { sendToBackground, withTiming } from './useMessaging'
+import type { AppPageSummary, AppChatMessage, AppChatResponse, ChatStreamEvent } from '@/types'
+import { sendToBackground, streamFromBackground, withTiming } from './useMessaging'
 import { logger } from '@/services/LoggerService'
 import { analyticsService } from '@/services/AnalyticsService'
 import { cacheService } from '@/services/CacheService'
@@ -38,6 +37,9 @@ interface ChatState {
 // Map of URL -> ChatState, this is the source of truth
 const urlStates = new Map<string, ChatState>()
 
+// in-flight stream per URL, aborted by the stop button
+const chatAborts = new Map<string, AbortController>()
+
 // current active URL - determines which state the shared refs point to  
 let activeUrl: string | null = null
 
@@ -125,20 +127,6 @@ function getUrlMessages(url: string): AppChatMessage[] {
   return state ? [...state.messages] : []
 }
 
-declare const LanguageModel: {
-  availability: (opts?: { languages?: string[] }) => Promise<string | { available: string }>
-  create: (options?: { 
-    initialPrompts?: { role: string; content: string }[]
-    temperature?: number
-    topK?: number
-    expectedInputs?: { type: string; languages: string[] }[]
-    expectedOutputs?: { type: string; languages: string[] }[]
-  }) => Promise<{
-    prompt: (text: string) => Promise<string>
-    promptStreaming: (text: string) => AsyncIterable<string>
-    destroy: () => void
-  }>
-} | undefined
 
 export function useChat() {
   // get current active URL
@@ -153,12 +141,9 @@ export function useChat() {
 
   async function sendChatMessage(
     pageSummary: Ref<AppPageSummary | null>,
-    selectedModel: Ref<string>,
-    availableModels: Ref<string[]>,
     chatContainer: Ref<HTMLElement | null>,
     chatInputRef: Ref<HTMLElement | null>,
-    saveTabSession?: () => Promise<void>,
-    preferredProvider?: Ref<AIProviderPreference>
+    saveTabSession?: () => Promise<void>
   ): Promise<void> {
     if (!chatInput.value.trim() || chatLoading.value) return
     
@@ -284,6 +269,7 @@ export function useChat() {
       
       const CONTEXT_THRESHOLD = 8000
       let relevantContext = ''
+      let turnContext = '' // sections retrieved for this question, sent with it
       
       if (contextText && currentUrl) {
         const checkRes = await sendToBackground({
@@ -327,11 +313,11 @@ export function useChat() {
             sourceUrl 
           }) as { success: boolean; context?: string }
           const ragTime = Math.round(performance.now() - ragStart)
-          relevantContext = searchRes?.success ? (searchRes.context || '') : ''
-          log.log(`RAG search: ${relevantContext.length} chars (${ragTime}ms)`)
+          turnContext = searchRes?.success ? (searchRes.context || '') : ''
+          log.log(`RAG search: ${turnContext.length} chars (${ragTime}ms)`)
           
           // fallback to truncated if RAG returns nothing
-          if (!relevantContext) {
+          if (!turnContext) {
             relevantContext = contextText.slice(0, CONTEXT_THRESHOLD)
             log.log('RAG empty, using truncated content')
           }
@@ -372,7 +358,18 @@ export function useChat() {
         updateUrlState(targetUrl, s => { s.loading = true })
       }
       
-      const systemPrompt = relevantContext  
+      // retrieved sections change every turn, so they go with the question and the system prompt
+      // stays the same across turns, which lets chrome ai keep reusing the conversation's session
+      const systemPrompt = turnContext
+        ? `You are an assistant helping the user understand a ${docType}.
+
+Each question comes with the RELEVANT SECTIONS FROM THE DOCUMENT for it.
+
+RULES:
+1. Answer based ONLY on the sections sent with the question
+2. If the info isn't in these sections, say "I don't see that in the document"
+3. Be concise and helpful`
+        : relevantContext
         ? `You are an assistant helping the user understand a ${docType}.
 
 RELEVANT SECTIONS FROM THE DOCUMENT:
@@ -394,207 +391,102 @@ RULES:
           : 'You are a helpful assistant. Be concise.'
 
 
-      const useOllama = preferredProvider?.value === 'ollama'
-      
-      let chromeResult: { ok: boolean; content?: string; model?: string; timing?: number } | null = null
-      if (!useOllama) {
-        try {
-          if (typeof LanguageModel !== 'undefined') {
-            const langOpts = { languages: ['en', 'es', 'ja'] }
-            const avail = await LanguageModel.availability(langOpts)
-            const status = typeof avail === 'string' ? avail : avail?.available
-            log.log('LanguageModel availability:', { status, raw: avail })
-            if (status === 'available' || status === 'downloadable' || status === 'readily') {
-              log.log('creating Chrome AI session...')
-              
-              try {
-                const state = getUrlState(targetUrl)
-                const recentMessages = state.messages.slice(-6).map(m => ({
-                  role: m.role as 'user' | 'assistant',
-                  content: m.content
-                }))
-                
-                const initialPrompts: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-                  { role: 'system', content: systemPrompt }
-                ]
-                
-                for (const msg of recentMessages) {
-                  if (msg.content !== userMessage) {
-                    initialPrompts.push(msg)
-                  }
-                }
-                
-                log.log('Chrome AI session with initial prompts:', initialPrompts.length)
-                const session = await LanguageModel.create({ initialPrompts })
-                log.log('session created')
-                  
-                const start = performance.now()
-                
-                let fullResponse = ''
-                
-                try {
-                  const stream = session.promptStreaming(userMessage)
-                  
-                  for await (const chunk of stream) {
-                    fullResponse += chunk
-                    
-                    updateUrlState(targetUrl, state => {
-                      const lastMsg = state.messages[state.messages.length - 1]
-                      if (lastMsg?.role === 'assistant') {
-                        lastMsg.content = fullResponse
-                      } else {
-                        state.messages.push({ role: 'assistant', content: fullResponse })
-                      }
-                    })
-                    
-                    debouncedSaveChat(targetUrl, getUrlState(targetUrl).messages)
-                    
-                    await nextTick()
-                    if (activeUrl === targetUrl && chatContainer.value) {
-                      chatContainer.value.scrollTop = chatContainer.value.scrollHeight
-                    }
-                  }
-                  
-                  flushSaveChat()
-                  
-                  const llmTime = Math.round(performance.now() - start)
-                  const totalTime = Math.round(performance.now() - messageStartTime)
-                  const ragTime = totalTime - llmTime
-                  log.log('streaming complete', { len: fullResponse.length, total: totalTime, llm: llmTime, rag: ragTime })
-                  
-                  updateUrlState(targetUrl, state => {
-                    const lastMsg = state.messages[state.messages.length - 1]
-                    if (lastMsg?.role === 'assistant') {
-                      lastMsg.timing = { 
-                        total: totalTime, 
-                        llm: llmTime,
-                        rag: ragTime > 100 ? ragTime : undefined,  // only show if significant
-                        model: 'gemini-nano' 
-                      }
-                    }
-                  })
-                  
-                  const completedState = getUrlState(targetUrl)
-                  const normalizedUrl = targetUrl.split('?')[0].replace(/\/+$/, '')
-                  cacheService.setTabSession(normalizedUrl, completedState.messages, null, false)
-                    .catch(err => log.warn('post-stream save failed', err.message))
-                  
-                  chromeResult = { ok: true, content: fullResponse, model: 'gemini-nano', timing: totalTime }
-                  analyticsService.trackChat('assistant', fullResponse, totalTime).catch(() => {})
-                } catch (streamErr) {
-                  log.log('streaming failed, trying non-streaming...', (streamErr as Error).message)
-                  
-                  try {
-                    const result = await session.prompt(userMessage)
-                    const timing = Math.round(performance.now() - start)
-                    
-                    updateUrlState(targetUrl, state => {
-                      state.messages.push({ 
-                        role: 'assistant', 
-                        content: result,
-                        timing: { total: timing, model: 'gemini-nano' }
-                      })
-                    })
-                    
-                    chromeResult = { ok: true, content: result, model: 'gemini-nano', timing }
-                    log.log('non-streaming complete', { len: result.length, timing })
-                  } catch (promptErr) {
-                    throw promptErr
-                  }
-                }
-                
-                session.destroy()
-              } catch (sessionErr) {
-                log.log('session/prompt error:', (sessionErr as Error).message)
-                throw sessionErr
-              }
-            } else {
-              log.log('LanguageModel not available, status:', status)
-            }
-          } else {
-            log.log('LanguageModel is undefined')
-          }
-        } catch (err) {
-          log.log('Chrome AI failed, falling back', (err as Error).message)
-        }
-      }
+      const state = getUrlState(targetUrl)
+      const history = state.messages.slice(-7).map(m => ({ role: m.role, content: m.content }))
 
-      if (chromeResult?.ok && chromeResult.content) {
-      } else {
-        const model = selectedModel.value || availableModels.value[0]
-        if (!model) {
-          throw new Error('no AI available - Chrome AI is off and Ollama is not running')
-        }
-        
-        const state = getUrlState(targetUrl)
-        const recentMessages = state.messages.slice(-6).map(m => ({
-          role: m.role as 'user' | 'assistant' | 'system',
-          content: m.content
-        }))
-        
-        const messagesWithSystem = [
-          { role: 'system' as const, content: systemPrompt },
-          ...recentMessages
-        ]
-        
-        log.log('streaming with ollama...', model)
-        const start = performance.now()
-        
-        const { OllamaService } = await import('@/services/OllamaService')
-        let fullResponse = ''
-        
-        try {
-          for await (const chunk of OllamaService.completeStream(model, messagesWithSystem)) {
-            fullResponse += chunk
-            
+      const controller = new AbortController()
+      chatAborts.set(targetUrl, controller)
+
+      log.log('streaming via background...')
+      const start = performance.now()
+      let fullResponse = ''
+      let doneEvent: Extract<ChatStreamEvent, { type: 'done' }> | null = null
+
+      try {
+        for await (const event of streamFromBackground({
+          type: 'CHAT_MESSAGE',
+          messages: history,
+          systemPrompt,
+          ...(turnContext && { context: turnContext }),
+          conversationId: targetUrl
+        }, controller.signal)) {
+          if (event.type === 'error') throw new Error(event.error)
+          if (event.type === 'done') {
+            doneEvent = event
+            break
+          }
+          if (event.type === 'tool') {
+            // steps land on the assistant message before its answer streams in
             updateUrlState(targetUrl, state => {
-              const lastMsg = state.messages[state.messages.length - 1]
-              if (lastMsg?.role === 'assistant') {
-                lastMsg.content = fullResponse
-              } else {
-                state.messages.push({ role: 'assistant', content: fullResponse })
+              let lastMsg = state.messages[state.messages.length - 1]
+              if (lastMsg?.role !== 'assistant') {
+                lastMsg = { role: 'assistant', content: '' }
+                state.messages.push(lastMsg)
               }
+              const steps = lastMsg.steps || []
+              const existing = steps.findIndex(s => s.id === event.step.id)
+              if (existing >= 0) steps[existing] = event.step
+              else steps.push(event.step)
+              lastMsg.steps = [...steps]
             })
-            
-            debouncedSaveChat(targetUrl, getUrlState(targetUrl).messages)
-            
-            await nextTick()
-            if (activeUrl === targetUrl && chatContainer.value) {
-              chatContainer.value.scrollTop = chatContainer.value.scrollHeight
-            }
+            continue
           }
-          
-          flushSaveChat()
-          
-          const timing = Math.round(performance.now() - start)
-          log.log('ollama streaming complete', { len: fullResponse.length, timing })
-          
-          const llmTime = timing
-          const totalTime = Math.round(performance.now() - messageStartTime)
-          const ragTime = totalTime - llmTime
-          
+          if (event.type !== 'token') continue
+
+          fullResponse += event.content
+
           updateUrlState(targetUrl, state => {
             const lastMsg = state.messages[state.messages.length - 1]
             if (lastMsg?.role === 'assistant') {
-              lastMsg.timing = { 
-                total: totalTime, 
-                llm: llmTime,
-                rag: ragTime > 100 ? ragTime : undefined,
-                model 
-              }
+              lastMsg.content = fullResponse
+            } else {
+              state.messages.push({ role: 'assistant', content: fullResponse })
             }
           })
-          
-          // save to IDB immediately - prevents lost response if user switched tabs
-          const ollCompletedState = getUrlState(targetUrl)
-          const ollNormalizedUrl = targetUrl.split('?')[0].replace(/\/+$/, '')
-          cacheService.setTabSession(ollNormalizedUrl, ollCompletedState.messages, null, false)
-            .catch(err => log.warn('post-stream save failed', err.message))
-          
-          analyticsService.trackChat('assistant', fullResponse, totalTime).catch(() => {})
-        } catch (err) {
-          throw err
+
+          debouncedSaveChat(targetUrl, getUrlState(targetUrl).messages)
+
+          await nextTick()
+          if (activeUrl === targetUrl && chatContainer.value) {
+            chatContainer.value.scrollTop = chatContainer.value.scrollHeight
+          }
         }
+      } finally {
+        chatAborts.delete(targetUrl)
+      }
+
+      flushSaveChat()
+
+      const cancelled = controller.signal.aborted
+      if (!doneEvent && !cancelled) {
+        throw new Error('chat stream closed before completion')
+      }
+
+      const llmTime = Math.round(performance.now() - start)
+      const totalTime = Math.round(performance.now() - messageStartTime)
+      const ragTime = totalTime - llmTime
+      log.log(cancelled ? 'streaming cancelled' : 'streaming complete', { len: fullResponse.length, total: totalTime, llm: llmTime, rag: ragTime })
+
+      if (fullResponse) {
+        updateUrlState(targetUrl, state => {
+          const lastMsg = state.messages[state.messages.length - 1]
+          if (lastMsg?.role === 'assistant') {
+            lastMsg.timing = { 
+              total: totalTime, 
+              llm: llmTime,
+              rag: ragTime > 100 ? ragTime : undefined,  // only show if significant
+              model: doneEvent?.timing.model
+            }
+          }
+        })
+
+        // save to IDB immediately - prevents lost response if user switched tabs
+        const completedState = getUrlState(targetUrl)
+        const normalizedUrl = targetUrl.split('?')[0].replace(/\/+$/, '')
+        cacheService.setTabSession(normalizedUrl, completedState.messages, null, false)
+          .catch(err => log.warn('post-stream save failed', err.message))
+
+        analyticsService.trackChat('assistant', fullResponse, totalTime).catch(() => {})
       }
     } catch (error) {
       log.warn('chat error', (error as Error).message)
@@ -626,6 +518,10 @@ RULES:
     }
   }
 
+  function stopChatMessage(): void {
+    if (activeUrl) chatAborts.get(activeUrl)?.abort()
+  }
+
   function clearChat(chatInputRef?: Ref<HTMLElement | null>, saveTabSession?: () => Promise<void>) {
     if (activeUrl) {
       updateUrlState(activeUrl, state => {
@@ -681,6 +577,7 @@ RULES:
     emailContext,
     
     sendChatMessage,
+    stopChatMessage,
     clearChat,
     resetChatState,
     syncIndexingStatus,
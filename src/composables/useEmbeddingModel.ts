@@ -0,0 +1,61 @@
+import { ref } from 'vue'
+import { storageService } from '@/services/StorageService'
+import { logger } from '@/services/LoggerService'
+import { VectorPrefs } from '@/utils/vectorStorage'
+import { EMBEDDING_MODELS, DEFAULT_EMBEDDING_MODEL, isEmbeddingModelId, type EmbeddingModelId } from '@/types/local-models'
+import type { VectorStorageSettings } from '@/types'
+
+const log = logger.createScoped('useEmbeddingModel')
+
+const embeddingModel = ref<EmbeddingModelId>(DEFAULT_EMBEDDING_MODEL)
+// models whose files made it into this build, see scripts/download-models.mjs
+const bundledEmbeddingModels = ref<EmbeddingModelId[]>([])
+const vectorStorage = ref<VectorStorageSettings>(VectorPrefs.DEFAULT)
+
+// the background re-embeds or rebuilds the index when the stored choice changes
+export function useEmbeddingModel() {
+  async function loadEmbeddingModel(): Promise<void> {
+    try {
+      const stored = await storageService.get<string>('embeddingModel', DEFAULT_EMBEDDING_MODEL)
+      embeddingModel.value = isEmbeddingModelId(stored) ? stored : DEFAULT_EMBEDDING_MODEL
+      vectorStorage.value = VectorPrefs.normalize(await storageService.get<Partial<VectorStorageSettings>>('vectorStorage', VectorPrefs.DEFAULT))
+      const ids = Object.keys(EMBEDDING_MODELS) as EmbeddingModelId[]
+      const bundled = await Promise.all(ids.map(id =>
+        fetch(chrome.runtime.getURL(`${EMBEDDING_MODELS[id].localPath}config.json`))
+          .then(res => res.ok)
+          .catch(() => false)
+      ))
+      bundledEmbeddingModels.value = ids.filter((_, i) => bundled[i])
+    } catch (err) {
+      log.warn('failed to load embedding model', (err as Error).message)
+    }
+  }
+
+  async function saveEmbeddingModel(id: EmbeddingModelId): Promise<void> {
+    if (id === embeddingModel.value) return
+    embeddingModel.value = id
+    try {
+      await storageService.set('embeddingModel', id)
+    } catch (err) {
+      log.error('failed to save embedding model', err)
+    }
+  }
+
+  async function saveVectorStorage(settings: VectorStorageSettings): Promise<void> {
+    vectorStorage.value = VectorPrefs.normalize(settings)
+    try {
+      await storageService.set('vectorStorage', vectorStorage.value)
+    } catch (err) {
+      log.error('failed to save vector storage', err)
+    }
+  }
+
+  return {
+    embeddingModel,
+    bundledEmbeddingModels,
+    vectorStorage,
+    loadEmbeddingModel,
+    saveEmbeddingModel,
+    saveVectorStorage
+  }
+}
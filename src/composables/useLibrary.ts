@@ -0,0 +1,177 @@
+import { ref } from 'vue'
+import { sendToBackground, archiveThroughBackground } from './useMessaging'
+import { logger } from '@/services/LoggerService'
+import type { EmbeddingMigrationStatus, RagDeleteFilter, RagImportMode, RagImportResult, RagIndexStats, RagSourceChunk, RagSourceInfo } from '@/types'
+
+const log = logger.createScoped('useLibrary')
+
+const sources = ref<RagSourceInfo[]>([])
+const sourcesLoading = ref<boolean>(false)
+const sourcesError = ref<string | null>(null)
+const sourceChunks = ref<Record<string, RagSourceChunk[]>>({})
+const busySources = ref<Record<string, 'reindex' | 'delete'>>({})
+const archiveBusy = ref<'export' | 'import' | null>(null)
+const archiveMessage = ref<string | null>(null)
+const migration = ref<EmbeddingMigrationStatus | null>(null)
+const indexStats = ref<RagIndexStats | null>(null)
+const indexStatsLoading = ref<boolean>(false)
+
+// everything the search index holds, listed from the background's vector store
+export function useLibrary() {
+  async function loadSources(): Promise<void> {
+    sourcesLoading.value = true
+    sourcesError.value = null
+    try {
+      const res = await sendToBackground<{ success: boolean; sources: RagSourceInfo[]; error?: string }>({ type: 'RAG_LIST_SOURCES' })
+      if (!res?.success) throw new Error(res?.error || 'failed to list sources')
+      sources.value = res.sources
+    } catch (err) {
+      log.warn('failed to load library', (err as Error).message)
+      sourcesError.value = (err as Error).message
+    } finally {
+      sourcesLoading.value = false
+    }
+  }
+
+  // the background broadcasts EMBEDDING_MIGRATION_PROGRESS while it re-embeds, this covers the first paint
+  async function loadMigrationStatus(): Promise<void> {
+    try {
+      const res = await sendToBackground<{ success: boolean; status?: EmbeddingMigrationStatus }>({ type: 'RAG_MIGRATION_STATUS' })
+      if (res?.success && res.status) migration.value = res.status
+    } catch (err) {
+      log.warn('failed to load migration status', (err as Error).message)
+    }
+  }
+
+  // measured on demand from a sample of stored vectors, the background caches it until chunks change
+  async function loadIndexStats(): Promise<void> {
+    indexStatsLoading.value = true
+    try {
+      const res = await sendToBackground<{ success: boolean; stats?: RagIndexStats; error?: string }>({ type: 'RAG_INDEX_STATS' })
+      if (!res?.success || !res.stats) throw new Error(res?.error || 'failed to load index stats')
+      indexStats.value = res.stats
+    } catch (err) {
+      log.warn('failed to load index stats', (err as Error).message)
+      sourcesError.value = (err as Error).message
+    } finally {
+      indexStatsLoading.value = false
+    }
+  }
+
+  async function loadChunks(sourceId: string): Promise<void> {
+    try {
+      const res = await sendToBackground<{ success: boolean; chunks: RagSourceChunk[]; error?: string }>({ type: 'RAG_GET_SOURCE_CHUNKS', sourceId })
+      if (!res?.success) throw new Error(res?.error || 'failed to load chunks')
+      sourceChunks.value = { ...sourceChunks.value, [sourceId]: res.chunks }
+    } catch (err) {
+      log.warn('failed to load chunks', (err as Error).message)
+    }
+  }
+
+  async function runSourceAction(sourceId: string, action: 'reindex' | 'delete'): Promise<boolean> {
+    if (busySources.value[sourceId]) return false
+    busySources.value = { ...busySources.value, [sourceId]: action }
+    try {
+      const type = action === 'reindex' ? 'RAG_REINDEX_SOURCE' : 'RAG_DELETE_SOURCE'
+      const res = await sendToBackground<{ success: boolean; error?: string }>({ type, sourceId })
+      if (!res?.success) throw new Error(res?.error || `${action} failed`)
+      return true
+    } catch (err) {
+      log.warn(`${action} failed`, (err as Error).message)
+      sourcesError.value = (err as Error).message
+      return false
+    } finally {
+      const { [sourceId]: _done, ...rest } = busySources.value
+      busySources.value = rest
+    }
+  }
+
+  async function reindexSource(sourceId: string): Promise<void> {
+    if (!(await runSourceAction(sourceId, 'reindex'))) return
+    const { [sourceId]: _stale, ...rest } = sourceChunks.value
+    sourceChunks.value = rest
+    await loadSources()
+  }
+
+  async function deleteSource(sourceId: string): Promise<void> {
+    if (!(await runSourceAction(sourceId, 'delete'))) return
+    sources.value = sources.value.filter(s => s.sourceId !== sourceId)
+  }
+
+  async function exportArchive(filter?: RagDeleteFilter): Promise<void> {
+    archiveBusy.value = 'export'
+    archiveMessage.value = null
+    try {
+      // the parts go straight into the blob, the file is never one string here
+      const parts: string[] = []
+      let documents: number | null = null
+      for await (const event of archiveThroughBackground({ type: 'export', filter })) {
+        if (event.type === 'part') parts.push(event.data)
+        else if (event.type === 'exported') documents = event.documents
+        else if (event.type === 'error') throw new Error(event.error)
+      }
+      if (documents === null) throw new Error('export interrupted')
+      const blob = new Blob(parts, { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `metldr-knowledge-${filter?.sourceType || 'all'}-${new Date().toISOString().split('T')[0]}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+      archiveMessage.value = `exported ${documents} chunks`
+    } catch (err) {
+      log.warn('export failed', (err as Error).message)
+      archiveMessage.value = `export failed: ${(err as Error).message}`
+    } finally {
+      archiveBusy.value = null
+    }
+  }
+
+  async function importArchive(file: File, mode: RagImportMode): Promise<void> {
+    archiveBusy.value = 'import'
+    archiveMessage.value = null
+    try {
+      // parsed in the background, the text goes over in parts
+      let res: RagImportResult | null = null
+      for await (const event of archiveThroughBackground({ type: 'import', mode }, await file.text())) {
+        if (event.type === 'imported') res = event.result
+        else if (event.type === 'error') throw new Error(event.error)
+      }
+      if (!res) throw new Error('import interrupted')
+      const notes = [
+        `imported ${res.sources} sources`,
+        res.reembedded ? `${res.reembedded} chunks re-embedded` : '',
+        res.skipped ? `${res.skipped} kept (newer here)` : ''
+      ].filter(Boolean)
+      archiveMessage.value = notes.join(', ')
+      sourceChunks.value = {}
+      await loadSources()
+    } catch (err) {
+      log.warn('import failed', (err as Error).message)
+      archiveMessage.value = `import failed: ${(err as Error).message}`
+    } finally {
+      archiveBusy.value = null
+    }
+  }
+
+  return {
+    sources,
+    sourcesLoading,
+    sourcesError,
+    sourceChunks,
+    busySources,
+    loadSources,
+    loadChunks,
+    reindexSource,
+    deleteSource,
+    archiveBusy,
+    archiveMessage,
+    exportArchive,
+    importArchive,
+    migration,
+    loadMigrationStatus,
+    indexStats,
+    indexStatsLoading,
+    loadIndexStats
+  }
+}
@@ -4,6 +4,9 @@
  * Single source of truth for all content/side-panel to background communication
  */
 
+import { STREAM_PORTS, iteratePort, postParts } from '@/utils/portStream'
+import type { ChatMessageRequest, GlobalChatRequest, ChatStreamEvent, ArchivePortRequest, ArchivePortEvent } from '@/types'
+
 export async function sendToBackground<T = unknown>(
   message: Record<string, unknown>,
   retries = 2
@@ -24,6 +27,33 @@ export async function sendToBackground<T = unknown>(
   throw new Error('sendToBackground: max retries exceeded')
 }
 
+/**
+ * Stream a chat request through the background over a port
+ * Yields sources/token events and ends with done or error; aborting disconnects and stops generation
+ */
+export async function* streamFromBackground(
+  request: ChatMessageRequest | GlobalChatRequest,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent, void, unknown> {
+  const port = chrome.runtime.connect({ name: STREAM_PORTS.CHAT })
+  port.postMessage(request)
+  yield* iteratePort<ChatStreamEvent>(port, e => e.type === 'done' || e.type === 'error', signal)
+}
+
+/**
+ * Export or import a knowledge base archive over a port, the file moves in parts both ways
+ * Yields the export's parts and ends with exported, imported or error
+ */
+export async function* archiveThroughBackground(
+  request: Exclude<ArchivePortRequest, { type: 'part' }>,
+  file?: string
+): AsyncGenerator<ArchivePortEvent, void, unknown> {
+  const port = chrome.runtime.connect({ name: STREAM_PORTS.ARCHIVE })
+  if (file) postParts(port, file)
+  port.postMessage(request)
+  yield* iteratePort<ArchivePortEvent>(port, e => e.type !== 'part')
+}
+
 /**
  * Measure execution time of an async function
  */
@@ -2,6 +2,7 @@ import { ref } from 'vue'
 import { sendToBackground } from './useMessaging'
 import { storageService } from '@/services/StorageService'
 import { logger } from '@/services/LoggerService'
+import type { OllamaHost, OllamaHostHealth } from '@/types'
 
 const log = logger.createScoped('useOllama')
 
@@ -10,11 +11,24 @@ type OllamaStatus = 'checking' | 'ready' | 'not-found' | 'error'
 const ollamaStatus = ref<OllamaStatus>('checking')
 const availableModels = ref<string[]>([])
 const selectedModel = ref<string>('')
+const ollamaHosts = ref<OllamaHost[]>([])
+const ollamaHostHealth = ref<OllamaHostHealth[]>([])
 
 interface OllamaHealthResponse {
   success?: boolean
   connected?: boolean
   models?: string[]
+  hosts?: OllamaHostHealth[]
+}
+
+// only http(s) urls are kept as hosts
+function isHostUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
 }
 
 export function useOllama() {
@@ -41,7 +55,8 @@ export function useOllama() {
         return false
       }
       
-      const { connected, models } = response
+      const { connected, models, hosts } = response
+      ollamaHostHealth.value = hosts || []
       
       if (connected && models && models.length > 0) {
         ollamaStatus.value = 'ready'
@@ -78,11 +93,38 @@ export function useOllama() {
     }
   }
 
+  async function loadOllamaHosts(): Promise<void> {
+    try {
+      ollamaHosts.value = await storageService.get<OllamaHost[]>('ollamaHosts', [])
+    } catch (e) {
+      log.error('failed to load hosts', e)
+    }
+  }
+
+  // host_permissions already covers <all_urls>, so any host is reachable once saved
+  async function saveOllamaHosts(hosts: OllamaHost[]): Promise<void> {
+    const cleaned = hosts
+      .map(h => ({ ...h, url: h.url.trim().replace(/\/+$/, '') }))
+      .filter(h => isHostUrl(h.url))
+
+    ollamaHosts.value = cleaned
+    try {
+      await storageService.set('ollamaHosts', cleaned)
+    } catch (e) {
+      log.error('failed to save hosts', e)
+    }
+    await checkOllama()
+  }
+
   return {
     ollamaStatus,
     availableModels,
     selectedModel,
+    ollamaHosts,
+    ollamaHostHealth,
     checkOllama,
-    selectModel
+    selectModel,
+    loadOllamaHosts,
+    saveOllamaHosts
   }
 }
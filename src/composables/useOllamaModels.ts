@@ -0,0 +1,155 @@
+import { ref } from 'vue'
+import { sendToBackground } from './useMessaging'
+import { useOllama } from './useOllama'
+import { storageService } from '@/services/StorageService'
+import { logger } from '@/services/LoggerService'
+import type {
+  OllamaModelInfo,
+  OllamaModelsResponse,
+  OllamaPullProgress,
+  OllamaRecommendation,
+  OllamaSelectionPolicy,
+  OllamaSelectionPrefs,
+  TaskType
+} from '@/types'
+
+const log = logger.createScoped('useOllamaModels')
+
+const ollamaModels = ref<OllamaModelInfo[]>([])
+const ollamaRecommendations = ref<OllamaRecommendation[]>([])
+const ollamaPicks = ref<Partial<Record<TaskType, string>>>({}) // model each task runs on now
+const ollamaSelection = ref<OllamaSelectionPrefs>({})
+const ollamaPulls = ref<Record<string, OllamaPullProgress>>({}) // running and just-finished pulls by model name
+const ollamaModelsLoading = ref(false)
+const ollamaModelsError = ref<string | null>(null)
+
+let listenerRegistered = false
+
+async function loadOllamaModels(): Promise<void> {
+  ollamaModelsLoading.value = true
+  try {
+    const response = await sendToBackground({ type: 'OLLAMA_LIST_MODELS' }) as OllamaModelsResponse
+    for (const progress of response.pulls || []) {
+      ollamaPulls.value[progress.model] = progress
+    }
+    if (!response.success) {
+      ollamaModelsError.value = response.error || 'ollama is not reachable'
+      return
+    }
+    ollamaModels.value = response.models || []
+    ollamaRecommendations.value = response.recommendations || []
+    ollamaPicks.value = response.picks || {}
+    ollamaModelsError.value = null
+  } catch (err) {
+    ollamaModelsError.value = (err as Error).message
+  } finally {
+    ollamaModelsLoading.value = false
+  }
+}
+
+// finished pulls refresh the list and the model picker, failures stay visible until dismissed
+function handleMessage(msg: { type?: string; progress?: OllamaPullProgress }) {
+  if (msg.type !== 'OLLAMA_PULL_PROGRESS' || !msg.progress) return false
+  const progress = msg.progress
+  if (progress.done && !progress.error) {
+    delete ollamaPulls.value[progress.model]
+    loadOllamaModels()
+    useOllama().checkOllama(false)
+  } else if (progress.error === 'cancelled') {
+    delete ollamaPulls.value[progress.model]
+  } else {
+    ollamaPulls.value[progress.model] = progress
+  }
+  return false
+}
+
+// pulls run in the background worker, this only starts, cancels and follows them
+export function useOllamaModels() {
+  function setupPullListener(): void {
+    if (listenerRegistered) return
+    chrome.runtime.onMessage.addListener(handleMessage)
+    listenerRegistered = true
+  }
+
+  function cleanupPullListener(): void {
+    if (!listenerRegistered) return
+    chrome.runtime.onMessage.removeListener(handleMessage)
+    listenerRegistered = false
+  }
+
+  async function pullOllamaModel(model: string): Promise<void> {
+    const name = model.trim()
+    if (!name) return
+    ollamaPulls.value[name] = { model: name, status: 'starting' }
+    try {
+      const response = await sendToBackground({ type: 'OLLAMA_PULL_MODEL', model: name }) as { success: boolean; error?: string }
+      if (!response.success) {
+        ollamaPulls.value[name] = { model: name, status: response.error || 'pull failed', done: true, error: response.error || 'pull failed' }
+      }
+    } catch (err) {
+      const error = (err as Error).message
+      ollamaPulls.value[name] = { model: name, status: error, done: true, error }
+    }
+  }
+
+  async function cancelOllamaPull(model: string): Promise<void> {
+    try {
+      await sendToBackground({ type: 'OLLAMA_CANCEL_PULL', model })
+    } catch (err) {
+      log.warn('failed to cancel pull', (err as Error).message)
+    }
+  }
+
+  function dismissOllamaPull(model: string): void {
+    delete ollamaPulls.value[model]
+  }
+
+  async function loadOllamaSelection(): Promise<void> {
+    try {
+      ollamaSelection.value = await storageService.get<OllamaSelectionPrefs>('ollamaSelection', {})
+    } catch (err) {
+      log.warn('failed to load model selection', (err as Error).message)
+    }
+  }
+
+  // the background reads the policy per request, the list reload refreshes the picks
+  async function setOllamaSelection(task: TaskType, policy: OllamaSelectionPolicy): Promise<void> {
+    ollamaSelection.value = { ...ollamaSelection.value, [task]: policy }
+    try {
+      await storageService.set('ollamaSelection', ollamaSelection.value)
+    } catch (err) {
+      log.error('failed to save model selection', err)
+    }
+    await loadOllamaModels()
+  }
+
+  async function deleteOllamaModel(model: string): Promise<void> {
+    try {
+      const response = await sendToBackground({ type: 'OLLAMA_DELETE_MODEL', model }) as { success: boolean; error?: string }
+      if (!response.success) ollamaModelsError.value = response.error || 'delete failed'
+    } catch (err) {
+      ollamaModelsError.value = (err as Error).message
+    }
+    await loadOllamaModels()
+    await useOllama().checkOllama(false)
+  }
+
+  return {
+    ollamaModels,
+    ollamaRecommendations,
+    ollamaPicks,
+    ollamaSelection,
+    ollamaPulls,
+    ollamaModelsLoading,
+    ollamaModelsError,
+    loadOllamaModels,
+    loadOllamaSelection,
+    setOllamaSelection,
+    setupPullListener,
+    cleanupPullListener,
+    pullOllamaModel,
+    cancelOllamaPull,
+    dismissOllamaPull,
+    deleteOllamaModel
+  }
+}
@@ -0,0 +1,78 @@
+import { ref } from 'vue'
+import { sendToBackground } from './useMessaging'
+import { storageService } from '@/services/StorageService'
+import { logger } from '@/services/LoggerService'
+import type { OpenAICompatConfig } from '@/types'
+
+const log = logger.createScoped('useOpenAICompat')
+
+type OpenAICompatStatus = 'checking' | 'ready' | 'not-found' | 'error'
+
+const DEFAULT_CONFIG: OpenAICompatConfig = { baseUrl: 'http://127.0.0.1:8080', apiKey: '', model: '' }
+
+const openaiCompatStatus = ref<OpenAICompatStatus>('checking')
+const openaiCompatModels = ref<string[]>([])
+const openaiCompatConfig = ref<OpenAICompatConfig>({ ...DEFAULT_CONFIG })
+
+interface OpenAICompatHealthResponse {
+  success?: boolean
+  connected?: boolean
+  models?: string[]
+}
+
+export function useOpenAICompat() {
+  async function loadOpenAICompatConfig(): Promise<void> {
+    try {
+      const stored = await storageService.get<Partial<OpenAICompatConfig>>('openaiCompat', {})
+      openaiCompatConfig.value = { ...DEFAULT_CONFIG, ...stored }
+    } catch (err) {
+      log.warn('failed to load config', (err as Error).message)
+    }
+  }
+
+  async function checkOpenAICompat(showChecking = true): Promise<boolean> {
+    if (showChecking && openaiCompatStatus.value !== 'ready') {
+      openaiCompatStatus.value = 'checking'
+    }
+
+    try {
+      const response = await sendToBackground({ type: 'CHECK_OPENAI_COMPAT_HEALTH' }) as OpenAICompatHealthResponse | null
+      if (!response || response.success === undefined) {
+        openaiCompatStatus.value = 'not-found'
+        return false
+      }
+
+      const { connected, models } = response
+      if (connected && models && models.length > 0) {
+        openaiCompatStatus.value = 'ready'
+        openaiCompatModels.value = models
+        return true
+      }
+
+      openaiCompatStatus.value = 'not-found'
+      return false
+    } catch {
+      openaiCompatStatus.value = 'not-found'
+      return false
+    }
+  }
+
+  async function saveOpenAICompatConfig(config: Partial<OpenAICompatConfig>): Promise<void> {
+    openaiCompatConfig.value = { ...openaiCompatConfig.value, ...config }
+    try {
+      await storageService.set('openaiCompat', openaiCompatConfig.value)
+    } catch (err) {
+      log.error('failed to save config', err)
+    }
+    await checkOpenAICompat()
+  }
+
+  return {
+    openaiCompatStatus,
+    openaiCompatModels,
+    openaiCompatConfig,
+    loadOpenAICompatConfig,
+    checkOpenAICompat,
+    saveOpenAICompatConfig
+  }
+}
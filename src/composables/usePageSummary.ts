@@ -1,6 +1,7 @@
 import { ref, computed } from 'vue'
 import { sendToBackground, withTiming } from './useMessaging'
-import type { AppPageSummary, SummaryPromptData, AppSummaryResponse, ExtractedData } from '@/types'
+import type { AppPageSummary, SummaryPromptData, AppSummaryResponse, ExtractedData, OpenAICompatConfig } from '@/types'
+import type { AIProviderPreference } from './useSettings'
 import { logger } from '@/services/LoggerService'
 import { cacheService } from '@/services/CacheService'
 import { storageService } from '@/services/StorageService'
@@ -17,8 +18,9 @@ declare const Summarizer: {
     expectedInputLanguages?: string[]
     expectedContextLanguages?: string[]
     outputLanguage?: string
+    signal?: AbortSignal
   }) => Promise<{
-    summarize: (content: string, opts?: { context?: string }) => Promise<string>
+    summarize: (content: string, opts?: { context?: string; signal?: AbortSignal }) => Promise<string>
     destroy: () => void
   }>
 } | undefined
@@ -31,6 +33,10 @@ const currentTabId = ref<number | null>(null)
 const currentTabUrl = ref<string | null>(null)
 const summaryPrompt = ref<SummaryPromptData | null>(null)
 const summaryCollapsed = ref<boolean>(false)
+const pageForgotten = ref<boolean>(false) // removed from the search index since its summary loaded
+
+// controller for the summary in flight, replaced by every fetch
+let summaryAbort: AbortController | null = null
 
 const isEmailClient = computed(() => {
   if (!currentTabUrl.value) return false
@@ -59,9 +65,13 @@ const isLocalPdfPending = computed(() => {
 })
 
 // get active AI provider and model from storage (same pattern as useSettings)
-async function getActiveAIInfo(): Promise<{ provider: 'chrome-ai' | 'ollama', model: string }> {
+async function getActiveAIInfo(): Promise<{ provider: AIProviderPreference, model: string }> {
   try {
-    const provider = await storageService.get<'chrome-ai' | 'ollama'>('preferredProvider', 'chrome-ai')
+    const provider = await storageService.get<AIProviderPreference>('preferredProvider', 'chrome-ai')
+    if (provider === 'openai-compat') {
+      const config = await storageService.get<Partial<OpenAICompatConfig>>('openaiCompat', {})
+      return { provider, model: config.model || 'openai-compat' }
+    }
     const selectedModel = await storageService.get<string>('selectedModel', 'llama3.2')
     const model = provider === 'chrome-ai' ? 'gemini-nano' : selectedModel
     return { provider, model }
@@ -108,7 +118,7 @@ function parseBullets(text: string): string[] {
 }
 
 // index content via background -> offscreen for persistence (survives panel close)
-async function indexToRag(text: string, metadata: { sourceId: string; sourceUrl: string; sourceType: 'article' | 'email' | 'pdf'; title?: string }) {
+async function indexToRag(text: string, metadata: { sourceId: string; sourceUrl: string; sourceType: 'article' | 'email' | 'pdf'; title?: string; createdAt?: string }) {
   try {
     const res = await sendToBackground({
       type: 'RAG_ENSURE_INDEXED',
@@ -116,6 +126,7 @@ async function indexToRag(text: string, metadata: { sourceId: string; sourceUrl:
       metadata
     }) as { success: boolean; result?: string }
     log.log(`RAG ensureIndexed: ${res?.result}`, metadata.sourceId.slice(0, 50))
+    if (res?.result === 'indexed-now') pageForgotten.value = false
   } catch (err) {
     const msg = (err as Error).message
     if (msg !== 'Indexing aborted' && msg !== 'Operation cancelled') {
@@ -124,7 +135,7 @@ async function indexToRag(text: string, metadata: { sourceId: string; sourceUrl:
   }
 }
 
-async function trySidePanelSummarize(content: string, context: string): Promise<{ ok: boolean; summary?: string; timing?: number }> {
+async function trySidePanelSummarize(content: string, context: string, signal?: AbortSignal): Promise<{ ok: boolean; summary?: string; timing?: number }> {
   try {
     if (typeof Summarizer === 'undefined') return { ok: false }
     
@@ -140,10 +151,11 @@ async function trySidePanelSummarize(content: string, context: string): Promise<
         format: 'markdown',
         expectedInputLanguages: ['en', 'es', 'ja'],
         expectedContextLanguages: ['en'],
-        outputLanguage: 'en'
+        outputLanguage: 'en',
+        signal
       })
       try {
-        return await summarizer.summarize(content, { context })
+        return await summarizer.summarize(content, { context, signal })
       } finally {
         summarizer.destroy()
       }
@@ -162,6 +174,8 @@ export function usePageSummary() {
     trigger = 'auto',
     saveTabSession?: () => Promise<void>
   ): Promise<void> {
+    const controller = new AbortController()
+
     try {
       summaryPrompt.value = null
       const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
@@ -216,6 +230,8 @@ export function usePageSummary() {
       
       log.log('fetchCurrentPageSummary', { force, trigger, tabId: tab.id, tabUrl: tab.url?.slice(0, 50) })
       
+      summaryAbort?.abort()
+      summaryAbort = controller
       summaryLoading.value = true
       summaryError.value = null
       
@@ -228,6 +244,7 @@ export function usePageSummary() {
           
           const startTime = performance.now()
           const pdfSummary = await pdfService.summarize(tab.url)
+          if (controller.signal.aborted) return
           const timing = Math.round(performance.now() - startTime)
           
           const urlParts = tab.url.split('/')
@@ -306,7 +323,8 @@ export function usePageSummary() {
       metadata += '\n---\nARTICLE CONTENT:\n\n'
       const fullContent = metadata + extracted.content
       
-      const sidePanelResult = await trySidePanelSummarize(fullContent, `Article: "${extracted.title}"`)
+      const sidePanelResult = await trySidePanelSummarize(fullContent, `Article: "${extracted.title}"`, controller.signal)
+      if (controller.signal.aborted) return
       
       if (sidePanelResult.ok && sidePanelResult.summary) {
         const bullets = parseBullets(sidePanelResult.summary)
@@ -329,7 +347,7 @@ export function usePageSummary() {
         await cacheService.setPageSummary(tab.url, summaryData, 3600)
         log.log('cached summary for', tab.url.slice(0, 50))
         
-        indexToRag(fullContent, { sourceId: tab.url, sourceUrl: tab.url, sourceType: 'article', title: extracted.title })
+        indexToRag(fullContent, { sourceId: tab.url, sourceUrl: tab.url, sourceType: 'article', title: extracted.title, createdAt: extracted.publishDate })
         
         if (saveTabSession) await saveTabSession()
         summaryLoading.value = false
@@ -345,6 +363,7 @@ export function usePageSummary() {
       }) as AppSummaryResponse | null
       
       log.log('EXTRACT_AND_SUMMARIZE response', response)
+      if (controller.signal.aborted) return
       
       if (!response || !response.success) {
         if (response?.prompt) {
@@ -367,7 +386,7 @@ export function usePageSummary() {
         await cacheService.setPageSummary(tab.url, response.summary, 3600)
         
         if (response.summary.fullContent) {
-          indexToRag(response.summary.fullContent, { sourceId: tab.url, sourceUrl: tab.url, sourceType: 'article', title: response.summary.title })
+          indexToRag(response.summary.fullContent, { sourceId: tab.url, sourceUrl: tab.url, sourceType: 'article', title: response.summary.title, createdAt: response.summary.publishDate })
         }
       }
       
@@ -376,13 +395,30 @@ export function usePageSummary() {
       }
       
     } catch (error) {
+      if (controller.signal.aborted) return
       log.error('page summary failed', error)
       summaryError.value = (error as Error).message || 'unknown error'
     } finally {
-      summaryLoading.value = false
+      // a newer fetch owns the loading state once this one is superseded
+      if (summaryAbort === controller) {
+        summaryAbort = null
+        summaryLoading.value = false
+      }
     }
   }
 
+  // stops the local summarizer and the background pipeline down to the provider
+  function cancelSummary() {
+    if (!summaryAbort) return
+    summaryAbort.abort()
+    summaryAbort = null
+    if (currentTabUrl.value) {
+      sendToBackground({ type: 'CANCEL_OPERATION', operation: 'summary', sourceUrl: currentTabUrl.value }).catch(() => {})
+    }
+    summaryLoading.value = false
+    summaryError.value = 'summary cancelled'
+  }
+
   function triggerManualSummary(saveTabSession?: () => Promise<void>) {
     fetchCurrentPageSummary(true, 'manual', saveTabSession)
   }
@@ -398,7 +434,24 @@ export function usePageSummary() {
     summaryPrompt.value = null
   }
 
+  // drops the page from the search index, a later summary or chat indexes it again
+  async function forgetCurrentPage(): Promise<void> {
+    const url = currentTabUrl.value
+    if (!url) return
+    try {
+      const res = await sendToBackground({ type: 'RAG_DELETE_SOURCE', sourceId: url }) as { success: boolean; chunks?: number; error?: string }
+      if (!res?.success) throw new Error(res?.error || 'delete failed')
+      log.log(`forgot ${res.chunks} chunks`, url.slice(0, 50))
+      pageForgotten.value = true
+    } catch (err) {
+      log.warn('forget failed', (err as Error).message)
+    }
+  }
+
   function resetSummaryState() {
+    summaryAbort?.abort()
+    summaryAbort = null
+    pageForgotten.value = false
     pageSummary.value = null
     pageMetadata.value = null
     summaryLoading.value = false
@@ -494,10 +547,13 @@ export function usePageSummary() {
     triggerManualSummary,
     acceptSummaryPrompt,
     declineSummaryPrompt,
+    cancelSummary,
     resetSummaryState,
     setCurrentTabUrl,
     refreshCurrentTabUrl,
-    openLocalPdf
+    openLocalPdf,
+    pageForgotten,
+    forgetCurrentPage
   }
 }
 
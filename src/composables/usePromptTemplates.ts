@@ -0,0 +1,75 @@
+import { ref } from 'vue'
+import { promptRegistry, type PromptOverrideTable, type PromptPack } from '@/services/ai/PromptRegistry'
+import type { PromptId } from '@/services/ai/AIPrompts'
+import { logger } from '@/services/LoggerService'
+
+const log = logger.createScoped('usePromptTemplates')
+
+const promptOverrides = ref<PromptOverrideTable>({})
+const promptMessage = ref<string | null>(null) // outcome of the last save or import, shown under the editor
+
+// background services read overrides straight from storage, nothing to notify
+export function usePromptTemplates() {
+  async function loadPromptOverrides(): Promise<void> {
+    try {
+      promptOverrides.value = await promptRegistry.getOverrides()
+    } catch (err) {
+      log.warn('failed to load prompt overrides', (err as Error).message)
+    }
+  }
+
+  async function savePromptOverride(id: PromptId, template: string): Promise<void> {
+    try {
+      await promptRegistry.setOverride(id, template)
+      promptMessage.value = 'saved'
+    } catch (err) {
+      promptMessage.value = `not saved: ${(err as Error).message}`
+    }
+    await loadPromptOverrides()
+  }
+
+  async function resetPromptOverride(id?: PromptId): Promise<void> {
+    try {
+      await promptRegistry.reset(id)
+      promptMessage.value = id ? 'reset to default' : 'all prompts reset to default'
+    } catch (err) {
+      log.error('failed to reset prompts', err)
+    }
+    await loadPromptOverrides()
+  }
+
+  async function importPromptPack(pack: unknown): Promise<void> {
+    try {
+      const { imported, skipped } = await promptRegistry.importPack(pack)
+      promptMessage.value = `imported ${imported.length}` + (skipped.length ? `, skipped ${skipped.join('; ')}` : '')
+    } catch (err) {
+      promptMessage.value = `import failed: ${(err as Error).message}`
+    }
+    await loadPromptOverrides()
+  }
+
+  async function exportPromptPack(): Promise<void> {
+    try {
+      const pack: PromptPack = await promptRegistry.exportPack()
+      const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `metldr-prompts-${new Date().toISOString().split('T')[0]}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      log.error('failed to export prompts', err)
+    }
+  }
+
+  return {
+    promptOverrides,
+    promptMessage,
+    loadPromptOverrides,
+    savePromptOverride,
+    resetPromptOverride,
+    importPromptPack,
+    exportPromptPack
+  }
+}
@@ -0,0 +1,42 @@
+import { ref } from 'vue'
+import { storageService } from '@/services/StorageService'
+import { analyticsService } from '@/services/AnalyticsService'
+import { logger } from '@/services/LoggerService'
+import type { ProviderCircuitTable, ProviderHealth } from '@/types'
+
+const log = logger.createScoped('useProviderHealth')
+
+const PROVIDERS: ProviderHealth['provider'][] = ['chrome-ai', 'ollama', 'openai-compat', 'browser']
+const STATS_DAYS = 7
+
+const providerHealth = ref<ProviderHealth[]>([])
+
+// breaker state comes from storage, call stats from the analytics db; both are written by the background gateway
+export function useProviderHealth() {
+  async function loadProviderHealth(): Promise<void> {
+    try {
+      const [circuits, stats] = await Promise.all([
+        storageService.get<ProviderCircuitTable>('aiCircuits', {}),
+        analyticsService.getProviderStats(STATS_DAYS)
+      ])
+      providerHealth.value = PROVIDERS.map(provider => {
+        const s = stats.find(entry => entry.provider === provider)
+        return {
+          provider,
+          circuit: circuits[provider] || { state: 'closed' },
+          calls: s?.calls || 0,
+          successRate: s?.successRate || 0,
+          p50: s?.p50 || 0,
+          p95: s?.p95 || 0
+        }
+      })
+    } catch (err) {
+      log.warn('failed to load provider health', (err as Error).message)
+    }
+  }
+
+  return {
+    providerHealth,
+    loadProviderHealth
+  }
+}
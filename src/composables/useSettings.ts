@@ -5,7 +5,7 @@ import { logger } from '@/services/LoggerService'
 
 const log = logger.createScoped('useSettings')
 
-export type AIProviderPreference = 'chrome-ai' | 'ollama'
+export type AIProviderPreference = 'chrome-ai' | 'ollama' | 'openai-compat'
 export type FontSizePreference = 'small' | 'medium' | 'large'
 
 const summaryMode = ref<'manual' | 'auto'>('manual')
@@ -61,7 +61,7 @@ export function useSettings() {
   async function loadProviderPreference(): Promise<void> {
     try {
       const provider = await storageService.get<AIProviderPreference>('preferredProvider', 'chrome-ai')
-      if (provider === 'chrome-ai' || provider === 'ollama') {
+      if (provider === 'chrome-ai' || provider === 'ollama' || provider === 'openai-compat') {
         preferredProvider.value = provider
       }
     } catch (error) {
@@ -162,7 +162,7 @@ export function useSettings() {
 
       if (changes.preferredProvider?.newValue) {
         const pref = changes.preferredProvider.newValue as string
-        if (pref === 'chrome-ai' || pref === 'ollama') {
+        if (pref === 'chrome-ai' || pref === 'ollama' || pref === 'openai-compat') {
           preferredProvider.value = pref
         }
       }
@@ -2,7 +2,7 @@ import { ref, type Ref } from 'vue'
 import type { AppPageSummary, AppChatMessage } from '@/types'
 import { cacheService } from '@/services/CacheService'
 import { logger } from '@/services/LoggerService'
-import { concurrencyManager } from '@/services/ConcurrencyManager'
+import { sendToBackground } from './useMessaging'
 
 const log = logger.createScoped('TabSession')
 
@@ -177,7 +177,8 @@ export function useTabSession() {
       log.log('tab changed', { from: prevKey?.slice(0, 30), to: newKey?.slice(0, 30) })
       
       if (previousUrl) {
-        concurrencyManager.abortForUrl(previousUrl)
+        // stop the background summary for the tab we are leaving, indexing keeps going
+        sendToBackground({ type: 'CANCEL_OPERATION', operation: 'summary', sourceUrl: previousUrl }).catch(() => {})
         
         const prevChatMessages = [...chatMessages.value]
         const prevPageSummary = pageSummary.value
@@ -3,14 +3,37 @@
 // offscreen.ts - bridge between Service Worker and DOM contexts
 // handles: 1) sandbox iframe relay, 2) chrome AI API calls
 
+import { acquireSession, createLanguageModel, type SessionLease } from './sessionPool'
+
 console.log('[Offscreen] Initializing bridge...')
 
 const iframe = document.getElementById('sandbox-frame') as HTMLIFrameElement
 const pendingResponses = new Map<string, (response: any) => void>()
+// in-flight chrome AI calls by request id, aborted by CHROME_AI_CANCEL
+const activeAIRequests = new Map<string, AbortController>()
+
+// destroys the session as soon as the request is cancelled, freeing the model
+function destroyOnAbort(signal: AbortSignal, session: { destroy: () => void }): void {
+  signal.addEventListener('abort', () => session.destroy(), { once: true })
+}
+
+function initialPromptsFor(payload: any): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  return [
+    { role: 'system', content: payload.systemPrompt || 'You are a helpful assistant.' },
+    ...(payload.messages || [])
+  ]
+}
+
+function leaseFor(payload: any): Promise<SessionLease> {
+  return acquireSession(payload.sessionKey, payload.systemPrompt || 'You are a helpful assistant.', payload.messages || [])
+}
 
 // chrome AI handler - runs in offscreen context (has window context)
 async function handleChromeAI(msg: any): Promise<any> {
-  const { action, payload } = msg
+  const { action, payload, requestId } = msg
+  const controller = new AbortController()
+  const signal = controller.signal
+  if (requestId) activeAIRequests.set(requestId, controller)
   
   try {
     switch (action) {
@@ -31,8 +54,9 @@ async function handleChromeAI(msg: any): Promise<any> {
           expectedContextLanguages: ['en', 'es', 'ja'],
           outputLanguage: 'en'
         })
+        destroyOnAbort(signal, summarizer)
         try {
-          const summary = await summarizer.summarize(payload.content, { context: payload.context })
+          const summary = await summarizer.summarize(payload.content, { context: payload.context, signal })
           return { ok: true, summary, provider: 'chrome-ai' }
         } finally {
           summarizer.destroy()
@@ -43,21 +67,23 @@ async function handleChromeAI(msg: any): Promise<any> {
         if (typeof LanguageModel === 'undefined') {
           return { ok: false, error: 'LanguageModel not available' }
         }
-        const initialPrompts: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-          { role: 'system', content: payload.systemPrompt || 'You are a helpful assistant.' }
-        ]
-        
-        if (payload.messages?.length) {
-          initialPrompts.push(...payload.messages.slice(-6))
+        // chat turns with a session key reuse the conversation's warm session
+        if (payload.sessionKey && !payload.responseConstraint) {
+          const lease = await leaseFor(payload)
+          signal.addEventListener('abort', () => lease.release(), { once: true })
+          try {
+            const response = await lease.session.prompt(payload.userPrompt, { signal })
+            lease.release({ prompt: payload.sessionTurn ?? payload.userPrompt, reply: response })
+            return { ok: true, content: response, provider: 'chrome-ai', model: 'gemini-nano' }
+          } finally {
+            lease.release()
+          }
         }
-        
-        const session = await LanguageModel.create({
-          initialPrompts,
-          expectedInputs: [{ type: 'text', languages: ['en', 'es', 'ja'] }],
-          expectedOutputs: [{ type: 'text', languages: ['en'] }]
-        })
+
+        const session = await createLanguageModel(initialPromptsFor(payload))
+        destroyOnAbort(signal, session)
         try {
-          const promptOptions: { responseConstraint?: object } = {}
+          const promptOptions: { responseConstraint?: object; signal?: AbortSignal } = { signal }
           if (payload.responseConstraint) {
             promptOptions.responseConstraint = payload.responseConstraint
           }
@@ -96,6 +122,23 @@ async function handleChromeAI(msg: any): Promise<any> {
         }
       }
       
+      // input quota plus a chars-per-token ratio measured on a sample sentence
+      case 'contextWindow': {
+        if (typeof LanguageModel === 'undefined') {
+          return { ok: false, error: 'LanguageModel not available' }
+        }
+        const session = await LanguageModel.create({
+          expectedInputs: [{ type: 'text', languages: ['en', 'es', 'ja'] }],
+          expectedOutputs: [{ type: 'text', languages: ['en'] }]
+        })
+        try {
+          const used = await session.measureInputUsage(payload.sample)
+          return { ok: true, inputTokens: session.inputQuota, charsPerToken: used ? payload.sample.length / used : 4 }
+        } finally {
+          session.destroy()
+        }
+      }
+
       case 'capabilities': {
         const caps = {
           complete: typeof LanguageModel !== 'undefined',
@@ -112,12 +155,73 @@ async function handleChromeAI(msg: any): Promise<any> {
         return { ok: false, error: `Unknown Chrome AI action: ${action}` }
     }
   } catch (err) {
+    if (signal.aborted) return { ok: false, error: 'cancelled' }
     const errMsg = err instanceof DOMException ? `DOMException: ${err.name} - ${err.message}` : (err as Error).message
     console.error('[Offscreen] Chrome AI error:', errMsg)
     return { ok: false, error: errMsg }
+  } finally {
+    if (requestId) activeAIRequests.delete(requestId)
   }
 }
 
+// streamed prompt api completions for the service worker
+// the session is destroyed (or its pooled lease dropped) when the background disconnects, which stops generation
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== 'chrome-ai-stream') return
+
+  const controller = new AbortController()
+  let session: LanguageModelSession | null = null
+  let lease: SessionLease | null = null
+  let closed = false
+
+  port.onDisconnect.addListener(() => {
+    closed = true
+    controller.abort()
+    lease?.release()
+    session?.destroy()
+    session = null
+  })
+
+  port.onMessage.addListener(async (payload: any) => {
+    try {
+      if (typeof LanguageModel === 'undefined') {
+        port.postMessage({ type: 'error', error: 'LanguageModel not available' })
+        return
+      }
+
+      if (payload.sessionKey) {
+        lease = await leaseFor(payload)
+      } else {
+        session = await createLanguageModel(initialPromptsFor(payload))
+      }
+      if (closed) return
+
+      const reader = (lease?.session || session)!.promptStreaming(payload.userPrompt, { signal: controller.signal }).getReader()
+      let reply = ''
+      while (!closed) {
+        const { done, value } = await reader.read()
+        if (done) break
+        reply += value
+        port.postMessage({ type: 'chunk', content: value })
+      }
+      if (!closed) {
+        lease?.release({ prompt: payload.sessionTurn ?? payload.userPrompt, reply })
+        port.postMessage({ type: 'done' })
+      }
+    } catch (err) {
+      if (closed) return
+      const errMsg = err instanceof DOMException ? `DOMException: ${err.name} - ${err.message}` : (err as Error).message
+      console.error('[Offscreen] Chrome AI stream error:', errMsg)
+      port.postMessage({ type: 'error', error: errMsg })
+    } finally {
+      lease?.release()
+      lease = null
+      session?.destroy()
+      session = null
+    }
+  })
+})
+
 // main message listener
 chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
   if (msg.target !== 'offscreen') return false
@@ -136,6 +240,11 @@ chrome.runtime.onMessage.addListener((msg, sender, sendResponse) => {
     return true
   }
 
+  if (msg.type === 'CHROME_AI_CANCEL') {
+    activeAIRequests.get(msg.requestId)?.abort()
+    return false
+  }
+
   // forward to sandbox iframe for GPU/ML operations
   if (!iframe || !iframe.contentWindow) {
     console.error('[Offscreen] Sandbox iframe not ready')
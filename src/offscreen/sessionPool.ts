@@ -0,0 +1,173 @@
+// sessionPool.ts - warm prompt api sessions for multi-turn chat
+// one entry per conversation: a root session holding only the system prompt, and a live
+// clone of it that has seen the conversation so far. a turn that continues the transcript
+// prompts the live session directly; anything else (edited history, regenerate, quota)
+// forks a fresh clone from the root instead of prefilling the system prompt again
+
+type Turn = { role: 'user' | 'assistant'; content: string }
+type InitialPrompt = { role: 'system' | 'user' | 'assistant'; content: string }
+
+const IDLE_MS = 5 * 60_000
+const SWEEP_MS = 60_000
+const MAX_POOLED = 4 // each holds two sessions on the on-device model
+const QUOTA_HIGH_WATER = 0.85 // live session is dropped past this share of its input quota
+
+interface PooledSession {
+  systemHash: string
+  root: LanguageModelSession
+  live: LanguageModelSession | null
+  transcript: Turn[]
+  busy: boolean
+  lastUsed: number
+}
+
+export interface SessionLease {
+  session: LanguageModelSession
+  // pass the finished turn to keep the session warm, nothing to discard it
+  release(turn?: { prompt: string; reply: string }): void
+}
+
+const pool = new Map<string, PooledSession>()
+
+export function createLanguageModel(initialPrompts: InitialPrompt[]): Promise<LanguageModelSession> {
+  if (typeof LanguageModel === 'undefined') throw new Error('LanguageModel not available')
+  return LanguageModel.create({
+    initialPrompts,
+    expectedInputs: [{ type: 'text', languages: ['en', 'es', 'ja'] }],
+    expectedOutputs: [{ type: 'text', languages: ['en'] }]
+  })
+}
+
+// fnv-1a, only tells system prompts apart
+function hash(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16)
+}
+
+// callers send a trailing window of the chat, so the history only has to match the transcript's end
+function continues(transcript: Turn[], history: Turn[]): boolean {
+  if (!history.length) return !transcript.length
+  if (history.length > transcript.length) return false
+  const offset = transcript.length - history.length
+  return history.every((m, i) => m.role === transcript[offset + i].role && m.content === transcript[offset + i].content)
+}
+
+function destroyEntry(entry: PooledSession): void {
+  entry.live?.destroy()
+  entry.root.destroy()
+}
+
+// clone of the root with the history added, or a cold session where append isn't supported
+async function fork(root: LanguageModelSession, systemPrompt: string, history: Turn[]): Promise<LanguageModelSession> {
+  const session = await root.clone()
+  if (!history.length) return session
+  if (typeof session.append === 'function') {
+    await session.append(history)
+    return session
+  }
+  session.destroy()
+  return createLanguageModel([{ role: 'system', content: systemPrompt }, ...history])
+}
+
+async function rootFor(key: string, systemPrompt: string): Promise<PooledSession> {
+  const systemHash = hash(systemPrompt)
+  const existing = pool.get(key)
+  if (existing && existing.systemHash === systemHash) {
+    // most recently used last
+    pool.delete(key)
+    pool.set(key, existing)
+    return existing
+  }
+  // a busy entry for an older system prompt is destroyed when its turn is released
+  if (existing) {
+    if (!existing.busy) destroyEntry(existing)
+    pool.delete(key)
+  }
+
+  for (const [oldKey, oldest] of pool) {
+    if (pool.size < MAX_POOLED) break
+    if (oldest.busy) continue
+    destroyEntry(oldest)
+    pool.delete(oldKey)
+  }
+
+  const entry: PooledSession = {
+    systemHash,
+    root: await createLanguageModel([{ role: 'system', content: systemPrompt }]),
+    live: null,
+    transcript: [],
+    busy: false,
+    lastUsed: Date.now()
+  }
+  pool.set(key, entry)
+  return entry
+}
+
+// a session ready for the next prompt of this conversation
+export async function acquireSession(key: string, systemPrompt: string, history: Turn[]): Promise<SessionLease> {
+  const entry = await rootFor(key, systemPrompt)
+
+  // a second request on the same conversation gets a throwaway fork
+  if (entry.busy) {
+    const session = await fork(entry.root, systemPrompt, history)
+    let released = false
+    return {
+      session,
+      release() {
+        if (released) return
+        released = true
+        session.destroy()
+      }
+    }
+  }
+
+  if (entry.live && !continues(entry.transcript, history)) {
+    entry.live.destroy()
+    entry.live = null
+  }
+  if (!entry.live) {
+    entry.live = await fork(entry.root, systemPrompt, history)
+    entry.transcript = [...history]
+  }
+
+  entry.busy = true
+  entry.lastUsed = Date.now()
+  const live = entry.live
+  let released = false
+
+  return {
+    session: live,
+    release(turn) {
+      if (released) return
+      released = true
+      entry.busy = false
+      entry.lastUsed = Date.now()
+      if (pool.get(key) !== entry) {
+        destroyEntry(entry)
+        return
+      }
+      // an unfinished turn leaves the session in an unknown state
+      if (!turn || live.inputUsage >= live.inputQuota * QUOTA_HIGH_WATER) {
+        if (turn) console.log('[SessionPool] dropping live session near quota:', key)
+        live.destroy()
+        entry.live = null
+        entry.transcript = []
+        return
+      }
+      entry.transcript.push({ role: 'user', content: turn.prompt }, { role: 'assistant', content: turn.reply })
+    }
+  }
+}
+
+setInterval(() => {
+  const now = Date.now()
+  for (const [key, entry] of pool) {
+    if (entry.busy || now - entry.lastUsed < IDLE_MS) continue
+    destroyEntry(entry)
+    pool.delete(key)
+  }
+}, SWEEP_MS)
@@ -2,13 +2,20 @@
 // handles all transformers.js operations via postMessage API
 
 import { pipeline, env, AutoTokenizer, type Pipeline } from '@huggingface/transformers'
-import type { LocalTask, OffscreenRequest, OffscreenResponse } from '../types/local-models'
+import type { LocalTask, EmbeddingModelConfig, ClassifyRequest, ClassifyResponse, NERRequest, NEREntity, GenerateRequest, GenerateResponse, OffscreenRequest, OffscreenResponse } from '../types/local-models'
 
 // voy-search WASM binding (loaded manually to avoid bundler-style imports)
 let Voy: any = null
 let voyIndex: any = null
+let voyStaging: any = null // built beside the live index while vectors move to a new embedding model
 let voyInitPromise: Promise<void> | null = null
 
+function voyTarget(staging?: boolean): any {
+  if (!staging) return voyIndex
+  if (!voyStaging) voyStaging = new Voy({ embeddings: [] })
+  return voyStaging
+}
+
 async function ensureVoy() {
   if (Voy) return voyIndex
   if (voyInitPromise) {
@@ -47,19 +54,34 @@ async function ensureVoy() {
   return voyIndex
 }
 
-// model registry - embedding only
+// model registry - email triage and the fallback instruct model
+// the embedding model is chosen in settings and arrives with each request
 const MODEL_REGISTRY = {
-  embed: {
-    id: 'nomic-ai/nomic-embed-text-v1.5',
-    task: 'feature-extraction',
+  classify: {
+    id: 'MoritzLaurer/deberta-v3-xsmall-zeroshot-v1.1-all-33',
+    task: 'zero-shot-classification',
+    dtype: 'q8',
+    priority: 'bundled'
+  },
+  ner: {
+    id: 'Xenova/bert-base-NER',
+    task: 'token-classification',
     dtype: 'q8',
     priority: 'bundled'
+  },
+  generate: {
+    id: 'onnx-community/Qwen2.5-0.5B-Instruct',
+    task: 'text-generation',
+    dtype: 'q4',
+    priority: 'bundled'
   }
 } as const
 
-// local model paths for bundled models (embedding only)
+// local model paths for bundled models
 const LOCAL_MODEL_PATHS: Record<string, string> = {
-  'nomic-ai/nomic-embed-text-v1.5': 'models/nomic-embed-text-v1.5/'
+  'MoritzLaurer/deberta-v3-xsmall-zeroshot-v1.1-all-33': 'models/deberta-v3-xsmall-zeroshot/',
+  'Xenova/bert-base-NER': 'models/bert-base-NER/',
+  'onnx-community/Qwen2.5-0.5B-Instruct': 'models/qwen2.5-0.5b-instruct/'
 }
 
 // configure transformers.js
@@ -80,7 +102,8 @@ if (env.backends?.onnx?.wasm) {
 let currentBackend: 'webgpu' | 'wasm' = 'wasm'
 const pipelines = new Map<LocalTask, Pipeline>()
 const loading = new Map<LocalTask, Promise<Pipeline>>()
-let tokenizer: any = null
+const loadedModels = new Map<LocalTask, string>() // model id behind each pipeline
+let tokenizer: { id: string; tok: any } | null = null
 const MAX_LOADED = 3
 
 // init backend with webgpu → wasm fallback
@@ -102,13 +125,33 @@ async function initBackend(): Promise<'webgpu' | 'wasm'> {
   }
 }
 
+interface PipelineModel {
+  id: string
+  task: string
+  dtype: string
+  localPath?: string
+}
+
+function modelFor(task: LocalTask, embedModel?: EmbeddingModelConfig): PipelineModel {
+  if (task !== 'embed') return { ...MODEL_REGISTRY[task], localPath: LOCAL_MODEL_PATHS[MODEL_REGISTRY[task].id] }
+  if (!embedModel) throw new Error('No embedding model given')
+  return { id: embedModel.id, task: 'feature-extraction', dtype: embedModel.dtype, localPath: embedModel.localPath }
+}
+
 // get or load pipeline with deduplication and LRU eviction
-async function getPipeline(task: LocalTask): Promise<Pipeline> {
-  const cached = pipelines.get(task)
-  if (cached) return cached
-  
+async function getPipeline(task: LocalTask, model: PipelineModel = modelFor(task)): Promise<Pipeline> {
   const inflight = loading.get(task)
-  if (inflight) return inflight
+  if (inflight && loadedModels.get(task) === model.id) return inflight
+  if (inflight) await inflight.catch(() => {})
+
+  const cached = pipelines.get(task)
+  if (cached && loadedModels.get(task) === model.id) return cached
+  if (cached) {
+    // a different model was selected for this task since it loaded
+    console.log(`[GPU Bridge] Replacing ${task}: ${loadedModels.get(task)} → ${model.id}`)
+    pipelines.delete(task)
+    await (cached as any).dispose?.()
+  }
   
   // evict LRU if at capacity
   if (pipelines.size >= MAX_LOADED) {
@@ -119,8 +162,9 @@ async function getPipeline(task: LocalTask): Promise<Pipeline> {
     }
   }
   
-  const loadPromise = loadPipeline(task)
+  const loadPromise = loadPipeline(task, model)
   loading.set(task, loadPromise)
+  loadedModels.set(task, model.id)
   
   try {
     return await loadPromise
@@ -129,14 +173,13 @@ async function getPipeline(task: LocalTask): Promise<Pipeline> {
   }
 }
 
-async function loadPipeline(task: LocalTask): Promise<Pipeline> {
-  const config = MODEL_REGISTRY[task]
+async function loadPipeline(task: LocalTask, config: PipelineModel): Promise<Pipeline> {
   const start = performance.now()
   
   console.log(`[GPU Bridge] Loading ${task}: ${config.id} on ${currentBackend}`)
   
   // use local path if model is bundled, otherwise use model ID
-  const modelPath = LOCAL_MODEL_PATHS[config.id] || config.id
+  const modelPath = config.localPath || config.id
   
   try {
     const p = await pipeline(config.task as any, modelPath, {
@@ -153,46 +196,42 @@ async function loadPipeline(task: LocalTask): Promise<Pipeline> {
     if (currentBackend === 'webgpu') {
       console.warn(`[GPU Bridge] WebGPU failed for ${task}, retrying with WASM`)
       currentBackend = 'wasm'
-      return loadPipeline(task)
+      return loadPipeline(task, config)
     }
     throw err
   }
 }
 
-// embedding with matryoshka slicing
-// nomic-embed-text-v1.5 has 8192 token limit (~4 chars/token)
-const MAX_EMBED_CHARS = 24000 // ~6000 tokens, leaving headroom
-
-async function embed(texts: string[], isQuery: boolean): Promise<number[][]> {
-  console.log('[GPU Bridge] embed called:', { textCount: texts.length, isQuery })
+// embedding with the selected model's prefixes and pooling, matryoshka models sliced to dims
+async function embed(texts: string[], isQuery: boolean, model: EmbeddingModelConfig): Promise<number[][]> {
+  console.log('[GPU Bridge] embed called:', { textCount: texts.length, isQuery, model: model.id })
   
-  const extractor = await getPipeline('embed')
+  const extractor = await getPipeline('embed', modelFor('embed', model))
   if (!extractor) {
     throw new Error('Failed to get embedding pipeline')
   }
   
   const results: number[][] = []
-  const targetDims = 256 // matryoshka slice
   
   for (let i = 0; i < texts.length; i++) {
     const text = texts[i]
     
     // warn about oversized text (chunking should prevent this)
-    if (text.length > MAX_EMBED_CHARS) {
-      console.warn(`[GPU Bridge] WARNING: text ${i + 1} is ${text.length} chars (>${MAX_EMBED_CHARS}), may exceed token limit`)
+    if (text.length > model.maxChars) {
+      console.warn(`[GPU Bridge] WARNING: text ${i + 1} is ${text.length} chars (>${model.maxChars}), may exceed token limit`)
     }
     
-    const prefixed = isQuery ? `search_query: ${text}` : `search_document: ${text}`
+    const prefixed = `${isQuery ? model.queryPrefix : model.documentPrefix}${text}`
     
     console.log(`[GPU Bridge] Embedding text ${i + 1}/${texts.length} (${text.length} chars)`)
-    const output = await extractor(prefixed, { pooling: 'mean', normalize: true })
+    const output = await extractor(prefixed, { pooling: model.pooling, normalize: true })
     
     if (!output || !output.data) {
       throw new Error(`Embedding failed for text ${i + 1}: no output data`)
     }
     
     const full = output.data as Float32Array
-    const sliced = full.slice(0, targetDims)
+    const sliced = full.slice(0, model.dims)
     
     // renormalize after slice
     let norm = 0
@@ -207,18 +246,89 @@ async function embed(texts: string[], isQuery: boolean): Promise<number[][]> {
   return results
 }
 
-// tokenizer
-async function getTokenizer() {
-  if (tokenizer) return tokenizer
-  const config = MODEL_REGISTRY.embed
-  // use local path if model is bundled
-  const modelPath = LOCAL_MODEL_PATHS[config.id] || config.id
-  tokenizer = await AutoTokenizer.from_pretrained(modelPath)
-  return tokenizer
+// both triage models read at most 512 tokens, longer text is cut rather than chunked
+const MAX_TRIAGE_CHARS = 2000
+
+// zero-shot classification, one entailment pass per label
+async function classify(request: ClassifyRequest): Promise<ClassifyResponse> {
+  const classifier = await getPipeline('classify')
+  const output = await classifier(request.text.slice(0, MAX_TRIAGE_CHARS), request.labels, {
+    multi_label: request.multiLabel ?? false,
+    hypothesis_template: 'This email is about {}.'
+  })
+  const { sequence, labels, scores } = output as any
+  return { sequence, labels, scores }
 }
 
-async function tokenize(texts: string[]): Promise<number[]> {
-  const tok = await getTokenizer()
+// named entities, token predictions merged into spans
+async function ner(request: NERRequest): Promise<NEREntity[]> {
+  const tagger = await getPipeline('ner')
+  const text = request.text.slice(0, MAX_TRIAGE_CHARS)
+  const tokens = await tagger(text) as Array<{ entity: string; score: number; index: number; word: string }>
+
+  const spans: Array<{ word: string; entity: string; scores: number[]; lastIndex: number }> = []
+  for (const token of tokens) {
+    const [prefix, type] = token.entity.includes('-') ? token.entity.split('-') : ['B', token.entity]
+    if (type === 'O') continue
+    const piece = token.word.startsWith('##')
+    const current = spans.at(-1)
+    // continue the span on word pieces and I- tags of the same type right after it
+    if (current && current.entity === type && current.lastIndex === token.index - 1 && (piece || prefix === 'I')) {
+      current.word += piece ? token.word.slice(2) : ` ${token.word}`
+      current.scores.push(token.score)
+      current.lastIndex = token.index
+    } else {
+      spans.push({ word: piece ? token.word.slice(2) : token.word, entity: type, scores: [token.score], lastIndex: token.index })
+    }
+  }
+
+  let cursor = 0
+  return spans.map(span => {
+    const start = text.indexOf(span.word, cursor)
+    if (start >= 0) cursor = start + span.word.length
+    return {
+      word: span.word,
+      entity: span.entity,
+      score: span.scores.reduce((a, b) => a + b, 0) / span.scores.length,
+      start,
+      end: start >= 0 ? start + span.word.length : -1
+    }
+  })
+}
+
+// text generation with the model's chat template
+const DEFAULT_GENERATE_TOKENS = 256
+
+async function generate(request: GenerateRequest): Promise<GenerateResponse> {
+  const generator = await getPipeline('generate')
+  const messages = [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    ...(request.messages || []),
+    { role: 'user', content: request.prompt }
+  ]
+  const temperature = request.temperature ?? 0
+
+  const output = await generator(messages, {
+    max_new_tokens: request.maxTokens ?? DEFAULT_GENERATE_TOKENS,
+    do_sample: temperature > 0,
+    ...(temperature > 0 ? { temperature } : {})
+  })
+
+  // chat input comes back as the whole conversation, the reply is the last message
+  const generated = (output as any)[0]?.generated_text
+  const text = Array.isArray(generated) ? generated.at(-1)?.content ?? '' : String(generated ?? '')
+  return { text: text.trim() }
+}
+
+// tokenizer of the selected embedding model, counts are what it will see
+async function getTokenizer(model: EmbeddingModelConfig) {
+  if (tokenizer?.id === model.id) return tokenizer.tok
+  tokenizer = { id: model.id, tok: await AutoTokenizer.from_pretrained(model.localPath) }
+  return tokenizer.tok
+}
+
+async function tokenize(texts: string[], model: EmbeddingModelConfig): Promise<number[]> {
+  const tok = await getTokenizer(model)
   const results: number[] = []
   for (const text of texts) {
     const { input_ids } = await tok(text)
@@ -241,22 +351,35 @@ async function handleMessage(request: any): Promise<any> {
         break
         
       case 'EMBED':
-        data = { embeddings: await embed(request.payload.texts, request.payload.isQuery ?? false), dims: 256 }
+        data = { embeddings: await embed(request.payload.texts, request.payload.isQuery ?? false, request.payload.model), dims: request.payload.model.dims }
+        break
+        
+      case 'CLASSIFY':
+        data = await classify(request.payload)
+        break
+        
+      case 'NER':
+        data = { entities: await ner(request.payload) }
+        break
+        
+      case 'GENERATE':
+        data = await generate(request.payload)
         break
         
       case 'TOKENIZE':
-        data = { counts: await tokenize(request.texts) }
+        data = { counts: await tokenize(request.texts, request.model) }
         break
         
       case 'PRELOAD':
-        await Promise.all((request.tasks as LocalTask[]).map(t => getPipeline(t)))
+        await Promise.all((request.tasks as LocalTask[]).map(t => getPipeline(t, modelFor(t, request.embedModel))))
         data = { preloaded: request.tasks }
         break
         
       case 'STATUS':
-        const tasks = (Object.keys(MODEL_REGISTRY) as LocalTask[]).map(task => ({
+        const tasks = (['embed', ...Object.keys(MODEL_REGISTRY)] as LocalTask[]).map(task => ({
           task,
-          loaded: pipelines.has(task)
+          loaded: pipelines.has(task),
+          model: loadedModels.get(task)
         }))
         data = { tasks, backend: currentBackend, poolSize: pipelines.size }
         break
@@ -265,18 +388,18 @@ async function handleMessage(request: any): Promise<any> {
       case 'VOY_ADD':
         await ensureVoy()
         // voy-search requires: id, title, url, embeddings
-        voyIndex.add({ embeddings: [{ 
-          id: request.id, 
-          title: request.title || request.id, 
-          url: request.url || '',
-          embeddings: request.embedding 
-        }] })
-        data = { added: request.id }
+        voyTarget(request.staging).add({ embeddings: request.items.map((item: { id: string; title?: string; url?: string; embedding: number[] }) => ({
+          id: item.id,
+          title: item.title || item.id,
+          url: item.url || '',
+          embeddings: item.embedding
+        })) })
+        data = { added: request.items.length }
         break
         
       case 'VOY_SEARCH':
         await ensureVoy()
-        const searchResults = voyIndex.search(request.embedding, request.limit || 5)
+        const searchResults = voyTarget(request.staging).search(request.embedding, request.limit || 5)
         // voy with inner product: distance IS similarity for normalized vectors (higher = better)
         data = { results: searchResults.neighbors.map((n: any) => ({ 
           id: n.id, 
@@ -284,33 +407,34 @@ async function handleMessage(request: any): Promise<any> {
         })) }
         break
         
-      case 'VOY_SERIALIZE':
+      case 'VOY_REMOVE':
         await ensureVoy()
-        // return serialized string directly - VectorStore will convert to bytes for compression
-        const serializedStr = voyIndex.serialize()
-        data = { serialized: serializedStr || null }
+        // voy matches on id, title and url plus the nearest point, so callers pass what was added
+        const removeFrom = voyTarget(request.staging)
+        const sizeBefore = removeFrom.size()
+        removeFrom.remove({ embeddings: request.items.map((item: { id: string; title?: string; url?: string; embedding: number[] }) => ({
+          id: item.id,
+          title: item.title || item.id,
+          url: item.url || '',
+          embeddings: item.embedding
+        })) })
+        data = { removed: sizeBefore - removeFrom.size(), size: removeFrom.size() }
         break
-        
-      case 'VOY_LOAD':
+
+      case 'VOY_CLEAR':
         await ensureVoy()
-        if (Voy && request.data) {
-          // accept string directly (from chrome messaging) or Uint8Array (legacy)
-          let indexStr: string
-          if (typeof request.data === 'string') {
-            indexStr = request.data
-          } else if (request.data instanceof Uint8Array) {
-            indexStr = new TextDecoder().decode(request.data)
-          } else if (Array.isArray(request.data)) {
-            // array from chrome messaging
-            indexStr = new TextDecoder().decode(new Uint8Array(request.data))
-          } else {
-            throw new Error('VOY_LOAD: Invalid data type')
-          }
-          voyIndex = Voy.deserialize(indexStr)
-        }
-        data = { loaded: true }
+        voyTarget(request.staging).clear()
+        data = { cleared: true }
         break
-        
+
+      case 'VOY_PROMOTE':
+        await ensureVoy()
+        // the staging index becomes the live one
+        voyIndex = voyStaging || new Voy({ embeddings: [] })
+        voyStaging = null
+        data = { promoted: true }
+        break
+
       default:
         throw new Error(`Unknown message type: ${request.type}`)
     }
@@ -0,0 +1,262 @@
+import { cacheService } from './CacheService'
+import { WordService } from './WordService'
+import { PageService } from './PageService'
+import { storageService } from './StorageService'
+import { aiGateway } from './ai'
+import { ragService } from './rag/RagService'
+import { AgentPrefs } from '../utils/agentSettings'
+import type {
+  AgentSettings,
+  AgentToolName,
+  AgentToolStep,
+  ChatMessageRequest,
+  ChatSource,
+  ChatStreamEvent,
+  EmailSummary,
+  ExtractedData,
+  GlobalChatRequest,
+  PageSummary,
+  RagSearchFilter
+} from '../types'
+import type { AICompleteRequest, AIToolCall, AIToolDefinition, AIToolMessage } from '../types/chrome-ai'
+
+const MAX_RESULT_CHARS = 4000 // per tool result, the model still has to fit the whole loop
+const SEARCH_LIMIT = 5
+
+interface ToolOutput {
+  content: string  // what the model sees
+  summary: string  // what the chat shows under the step
+  sources?: ChatSource[]
+}
+
+interface AgentTool {
+  definition: AIToolDefinition
+  run(args: Record<string, unknown>, signal?: AbortSignal, filter?: RagSearchFilter): Promise<ToolOutput>
+}
+
+// chat with tools: the model decides per turn whether to call a tool or answer,
+// tool calls show up as steps in the chat while the loop runs
+export class AgentService {
+  static async getSettings(): Promise<AgentSettings> {
+    return AgentPrefs.normalize(await storageService.get<Partial<AgentSettings>>('agentSettings', AgentPrefs.DEFAULT))
+  }
+
+  static TOOLS: Record<AgentToolName, AgentTool> = {
+    search_knowledge: {
+      definition: {
+        name: 'search_knowledge',
+        description: 'Search the pages, emails and PDFs the user has saved. Results are numbered for citing as [n].',
+        parameters: {
+          type: 'object',
+          required: ['query'],
+          properties: { query: { type: 'string', description: 'what to search for' } }
+        }
+      },
+      // searches stay inside the filter the global chat was started with
+      async run(args, _signal, filter) {
+        const query = String(args.query || '').trim()
+        if (!query) throw new Error('query is required')
+        const { context, sources } = await ragService.searchWithSources(query, SEARCH_LIMIT, filter)
+        if (!context) return { content: 'No saved content matches.', summary: 'no matches' }
+        const links = sources.map(s => `[${s.index}] ${s.url}`).join('\n')
+        return { content: `${context}\n\nURLS:\n${links}`, summary: `${sources.length} results`, sources }
+      }
+    },
+
+    get_email_summary: {
+      definition: {
+        name: 'get_email_summary',
+        description: 'Read the stored summary of an email the user has opened before.',
+        parameters: {
+          type: 'object',
+          required: ['email'],
+          properties: { email: { type: 'string', description: 'email id, or its email:// url from a search result' } }
+        }
+      },
+      async run(args) {
+        const emailId = String(args.email || '').replace('email://', '').split('/').pop()?.trim()
+        if (!emailId) throw new Error('email is required')
+        const summary = await cacheService.getEmailSummary(emailId) as EmailSummary | null
+        if (!summary) return { content: `No summary stored for email ${emailId}.`, summary: 'not summarized yet' }
+        const lines = [
+          summary.summary,
+          summary.intent && `Intent: ${summary.intent}`,
+          summary.action_items?.length && `Action items: ${summary.action_items.join('; ')}`,
+          summary.dates?.length && `Dates: ${summary.dates.join('; ')}`,
+          summary.urgency && `Urgency: ${summary.urgency}`
+        ].filter(Boolean)
+        return { content: lines.join('\n'), summary: summary.summary.slice(0, 80) }
+      }
+    },
+
+    define_word: {
+      definition: {
+        name: 'define_word',
+        description: 'Look up the definitions and synonyms of a word in the dictionary.',
+        parameters: {
+          type: 'object',
+          required: ['word'],
+          properties: {
+            word: { type: 'string', description: 'a single word' },
+            language: { type: 'string', description: 'ISO 639-1 code, defaults to en' }
+          }
+        }
+      },
+      async run(args) {
+        const word = String(args.word || '').trim()
+        if (!word) throw new Error('word is required')
+        const language = typeof args.language === 'string' && args.language ? args.language : 'en'
+        const result = await WordService.lookup(word, { languages: [language] })
+        if (!result?.definitions.length) return { content: `No definition found for "${word}".`, summary: 'not found' }
+        const definitions = result.definitions.slice(0, 5).map(d =>
+          `- (${d.partOfSpeech}) ${d.definition}${d.example ? ` e.g. "${d.example}"` : ''}`
+        )
+        const synonyms = result.synonyms.length ? `\nSynonyms: ${result.synonyms.slice(0, 8).join(', ')}` : ''
+        return { content: `${word}:\n${definitions.join('\n')}${synonyms}`, summary: result.definitions[0].definition.slice(0, 80) }
+      }
+    },
+
+    summarize_page: {
+      definition: {
+        name: 'summarize_page',
+        description: 'Summarize a web page that is open in one of the user\'s tabs.',
+        parameters: {
+          type: 'object',
+          required: ['url'],
+          properties: { url: { type: 'string', description: 'url of the open page' } }
+        }
+      },
+      async run(args, signal) {
+        const url = String(args.url || '').trim()
+        if (!url) throw new Error('url is required')
+
+        let summary = await cacheService.getPageSummary(url) as PageSummary | null
+        if (!summary?.bullets?.length) {
+          const normalize = (u: string) => u.split('#')[0].replace(/\/+$/, '')
+          const tab = (await chrome.tabs.query({})).find(t => t.url && normalize(t.url) === normalize(url))
+          if (!tab?.id) throw new Error('page is not open in a tab')
+          const response = await chrome.tabs.sendMessage(tab.id, { type: 'EXTRACT_ARTICLE' }) as { success: boolean; data?: ExtractedData; error?: string }
+          if (!response?.success || !response.data) throw new Error(response?.error || 'extraction failed')
+          summary = await PageService.summarize(response.data, false, signal)
+        }
+        if (!summary?.bullets?.length) throw new Error('no summary produced')
+        return { content: `${summary.title}\n${summary.bullets.map(b => `- ${b}`).join('\n')}`, summary: summary.title }
+      }
+    }
+  }
+
+  static async *chatStream(
+    msg: ChatMessageRequest | GlobalChatRequest,
+    settings: AgentSettings,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    const startTime = performance.now()
+    const lastUserMsg = msg.messages.filter(m => m.role === 'user').pop()?.content || ''
+    if (!lastUserMsg) {
+      yield { type: 'error', error: 'no user message' }
+      return
+    }
+
+    let base: AICompleteRequest
+    let sources: ChatSource[] = []
+    const filter = msg.type === 'GLOBAL_CHAT' ? msg.filter : undefined
+    if (msg.type === 'GLOBAL_CHAT') {
+      const prepared = await PageService._prepareGlobalChat(msg.messages, lastUserMsg, signal, filter)
+      if (!prepared.request) {
+        yield* PageService.globalChatStream(msg.messages, signal, filter)
+        return
+      }
+      base = prepared.request
+      sources = prepared.sources
+      yield { type: 'sources', sources }
+    } else {
+      base = await PageService._prepareChat(msg.messages, msg.pageContext || null, msg.systemPrompt, signal, undefined, msg.context)
+    }
+
+    const allowed = AgentPrefs.TOOLS.filter(name => settings.tools[name])
+    const tools = allowed.map(name => this.TOOLS[name].definition)
+    const messages: AIToolMessage[] = [...(base.messages || []), { role: 'user', content: base.userPrompt }]
+    let model: string | undefined
+
+    for (let iteration = 1; iteration <= settings.maxIterations; iteration++) {
+      if (signal?.aborted) return
+
+      // the last turn gets no tools, so the loop always ends in an answer
+      const result = await aiGateway.completeWithTools({
+        feature: base.feature,
+        signal,
+        systemPrompt: base.systemPrompt,
+        messages,
+        tools: iteration < settings.maxIterations ? tools : [],
+        temperature: base.temperature
+      })
+      if (!result.ok) {
+        yield { type: 'error', error: result.error || 'ai generation failed' }
+        return
+      }
+      model = result.model || model
+
+      if (!result.toolCalls?.length) {
+        const content = result.content || ''
+        yield { type: 'token', content }
+        yield {
+          type: 'done',
+          content,
+          timing: { total: Math.round(performance.now() - startTime), model: model || PageService._fallbackModel() }
+        }
+        return
+      }
+
+      messages.push({ role: 'assistant', content: result.content || '', toolCalls: result.toolCalls })
+      for (const [i, call] of result.toolCalls.entries()) {
+        const step: AgentToolStep = { id: `${iteration}-${i}`, tool: call.name as AgentToolName, args: call.arguments, status: 'running' }
+        yield { type: 'tool', step: { ...step } }
+
+        const output = await this._runTool(call, allowed, sources, signal, filter)
+        if (output.sources?.length) {
+          sources = [...sources, ...output.sources]
+          yield { type: 'sources', sources }
+        }
+        yield { type: 'tool', step: { ...step, status: output.status, summary: output.summary } }
+        messages.push({ role: 'tool', toolName: call.name, content: output.content })
+      }
+    }
+  }
+
+  // a tool that isn't switched on is refused rather than run, the model sees why
+  private static async _runTool(
+    call: AIToolCall,
+    allowed: AgentToolName[],
+    known: ChatSource[],
+    signal?: AbortSignal,
+    filter?: RagSearchFilter
+  ): Promise<ToolOutput & { status: AgentToolStep['status'] }> {
+    const name = call.name as AgentToolName
+    if (!allowed.includes(name)) {
+      return { status: 'denied', content: `Tool ${call.name} is not available. Answer without it.`, summary: 'not allowed in settings' }
+    }
+
+    try {
+      const output = await this.TOOLS[name].run(call.arguments, signal, filter)
+      if (!output.sources?.length) return { status: 'done', ...output, content: output.content.slice(0, MAX_RESULT_CHARS) }
+
+      // citation numbers continue after the sources already shown, a source found again keeps its number
+      const numbers = new Map<number, number>()
+      const fresh: ChatSource[] = []
+      for (const source of output.sources) {
+        const seen = known.find(k => k.url === source.url)
+        const index = seen?.index ?? known.length + fresh.length + 1
+        numbers.set(source.index, index)
+        if (!seen) fresh.push({ ...source, index })
+      }
+      const content = output.content.replace(/(^|\n)\[(\d+)\] /g, (match, sep: string, n: string) => {
+        const index = numbers.get(Number(n))
+        return index ? `${sep}[${index}] ` : match
+      })
+      return { status: 'done', content: content.slice(0, MAX_RESULT_CHARS), summary: output.summary, sources: fresh }
+    } catch (err) {
+      console.warn('[AgentService] tool failed:', call.name, (err as Error).message)
+      return { status: 'error', content: `Tool ${call.name} failed: ${(err as Error).message}`, summary: (err as Error).message }
+    }
+  }
+}
@@ -111,6 +111,24 @@ export type EventType =
   | 'pdf_processed'
   | 'error'
 
+// per-provider call outcomes for one day (key: YYYY-MM-DD:provider)
+export interface ProviderDailyStats {
+  id: string
+  date: string
+  provider: string
+  successes: number
+  failures: number
+  latencies: number[]              // ms, successful calls only, most recent kept
+}
+
+export interface ProviderCallSummary {
+  provider: string
+  calls: number
+  successRate: number              // 0-1
+  p50: number                      // ms
+  p95: number                      // ms
+}
+
 // user-facing analytics summary
 export interface AnalyticsSummary {
   // overview
@@ -167,6 +185,9 @@ export interface AnalyticsSummary {
 const STORE_DAILY = 'daily_stats'
 const STORE_SESSIONS = 'sessions'
 const STORE_EVENTS = 'events'
+const STORE_PROVIDERS = 'provider_stats'
+
+const MAX_LATENCY_SAMPLES = 200    // per provider per day
 
 const WORDS_PER_MINUTE_READING = 200
 const AVG_WORDS_PER_EMAIL = 300
@@ -198,6 +219,12 @@ function getDayName(dayIndex: number): string {
   return ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayIndex]
 }
 
+// nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]
+}
+
 function extractDomain(url: string): string {
   try {
     return new URL(url).hostname.replace('www.', '')
@@ -259,6 +286,7 @@ class AnalyticsServiceClass {
   
   private activeTimer: ReturnType<typeof setInterval> | null = null
   private lastTickTime = 0
+  private providerWrites: Promise<void> = Promise.resolve()
   private notifyDebounceTimer: ReturnType<typeof setTimeout> | null = null
 
   // broadcast stats update to trigger UI refresh (debounced)
@@ -607,6 +635,64 @@ class AnalyticsServiceClass {
     await this.saveDailyStats(stats)
   }
 
+  // ============ PROVIDER HEALTH ============
+
+  // writes are chained, parallel calls would otherwise overwrite each other's counts
+  async trackProviderCall(provider: string, ok: boolean, latencyMs: number): Promise<void> {
+    const write = this.providerWrites.then(async () => {
+      const date = getTodayKey()
+      const id = `${date}:${provider}`
+      const stats = await databaseService.get<ProviderDailyStats>(DB_CONFIGS.analytics, STORE_PROVIDERS, id)
+        || { id, date, provider, successes: 0, failures: 0, latencies: [] }
+
+      if (ok) {
+        stats.successes++
+        stats.latencies.push(Math.round(latencyMs))
+        if (stats.latencies.length > MAX_LATENCY_SAMPLES) stats.latencies.shift()
+      } else {
+        stats.failures++
+      }
+      await databaseService.put(DB_CONFIGS.analytics, STORE_PROVIDERS, stats)
+    }).catch(err => log.error('failed to track provider call:', err))
+
+    this.providerWrites = write
+    await write
+  }
+
+  async getProviderStats(days = 7): Promise<ProviderCallSummary[]> {
+    try {
+      const cutoff = new Date()
+      cutoff.setDate(cutoff.getDate() - days)
+      const cutoffStr = cutoff.toISOString().split('T')[0]
+
+      const all = await databaseService.getAll<ProviderDailyStats>(DB_CONFIGS.analytics, STORE_PROVIDERS)
+      const byProvider = new Map<string, { successes: number; failures: number; latencies: number[] }>()
+      for (const day of all) {
+        if (day.date < cutoffStr) continue
+        const entry = byProvider.get(day.provider) || { successes: 0, failures: 0, latencies: [] }
+        entry.successes += day.successes
+        entry.failures += day.failures
+        entry.latencies.push(...day.latencies)
+        byProvider.set(day.provider, entry)
+      }
+
+      return [...byProvider].map(([provider, { successes, failures, latencies }]) => {
+        const sorted = latencies.sort((a, b) => a - b)
+        const calls = successes + failures
+        return {
+          provider,
+          calls,
+          successRate: calls > 0 ? successes / calls : 0,
+          p50: percentile(sorted, 0.5),
+          p95: percentile(sorted, 0.95)
+        }
+      })
+    } catch (err) {
+      log.error('getProviderStats failed:', err)
+      return []
+    }
+  }
+
   // ============ EVENT LOGGING ============
 
   private async logEvent(type: EventType, metadata?: Record<string, unknown>): Promise<void> {
@@ -973,6 +1059,13 @@ class AnalyticsServiceClass {
         }
       }
 
+      const allProviders = await databaseService.getAll<ProviderDailyStats>(DB_CONFIGS.analytics, STORE_PROVIDERS)
+      for (const day of allProviders) {
+        if (day.date < cutoffStr) {
+          await databaseService.delete(DB_CONFIGS.analytics, STORE_PROVIDERS, day.id)
+        }
+      }
+
       log.log(`pruned analytics data older than ${keepDays} days`)
     } catch (err) {
       log.error('pruneOldData failed:', err)
@@ -983,20 +1076,23 @@ class AnalyticsServiceClass {
     dailyStats: DailyStats[]
     sessions: SessionRecord[]
     events: AnalyticsEvent[]
+    providerStats: ProviderDailyStats[]
   }> {
-    const [dailyStats, sessions, events] = await Promise.all([
+    const [dailyStats, sessions, events, providerStats] = await Promise.all([
       databaseService.getAll<DailyStats>(DB_CONFIGS.analytics, STORE_DAILY),
       databaseService.getAll<SessionRecord>(DB_CONFIGS.analytics, STORE_SESSIONS),
-      databaseService.getAll<AnalyticsEvent>(DB_CONFIGS.analytics, STORE_EVENTS)
+      databaseService.getAll<AnalyticsEvent>(DB_CONFIGS.analytics, STORE_EVENTS),
+      databaseService.getAll<ProviderDailyStats>(DB_CONFIGS.analytics, STORE_PROVIDERS)
     ])
-    return { dailyStats, sessions, events }
+    return { dailyStats, sessions, events, providerStats }
   }
 
   async clearAllData(): Promise<void> {
     await Promise.all([
       databaseService.clear(DB_CONFIGS.analytics, STORE_DAILY),
       databaseService.clear(DB_CONFIGS.analytics, STORE_SESSIONS),
-      databaseService.clear(DB_CONFIGS.analytics, STORE_EVENTS)
+      databaseService.clear(DB_CONFIGS.analytics, STORE_EVENTS),
+      databaseService.clear(DB_CONFIGS.analytics, STORE_PROVIDERS)
     ])
     log.log('cleared all analytics data')
   }
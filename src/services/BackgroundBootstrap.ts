@@ -1,16 +1,22 @@
 import { OllamaService } from './OllamaService'
+import { OpenAICompatService } from './OpenAICompatService'
 import { cacheService } from './CacheService'
 import { dictionaryService } from './DictionaryService'
 import { WordService } from './WordService'
 import { EmailService } from './EmailService'
 import { PageService } from './PageService'
+import { AgentService } from './AgentService'
 import { pdfService } from './pdf/PdfService'
 import { SummaryPrefs } from '../utils/summaryPrefs'
-import { aiGateway } from './ai'
+import { aiGateway, isProviderPreference, type MockConfig } from './ai'
 import { logger } from './LoggerService'
 import { ragService } from './rag/RagService'
+import { knowledgeArchive } from './rag/KnowledgeArchive'
+import { vectorStore } from './rag/VectorStore'
+import { embeddingProvider } from './rag/EmbeddingProvider'
 import { concurrencyManager } from './ConcurrencyManager'
 import { analyticsService } from './AnalyticsService'
+import { STREAM_PORTS, postParts } from '../utils/portStream'
 
 
 import type {
@@ -20,6 +26,8 @@ import type {
   ExtractAndSummarizeMessage,
   WordLookupMessage,
   ChatMessageRequest,
+  GlobalChatRequest,
+  CancelOperationMessage,
   BackgroundMessage,
   ResponseCallback,
   SummaryPrefsConfig,
@@ -29,7 +37,15 @@ import type {
   ChatMessage,
   ExtractedData,
   GetEmailCacheMessage,
-  SetEmailCacheMessage
+  SetEmailCacheMessage,
+  OllamaPullModelMessage,
+  OllamaCancelPullMessage,
+  OllamaDeleteModelMessage,
+  OllamaPullProgress,
+  RagDeleteFilter,
+  RagSearchFilter,
+  ArchivePortRequest,
+  TaskType
 } from '../types'
 
 const log = logger.createScoped('BackgroundBootstrap')
@@ -38,6 +54,8 @@ export class BackgroundBootstrap {
   static isInitialized = false
   static initPromise: Promise<void> | null = null
   static summaryQueue: Promise<unknown> = Promise.resolve()
+  static ollamaPulls = new Map<string, { controller: AbortController; progress: OllamaPullProgress }>()
+  static PULL_PROGRESS_INTERVAL = 250 // ms between progress broadcasts while a layer downloads
   
   static async init(): Promise<void> {
     if (this.initPromise) return this.initPromise
@@ -71,11 +89,38 @@ export class BackgroundBootstrap {
     // Listen for provider preference changes
     chrome.storage.onChanged.addListener((changes, area) => {
       if (area === 'local' && changes.preferredProvider?.newValue) {
-        const pref = changes.preferredProvider.newValue as string
-        if (pref === 'chrome-ai' || pref === 'ollama') {
+        const pref = changes.preferredProvider.newValue
+        if (isProviderPreference(pref)) {
           aiGateway.setPreference(pref)
         }
       }
+      if (area === 'local' && changes.openaiCompat) {
+        aiGateway.openaiCompat.invalidateCache()
+        aiGateway.resetCircuit('openai-compat')
+      }
+      if (area === 'local' && changes.ollamaHosts) {
+        aiGateway.ollama.invalidateCache()
+        aiGateway.resetCircuit('ollama')
+      }
+      if (area === 'local' && changes.aiRouting) {
+        aiGateway.setRoutes(changes.aiRouting.newValue || {})
+      }
+      if (area === 'local' && changes.aiMock) {
+        aiGateway.mock.setConfig(changes.aiMock.newValue as Partial<MockConfig> | undefined)
+        aiGateway.resetCircuit('mock')
+      }
+      // a new embedding model or dims re-embeds the index in the background
+      if (area === 'local' && (changes.embeddingModel || changes.vectorStorage)) {
+        vectorStore.reconfigure()
+      }
+    })
+
+    chrome.runtime.onConnect.addListener((port) => {
+      if (port.name === STREAM_PORTS.CHAT) {
+        this._onChatStream(port)
+      } else if (port.name === STREAM_PORTS.ARCHIVE) {
+        this._onArchiveStream(port)
+      }
     })
 
     chrome.runtime.onMessage.addListener((msg: BackgroundMessage, _sender, respond: ResponseCallback) => {
@@ -109,18 +154,54 @@ export class BackgroundBootstrap {
         return true
       }
 
+      if (msg.type === 'CANCEL_OPERATION') {
+        this._onCancelOperation(msg as CancelOperationMessage, respond)
+        return true
+      }
+
       if (msg.type === 'CHECK_OLLAMA_HEALTH') {
         this._onHealthCheck(respond)
         return true
       }
 
+      if (msg.type === 'CHECK_OPENAI_COMPAT_HEALTH') {
+        this._onOpenAICompatHealthCheck(respond)
+        return true
+      }
+
+      if (msg.type === 'AI_MOCK_STATUS' || msg.type === 'AI_MOCK_EXPORT_FIXTURE' ||
+          msg.type === 'AI_MOCK_IMPORT_FIXTURE' || msg.type === 'AI_MOCK_CLEAR_FIXTURE') {
+        this._onMockFixture(msg as { type: string; fixture?: unknown }, respond)
+        return true
+      }
+
+      if (msg.type === 'OLLAMA_LIST_MODELS') {
+        this._onOllamaListModels(respond)
+        return true
+      }
+
+      if (msg.type === 'OLLAMA_PULL_MODEL') {
+        this._onOllamaPullModel(msg as OllamaPullModelMessage, respond)
+        return true
+      }
+
+      if (msg.type === 'OLLAMA_CANCEL_PULL') {
+        this._onOllamaCancelPull(msg as OllamaCancelPullMessage, respond)
+        return true
+      }
+
+      if (msg.type === 'OLLAMA_DELETE_MODEL') {
+        this._onOllamaDeleteModel(msg as OllamaDeleteModelMessage, respond)
+        return true
+      }
+
       if (msg.type === 'CHAT_MESSAGE') {
         this._onChatMessage(msg as ChatMessageRequest, respond)
         return true
       }
 
       if (msg.type === 'GLOBAL_CHAT') {
-        this._onGlobalChat(msg as { type: string; messages: import('../types').ChatMessage[] }, respond)
+        this._onGlobalChat(msg as GlobalChatRequest, respond)
         return true
       }
 
@@ -145,7 +226,7 @@ export class BackgroundBootstrap {
       }
 
       if (msg.type === 'RAG_SEARCH') {
-        this._onRagSearch(msg as { type: string; query: string; limit?: number }, respond)
+        this._onRagSearch(msg as { type: string; query: string; limit?: number; filter?: RagSearchFilter }, respond)
         return true
       }
 
@@ -175,6 +256,40 @@ export class BackgroundBootstrap {
         return true
       }
 
+      if (msg.type === 'RAG_DELETE_SOURCE' || msg.type === 'RAG_DELETE_BY_FILTER') {
+        this._onRagDelete(msg as { type: string; sourceId?: string; filter?: RagDeleteFilter }, respond)
+        return true
+      }
+
+      if (msg.type === 'RAG_LIST_SOURCES') {
+        this._onRagListSources(respond)
+        return true
+      }
+
+      if (msg.type === 'RAG_GET_SOURCE_CHUNKS') {
+        this._onRagGetSourceChunks(msg as { type: string; sourceId: string }, respond)
+        return true
+      }
+
+      if (msg.type === 'RAG_REINDEX_SOURCE') {
+        this._onRagReindexSource(msg as { type: string; sourceId: string }, respond)
+        return true
+      }
+
+      if (msg.type === 'RAG_MIGRATION_STATUS') {
+        vectorStore.ready()
+          .then(() => respond({ success: true, status: vectorStore.getMigrationStatus() }))
+          .catch(err => respond({ success: false, error: (err as Error).message }))
+        return true
+      }
+
+      if (msg.type === 'RAG_INDEX_STATS') {
+        vectorStore.getIndexStats()
+          .then(stats => respond({ success: true, stats }))
+          .catch(err => respond({ success: false, error: (err as Error).message }))
+        return true
+      }
+
       if (msg.type === 'PDF_SUMMARIZE') {
         this._onPdfSummarize(msg as { type: string; url: string }, respond)
         return true
@@ -468,19 +583,137 @@ export class BackgroundBootstrap {
   static _onHealthCheck(respond: ResponseCallback): void {
     (async () => {
       try {
-        const { available, models } = await OllamaService.checkAvailable()
-        respond({ success: true, connected: available, models })
+        const hosts = await OllamaService.checkHosts()
+        const active = hosts.find(h => h.available)
+        respond({ success: true, connected: !!active, models: active?.models || [], hosts })
       } catch (err) {
         log.error('onHealthCheck', (err as Error).message)
+        respond({ success: true, connected: false, models: [], hosts: [] })
+      }
+    })()
+  }
+
+  static _onOpenAICompatHealthCheck(respond: ResponseCallback): void {
+    (async () => {
+      try {
+        const { available, models } = await OpenAICompatService.checkAvailable()
+        respond({ success: true, connected: available, models })
+      } catch (err) {
+        log.error('onOpenAICompatHealthCheck', (err as Error).message)
         respond({ success: true, connected: false, models: [] })
       }
     })()
   }
 
+  // the background owns the recorded fixture, the side panel only reads and replaces it
+  static _onMockFixture(msg: { type: string; fixture?: unknown }, respond: ResponseCallback): void {
+    (async () => {
+      try {
+        const mock = aiGateway.mock
+        if (msg.type === 'AI_MOCK_EXPORT_FIXTURE') {
+          respond({ success: true, fixture: await mock.exportFixture() })
+          return
+        }
+        if (msg.type === 'AI_MOCK_IMPORT_FIXTURE') await mock.importFixture(msg.fixture)
+        if (msg.type === 'AI_MOCK_CLEAR_FIXTURE') await mock.clearFixture()
+        respond({ success: true, config: mock.getConfig(), entries: await mock.fixtureSize() })
+      } catch (err) {
+        respond({ success: false, error: (err as Error).message })
+      }
+    })()
+  }
+
+  static _onOllamaListModels(respond: ResponseCallback): void {
+    (async () => {
+      const pulls = [...this.ollamaPulls.values()].map(p => p.progress)
+      try {
+        const models = await OllamaService.listModels()
+        const recommendations = OllamaService.recommendations(models.map(m => m.name))
+        const tasks = Object.keys(OllamaService.SELECTION_DEFAULTS) as TaskType[]
+        const picks = Object.fromEntries(await Promise.all(
+          tasks.map(async task => [task, await OllamaService.selectBest(task)] as const)
+        ))
+        respond({ success: true, models, recommendations, picks, pulls })
+      } catch (err) {
+        log.warn('onOllamaListModels', (err as Error).message)
+        respond({ success: false, error: (err as Error).message, pulls })
+      }
+    })()
+  }
+
+  // answers once the pull has started; progress goes out as OLLAMA_PULL_PROGRESS broadcasts
+  // so it survives the side panel being closed and reopened
+  static _onOllamaPullModel(msg: OllamaPullModelMessage, respond: ResponseCallback): void {
+    const model = msg.model?.trim()
+    if (!model) {
+      respond({ success: false, error: 'no model name' })
+      return
+    }
+    if (this.ollamaPulls.has(model)) {
+      respond({ success: false, error: `${model} is already being pulled` })
+      return
+    }
+
+    const controller = new AbortController()
+    const pull = { controller, progress: { model, status: 'starting' } as OllamaPullProgress }
+    this.ollamaPulls.set(model, pull)
+    respond({ success: true })
+
+    const broadcast = (progress: OllamaPullProgress) => {
+      pull.progress = progress
+      chrome.runtime.sendMessage({ type: 'OLLAMA_PULL_PROGRESS', progress }).catch(() => {})
+    }
+
+    ;(async () => {
+      let lastSent = 0
+      let lastStatus = ''
+      try {
+        for await (const chunk of OllamaService.pullModel(model, controller.signal)) {
+          const now = Date.now()
+          if (chunk.status === lastStatus && now - lastSent < this.PULL_PROGRESS_INTERVAL) continue
+          lastSent = now
+          lastStatus = chunk.status
+          broadcast({ model, ...chunk })
+        }
+        log.log('pulled', model)
+        broadcast({ model, status: 'success', done: true })
+      } catch (err) {
+        const error = controller.signal.aborted ? 'cancelled' : (err as Error).message
+        if (!controller.signal.aborted) log.error('onOllamaPullModel', `${model}: ${error}`)
+        broadcast({ model, status: error, done: true, error })
+      } finally {
+        this.ollamaPulls.delete(model)
+        aiGateway.ollama.invalidateCache()
+      }
+    })()
+  }
+
+  static _onOllamaCancelPull(msg: OllamaCancelPullMessage, respond: ResponseCallback): void {
+    const pull = this.ollamaPulls.get(msg.model)
+    pull?.controller.abort()
+    respond({ success: !!pull })
+  }
+
+  static _onOllamaDeleteModel(msg: OllamaDeleteModelMessage, respond: ResponseCallback): void {
+    (async () => {
+      try {
+        await OllamaService.deleteModel(msg.model)
+        // a pinned model that no longer exists would fail every request
+        if (await OllamaService.getUserSelected() === msg.model) await chrome.storage.local.remove('selectedModel')
+        aiGateway.ollama.invalidateCache()
+        log.log('deleted', msg.model)
+        respond({ success: true })
+      } catch (err) {
+        log.error('onOllamaDeleteModel', (err as Error).message)
+        respond({ success: false, error: (err as Error).message })
+      }
+    })()
+  }
+
   static _onChatMessage(msg: ChatMessageRequest, respond: ResponseCallback): void {
     (async () => {
       try {
-        const { model, messages, pageContext } = msg
+        const { model, messages, pageContext, systemPrompt, conversationId, context } = msg
 
         if (!messages?.length) {
           respond({ ok: false, error: 'no messages provided' })
@@ -489,7 +722,7 @@ export class BackgroundBootstrap {
 
         console.log('[BackgroundBootstrap._onChatMessage] processing', messages.length, 'messages, model:', model || 'auto')
         
-        const result = await PageService.chat(messages, pageContext || null, model || null)
+        const result = await PageService.chat(messages, pageContext || null, model || null, systemPrompt, conversationId, context)
         
         if (!result) {
           log.error('onChatMessage no result from PageService')
@@ -509,7 +742,7 @@ export class BackgroundBootstrap {
     })()
   }
 
-  static _onGlobalChat(msg: { type: string; messages: import('../types').ChatMessage[] }, respond: ResponseCallback): void {
+  static _onGlobalChat(msg: GlobalChatRequest, respond: ResponseCallback): void {
     (async () => {
       try {
         const { messages } = msg
@@ -519,7 +752,7 @@ export class BackgroundBootstrap {
         }
         
         log.log(`onGlobalChat processing ${messages.length} messages`)
-        const result = await PageService.globalChat(messages)
+        const result = await PageService.globalChat(messages, msg.filter)
         
         log.log(`onGlobalChat result has ${result.sources?.length || 0} sources`)
         
@@ -534,6 +767,59 @@ export class BackgroundBootstrap {
     })()
   }
 
+  // aborts in-flight work tracked by the concurrency manager; the signal reaches the provider
+  static _onCancelOperation(msg: CancelOperationMessage, respond: ResponseCallback): void {
+    const { operation, sourceUrl } = msg
+    if (operation && sourceUrl) {
+      concurrencyManager.abort(operation, sourceUrl)
+    } else if (sourceUrl) {
+      concurrencyManager.abortForUrl(sourceUrl)
+    } else if (operation) {
+      concurrencyManager.abortAll(operation)
+    }
+    log.log('cancel operation:', { operation, sourceUrl })
+    respond({ success: true })
+  }
+
+  // streamed CHAT_MESSAGE / GLOBAL_CHAT: first message on the port is the request,
+  // events flow back until done/error; the side panel disconnecting cancels generation
+  static _onChatStream(port: chrome.runtime.Port): void {
+    const controller = new AbortController()
+    port.onDisconnect.addListener(() => controller.abort())
+
+    port.onMessage.addListener((msg: ChatMessageRequest | GlobalChatRequest) => {
+      (async () => {
+        try {
+          if (!msg.messages?.length) {
+            port.postMessage({ type: 'error', error: 'no messages provided' })
+            return
+          }
+
+          // the agent loop takes over when it's on and has at least one tool to call
+          const agent = await AgentService.getSettings()
+          const events = agent.enabled && Object.values(agent.tools).some(Boolean)
+            ? AgentService.chatStream(msg, agent, controller.signal)
+            : msg.type === 'GLOBAL_CHAT'
+              ? PageService.globalChatStream(msg.messages, controller.signal, msg.filter)
+              : PageService.chatStream(msg.messages, msg.pageContext || null, msg.systemPrompt, controller.signal, msg.conversationId, msg.context)
+
+          for await (const event of events) {
+            if (controller.signal.aborted) {
+              log.log('onChatStream cancelled by client')
+              break
+            }
+            port.postMessage(event)
+          }
+        } catch (err) {
+          log.error('onChatStream error:', (err as Error).message)
+          if (!controller.signal.aborted) {
+            port.postMessage({ type: 'error', error: (err as Error).message || 'chat failed' })
+          }
+        }
+      })()
+    })
+  }
+
   static _normalizeLanguages(langs: unknown): string[] {
     if (!langs) return ['en']
 
@@ -579,9 +865,15 @@ export class BackgroundBootstrap {
       if (gating.action === 'skip') return { success: false, skip: true, reason: gating.reason }
       if (gating.action === 'prompt') return { success: false, prompt: true, reason: gating.reason }
 
-      const summary = await PageService.summarize(extracted as Parameters<typeof PageService.summarize>[0], force)
+      const data = extracted as Parameters<typeof PageService.summarize>[0]
+      const summary = await concurrencyManager.execute('summary', data.url || `tab:${tabId}`,
+        signal => PageService.summarize(data, force, signal))
       return { success: true, summary }
     } catch (err) {
+      if ((err as Error).message === 'cancelled') {
+        log.log('summary cancelled for tab', tabId)
+        return { success: false, error: 'cancelled' }
+      }
       log.error('performExtractAndSummarize]', (err as Error).message)
       return { success: false, error: (err as Error).message }
     }
@@ -725,10 +1017,10 @@ export class BackgroundBootstrap {
     })()
   }
 
-  static _onRagSearch(msg: { type: string; query: string; limit?: number }, respond: ResponseCallback): void {
+  static _onRagSearch(msg: { type: string; query: string; limit?: number; filter?: RagSearchFilter }, respond: ResponseCallback): void {
     (async () => {
       try {
-        const results = await ragService.search(msg.query, msg.limit || 10)
+        const results = await ragService.search(msg.query, msg.limit || 10, msg.filter)
         respond({ success: true, results })
       } catch (err) {
         log.error('onRagSearch', (err as Error).message)
@@ -804,9 +1096,121 @@ export class BackgroundBootstrap {
     })()
   }
 
+  static _onRagDelete(msg: { type: string; sourceId?: string; filter?: RagDeleteFilter }, respond: ResponseCallback): void {
+    (async () => {
+      try {
+        let result
+        if (msg.type === 'RAG_DELETE_SOURCE') {
+          if (!msg.sourceId) {
+            respond({ success: false, error: 'no sourceId' })
+            return
+          }
+          result = await ragService.deleteSource(msg.sourceId)
+        } else {
+          result = await ragService.deleteByFilter(msg.filter || {})
+        }
+        respond({ success: true, ...result })
+      } catch (err) {
+        log.error('onRagDelete', (err as Error).message)
+        respond({ success: false, error: (err as Error).message })
+      }
+    })()
+  }
+
+  static _onRagListSources(respond: ResponseCallback): void {
+    (async () => {
+      try {
+        const sources = await ragService.listSources()
+        respond({ success: true, sources })
+      } catch (err) {
+        log.error('onRagListSources', (err as Error).message)
+        respond({ success: false, error: (err as Error).message, sources: [] })
+      }
+    })()
+  }
+
+  static _onRagGetSourceChunks(msg: { type: string; sourceId: string }, respond: ResponseCallback): void {
+    (async () => {
+      try {
+        const chunks = await ragService.getSourceChunks(msg.sourceId)
+        respond({ success: true, chunks })
+      } catch (err) {
+        log.error('onRagGetSourceChunks', (err as Error).message)
+        respond({ success: false, error: (err as Error).message, chunks: [] })
+      }
+    })()
+  }
+
+  static _onRagReindexSource(msg: { type: string; sourceId: string }, respond: ResponseCallback): void {
+    (async () => {
+      try {
+        const broadcastProgress = (percent: number) => {
+          chrome.runtime.sendMessage({
+            type: 'INDEXING_PROGRESS',
+            sourceId: msg.sourceId,
+            percent
+          }).catch(() => {})
+        }
+
+        const chunks = await concurrencyManager.execute('indexing', msg.sourceId, async (signal) => {
+          if (signal.aborted) throw new Error('Indexing aborted')
+          return await ragService.reindexSource(msg.sourceId, broadcastProgress)
+        })
+        respond({ success: true, chunks })
+      } catch (err) {
+        const errMsg = (err as Error).message
+        if (errMsg !== 'Indexing aborted' && errMsg !== 'Operation cancelled') {
+          log.error('onRagReindexSource', errMsg)
+        }
+        respond({ success: false, error: errMsg })
+      }
+    })()
+  }
+
+  // knowledge base files can pass chrome's 64 MiB message cap, so they cross in parts
+  static _onArchiveStream(port: chrome.runtime.Port): void {
+    const parts: string[] = []
+    let disconnected = false
+    port.onDisconnect.addListener(() => { disconnected = true })
+
+    port.onMessage.addListener((msg: ArchivePortRequest) => {
+      if (msg.type === 'part') {
+        parts.push(msg.data)
+        return
+      }
+      (async () => {
+        try {
+          if (msg.type === 'export') {
+            const archive = await knowledgeArchive.export(msg.filter)
+            if (disconnected) return
+            postParts(port, JSON.stringify(archive))
+            port.postMessage({ type: 'exported', documents: archive.documents.length })
+            return
+          }
+          let archive: unknown = null
+          try {
+            archive = JSON.parse(parts.join(''))
+          } catch {
+            // reported by verify as not an archive
+          }
+          parts.length = 0
+          const result = await knowledgeArchive.import(archive, msg.mode === 'replace' ? 'replace' : 'merge')
+          if (!disconnected) port.postMessage({ type: 'imported', result })
+        } catch (err) {
+          log.error('onArchiveStream', (err as Error).message)
+          if (!disconnected) port.postMessage({ type: 'error', error: (err as Error).message })
+        }
+      })()
+    })
+  }
+
   static _preloadEmbeddingModel(): void {
-    aiGateway.initializeLocalModels(['embed'])
-      .then(() => log.log('Embedding model preloaded'))
+    embeddingProvider.ready()
+      .then(() => aiGateway.initializeLocalModels(['embed']))
+      .then(() => {
+        log.log('Embedding model preloaded')
+        return vectorStore.ready() // resumes an unfinished embedding migration
+      })
       .catch(err => log.warn('Model preload failed', err.message))
   }
 
@@ -1004,7 +1408,8 @@ export class BackgroundBootstrap {
                   sourceId: pdfUrl,
                   sourceUrl: pdfUrl,
                   sourceType: 'pdf',
-                  title: filename.replace('.pdf', '')
+                  title: filename.replace('.pdf', ''),
+                  createdAt: result.createdAt
                 }, broadcastProgress)
               })
               
@@ -13,6 +13,7 @@ const log = logger.createScoped('CacheService')
 const STORE_EMAIL_SESSIONS = 'email_sessions'
 const STORE_PAGE_CACHE = 'page_cache'
 const STORE_TAB_SESSIONS = 'tab_sessions'
+const STORE_AI_RESPONSES = 'ai_responses'
 
 const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
 
@@ -216,7 +217,8 @@ export class CacheService {
       await Promise.all([
         databaseService.clear(DB_CONFIGS.cache, STORE_EMAIL_SESSIONS),
         databaseService.clear(DB_CONFIGS.cache, STORE_PAGE_CACHE),
-        databaseService.clear(DB_CONFIGS.cache, STORE_TAB_SESSIONS)
+        databaseService.clear(DB_CONFIGS.cache, STORE_TAB_SESSIONS),
+        databaseService.clear(DB_CONFIGS.cache, STORE_AI_RESPONSES)
       ])
     } catch (err) {
       log.error('clearAll failed', (err as Error).message)
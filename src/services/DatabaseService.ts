@@ -157,6 +157,24 @@ class DatabaseServiceClass {
     })
   }
 
+  // keys only, the records themselves stay on disk
+  async getAllKeys(config: DatabaseConfig, storeName: string, query?: IDBKeyRange): Promise<string[]> {
+    const db = await this.getDatabase(config)
+
+    return new Promise((resolve) => {
+      try {
+        const tx = db.transaction([storeName], 'readonly')
+        const store = tx.objectStore(storeName)
+        const request = store.getAllKeys(query)
+
+        request.onsuccess = () => resolve((request.result ?? []) as string[])
+        request.onerror = () => resolve([])
+      } catch {
+        resolve([])
+      }
+    })
+  }
+
   async clear(config: DatabaseConfig, storeName: string): Promise<void> {
     const db = await this.getDatabase(config)
 
@@ -229,12 +247,16 @@ export const databaseService = new DatabaseServiceClass()
 export const DB_CONFIGS = {
   cache: {
     name: 'metldr_cache',
-    version: 7,
+    version: 11,
     stores: [
       { name: 'email_sessions', keyPath: 'emailId' },
       { name: 'page_cache', keyPath: 'url' },
       { name: 'tab_sessions', keyPath: 'url' },
-      { name: 'rag_metadata', keyPath: 'sourceId' }
+      { name: 'rag_metadata', keyPath: 'sourceId' },
+      { name: 'rag_postings', keyPath: 'id' },
+      { name: 'rag_vectors', keyPath: 'id' },
+      { name: 'rag_codes', keyPath: 'id' },
+      { name: 'ai_responses', keyPath: 'key', indexes: [{ name: 'createdAt', keyPath: 'createdAt' }] }
     ]
   },
   dictionary: {
@@ -247,11 +269,12 @@ export const DB_CONFIGS = {
   },
   analytics: {
     name: 'metldr-analytics',
-    version: 1,
+    version: 2,
     stores: [
       { name: 'daily_stats', keyPath: 'date' },
       { name: 'sessions', keyPath: 'id' },
-      { name: 'events', keyPath: 'id' }
+      { name: 'events', keyPath: 'id' },
+      { name: 'provider_stats', keyPath: 'id' }
     ]
   }
 } as const
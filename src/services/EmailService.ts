@@ -1,6 +1,5 @@
-import { OllamaService } from './OllamaService'
 import { cacheService } from './CacheService'
-import { aiGateway, AIPrompts } from './ai'
+import { aiGateway, promptRegistry, replyPromptContext, contextBudget } from './ai'
 import { analyticsService } from './AnalyticsService'
 import type {
   AmountFact,
@@ -16,11 +15,22 @@ import type {
   ParsedReply,
   ParsedReplies
 } from '../types'
+import type { JsonSchema } from '../types/chrome-ai'
 
 import { ragService } from './rag/RagService'
 
 // ... imports
 
+// coarse intents for the local classifier; each label costs a model pass, so the list stays short
+const TRIAGE_LABELS = [
+  'payment or invoice', 'meeting or calendar', 'travel booking', 'order or delivery',
+  'account security', 'work request', 'newsletter or promotion', 'personal message',
+  'customer support', 'job or recruiting', 'legal or government', 'spam or phishing'
+]
+const TRIAGE_MIN_SCORE = 0.5 // multi-label scores are per label, not shares of 1
+const ENTITY_MIN_SCORE = 0.6
+const MAX_ENTITIES = 12
+
 export class EmailService {
   static async summarize(
     emailContent: string, 
@@ -44,7 +54,8 @@ export class EmailService {
         sourceId: emailId,
         sourceUrl: `email://${emailId}`,
         sourceType: 'email',
-        title: (metadata as any)?.subject || 'Email Thread'
+        title: (metadata as any)?.subject || 'Email Thread',
+        createdAt: metadata?.date
       }, broadcastProgress).catch(err => console.warn('[EmailService] Chunk indexing failed', err))
     }
 
@@ -72,91 +83,34 @@ export class EmailService {
         throw new Error('no facts extracted')
       }
 
-      const snippet = emailContent.length > 6000
-        ? emailContent.substring(0, 4000) + '\n...[truncated]...\n' + emailContent.substring(emailContent.length - 2000)
-        : emailContent
+      // the schema-heavy prompt and facts take about half the window, the email gets the rest
+      const window = await aiGateway.getContextWindow('email-summary')
+      const snippet = contextBudget.truncateMiddle(emailContent, contextBudget.charsFor(contextBudget.inputTokens(window) / 2, window))
 
-      // check provider preference
-      const preferChrome = aiGateway.getPreference() === 'chrome-ai'
-      
-      // try preferred provider first for email summary
-      if (preferChrome) {
-        const chromeResult = await this._tryChromeSummary(snippet, metadata, facts)
-        if (chromeResult) {
-          const elapsed = Date.now() - startTime
-          chromeResult.time_ms = elapsed
-          chromeResult.cached = false
-          chromeResult.model = 'gemini-nano'
-
-          if (emailId) {
-            cacheService.setEmailSummary(emailId, chromeResult).catch(() => {})
-            this.generateReplySuggestions(emailId, emailContent, chromeResult, metadata).catch(() => {})
-            // index summary for global search
-            const summaryText = [chromeResult.summary, ...(chromeResult.action_items || [])].filter(Boolean).join('\n')
-            ragService.indexSummary(
-              summaryText,
-              { sourceId: emailId, sourceUrl: `email://${emailId}`, sourceType: 'email', title: (metadata as any)?.subject || 'Email' }
-            ).catch(() => {})
-          }
-          analyticsService.trackSummary({
-            type: 'email',
-            cached: false,
-            responseTimeMs: elapsed,
-            wordsIn: emailContent.split(/\s+/).length,
-            wordsOut: (chromeResult.summary || '').split(/\s+/).length,
-            tokensOut: Math.round((chromeResult.summary || '').length / 4),
-            model: 'gemini-nano'
-          }).catch(() => {})
-          return chromeResult
-        }
-      }
+      // local triage runs alongside the llm and doesn't depend on it
+      const triage = this._triage(emailContent)
 
-      // use ollama (either as preference or fallback)
-      const { available } = await OllamaService.checkAvailable()
-      if (!available) {
-        // if ollama was preferred but not available, try chrome as fallback
-        if (!preferChrome) {
-          const chromeResult = await this._tryChromeSummary(snippet, metadata, facts)
-          if (chromeResult) {
-            const elapsed = Date.now() - startTime
-            chromeResult.time_ms = elapsed
-            chromeResult.cached = false
-            chromeResult.model = 'gemini-nano'
-
-            if (emailId) {
-              cacheService.setEmailSummary(emailId, chromeResult).catch(() => {})
-              this.generateReplySuggestions(emailId, emailContent, chromeResult, metadata).catch(() => {})
-              // index summary for global search
-              const summaryText = [chromeResult.summary, ...(chromeResult.action_items || [])].filter(Boolean).join('\n')
-              ragService.indexSummary(
-                summaryText,
-                { sourceId: emailId, sourceUrl: `email://${emailId}`, sourceType: 'email', title: (metadata as any)?.subject || 'Email' }
-              ).catch(() => {})
-            }
-            analyticsService.trackSummary({
-              type: 'email',
-              cached: false,
-              responseTimeMs: elapsed,
-              wordsIn: emailContent.split(/\s+/).length,
-              wordsOut: (chromeResult.summary || '').split(/\s+/).length,
-              tokensOut: Math.round((chromeResult.summary || '').length / 4),
-              model: 'gemini-nano'
-            }).catch(() => {})
-            return chromeResult
-          }
-        }
-        throw new Error('no ai available')
+      // provider order comes from the 'email-summary' route
+      let summary: EmailSummary
+      try {
+        summary = await this._generateSummary(facts, snippet, metadata, force)
+      } catch (err) {
+        // no llm answered: facts and triage still go out, uncached so a later try can summarize
+        console.warn('[EmailService.summarize] llm summary failed, returning facts and triage:', (err as Error).message)
+        const partial: EmailSummary = { ...this._summaryFromFacts(facts), ...await triage }
+        partial.intent = partial.ner_tags?.[0]?.label || null
+        partial.time_ms = Date.now() - startTime
+        partial.cached = false
+        return partial
       }
+      const model = summary.model || 'unknown'
 
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
-      if (!model) throw new Error('no models available')
-
-      const summary = await this._generateSummary(facts, snippet, metadata, model)
+      Object.assign(summary, await triage)
+      summary.intent ||= summary.ner_tags?.[0]?.label || null
 
       const elapsed = Date.now() - startTime
       summary.time_ms = elapsed
       summary.cached = false
-      summary.model = model
 
       if (emailId) {
         cacheService.setEmailSummary(emailId, summary).catch(() => {})
@@ -165,7 +119,7 @@ export class EmailService {
         const summaryText = [summary.summary, ...(summary.action_items || [])].filter(Boolean).join('\n')
         ragService.indexSummary(
           summaryText,
-          { sourceId: emailId, sourceUrl: `email://${emailId}`, sourceType: 'email', title: (metadata as any)?.subject || 'Email' }
+          { sourceId: emailId, sourceUrl: `email://${emailId}`, sourceType: 'email', title: (metadata as any)?.subject || 'Email', tags: summary.tags, createdAt: metadata?.date }
         ).catch(() => {})
       }
 
@@ -186,183 +140,45 @@ export class EmailService {
     }
   }
 
-  static async _tryChromeSummary(snippet: string, metadata: EmailMetadata | null, facts: ExtractedFacts): Promise<EmailSummary | null> {
-    try {
-      const caps = await aiGateway.chrome.getCapabilities()
-      if (!caps.complete) return null
-
-      let metadataCtx = ''
-      if (metadata) metadataCtx = this._buildMetadataContext(metadata)
-      const factsText = this._buildFactsSummary(facts)
-
-      const prompt = AIPrompts.email.summaryUser(snippet, metadataCtx, factsText)
-
-      const result = await aiGateway.chrome.complete({
-        systemPrompt: AIPrompts.email.summarySystem,
-        userPrompt: prompt,
-        temperature: 0.1
-      })
-
-      if (!result.ok) return null
-
-      // extract json - try multiple patterns
-      let jsonStr = result.content || ''
-      
-      // remove markdown code blocks
-      jsonStr = jsonStr.replace(/```json\s*/g, '').replace(/```\s*/g, '')
-      
-      // find json object
-      const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        console.log('[EmailService._tryChromeSummary] no json found in response')
-        return null
-      }
-
-      let parsed: any
-      try {
-        parsed = JSON.parse(jsonMatch[0])
-      } catch (parseErr) {
-        // try to fix common json issues
-        let fixed = jsonMatch[0]
-          .replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":') // quote unquoted keys
-          .replace(/:\s*'([^']*)'/g, ': "$1"') // replace single quotes with double
-          .replace(/,\s*([}\]])/g, '$1') // remove trailing commas
-        
-        try {
-          parsed = JSON.parse(fixed)
-        } catch {
-          console.log('[EmailService._tryChromeSummary] json parse failed:', (parseErr as Error).message)
-          return null
-        }
-      }
-
-      return {
-        summary: parsed.summary || 'no summary',
-        action_items: Array.isArray(parsed.action_items) ? parsed.action_items : [],
-        dates: parsed.key_details?.date ? [parsed.key_details.date] : [],
-        key_facts: {
-          booking_reference: null,
-          amount: parsed.key_details?.amount || null,
-          sender_org: null
-        },
-        intent: parsed.intent || 'Other',
-        reasoning: null,
-        urgency: parsed.urgency || 'normal'
-      }
-    } catch (err) {
-      console.log('[EmailService._tryChromeSummary] failed:', (err as Error).message)
-      return null
-    }
-  }
-
-  // try chrome ai for reply generation using Writer API with summary context
-  static async _tryChromReplies(
+  // writer api replies, used when no provider produced structured ones
+  static async _writeReplies(
     snippet: string,
     summary: EmailSummary | null,
     metadata: EmailMetadata | null
-  ): Promise<ReplySuggestion[] | null> {
-    try {
-      const caps = await aiGateway.chrome.getCapabilities()
-      
-      // prefer complete API for structured output
-      if (caps.complete) {
-        const emailContext = { metadata, facts: null, summary, snippet }
-        const result = await aiGateway.chrome.complete({
-          systemPrompt: AIPrompts.email.replySystem,
-          userPrompt: AIPrompts.email.replyUser(emailContext),
-          temperature: 0.4
-        })
-
-        if (!result.ok) return null
-
-        // parse json - remove markdown, fix common issues
-        let content = result.content || ''
-        content = content.replace(/```json\s*/g, '').replace(/```\s*/g, '')
-        
-        let parsed: ParsedReplies | null = null
-        const jsonMatch = content.match(/\{[\s\S]*"replies"[\s\S]*\}/)
-        
-        if (jsonMatch) {
-          try {
-            parsed = JSON.parse(jsonMatch[0]) as ParsedReplies
-          } catch (parseErr) {
-            // try to fix common json issues
-            let fixed = jsonMatch[0]
-              .replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":') // quote keys
-              .replace(/:\s*'([^']*)'/g, ': "$1"') // fix quotes
-              .replace(/,\s*([}\]])/g, '$1') // remove trailing commas
-            
-            try {
-              parsed = JSON.parse(fixed) as ParsedReplies
-            } catch {
-            const repliesMatch = content.match(/"replies"\s*:\s*\[([\s\S]*?)\]/)
-            if (repliesMatch) {
-              try {
-                parsed = { replies: JSON.parse(`[${repliesMatch[1]}]`) }
-              } catch {
-                return null
-              }
-            }
-          }
-        }
-        
-        if (!parsed) return null
-        const replies = (parsed.replies || []).map((r, idx) => ({
-          id: `reply_${idx}`,
-          tone: r.tone || 'professional',
-          length: r.length || 'medium',
-          body: r.body || '',
-          label: r.label || `Option ${idx + 1}`
-        }))
-
-        if (replies.length > 0) {
-          console.log('[EmailService._tryChromReplies] generated', replies.length, 'replies via Chrome AI')
-          return replies
-        }
-        }
-      }
+  ): Promise<ReplySuggestion[]> {
+    const context = this._buildReplyContext(snippet, summary, metadata)
+    const suggestions: ReplySuggestion[] = []
+    
+    const tones: Array<{ tone: 'formal' | 'neutral' | 'casual'; label: string; length: 'short' | 'medium' | 'long' }> = [
+      { tone: 'formal', label: 'Professional', length: 'medium' },
+      { tone: 'casual', label: 'Friendly', length: 'medium' },
+      { tone: 'neutral', label: 'Quick Reply', length: 'short' }
+    ]
 
-      // fallback to Writer API if available (simpler but less structured)
-      if (caps.write) {
-        const context = this._buildReplyContext(snippet, summary, metadata)
-        const suggestions: ReplySuggestion[] = []
-        
-        const tones: Array<{ tone: 'formal' | 'neutral' | 'casual'; label: string; length: 'short' | 'medium' | 'long' }> = [
-          { tone: 'formal', label: 'Professional', length: 'medium' },
-          { tone: 'casual', label: 'Friendly', length: 'medium' },
-          { tone: 'neutral', label: 'Quick Reply', length: 'short' }
-        ]
-
-        for (const { tone, label, length } of tones) {
-          const result = await aiGateway.chrome.write({
-            prompt: `Write a ${label.toLowerCase()} reply to this email. Do NOT include subject lines. Email: ${snippet.substring(0, 1000)}`,
-            context,
-            tone,
-            length
-          })
-
-          if (result.ok && result.content) {
-            suggestions.push({
-              id: `reply_${suggestions.length}`,
-              tone: tone === 'formal' ? 'professional' : tone === 'casual' ? 'friendly' : 'brief',
-              length,
-              body: result.content,
-              label
-            })
-          }
-        }
+    for (const { tone, label, length } of tones) {
+      const result = await aiGateway.write({
+        feature: 'email-replies',
+        prompt: `Write a ${label.toLowerCase()} reply to this email. Do NOT include subject lines. Email: ${snippet.substring(0, 1000)}`,
+        context,
+        tone,
+        length
+      })
 
-        if (suggestions.length > 0) {
-          console.log('[EmailService._tryChromReplies] generated', suggestions.length, 'replies via Writer API')
-          return suggestions
-        }
+      if (result.ok && result.content) {
+        suggestions.push({
+          id: `reply_${suggestions.length}`,
+          tone: tone === 'formal' ? 'professional' : tone === 'casual' ? 'friendly' : 'brief',
+          length,
+          body: result.content,
+          label
+        })
       }
+    }
 
-      return null
-    } catch (err) {
-      console.log('[EmailService._tryChromReplies] failed:', (err as Error).message)
-      return null
+    if (suggestions.length > 0) {
+      console.log('[EmailService._writeReplies] generated', suggestions.length, 'replies via write()')
     }
+    return suggestions
   }
 
   // build context string for Writer API
@@ -422,58 +238,23 @@ export class EmailService {
       // use full email content for better context-aware replies
       const snippet = emailContent
 
-      const preferChrome = aiGateway.getPreference() === 'chrome-ai'
-      
       // helper to filter out suggestions with empty body
       const filterValidSuggestions = (suggestions: ReplySuggestion[]): ReplySuggestion[] => 
         suggestions.filter(s => s.body && s.body.trim().length > 10)
 
-      // try preferred provider first
-      if (preferChrome) {
-        const chromeReplies = await this._tryChromReplies(snippet, summary, metadata)
-        const validReplies = filterValidSuggestions(chromeReplies || [])
-        if (validReplies.length > 0) {
-          if (emailId) {
-            await cacheService.setReplySuggestions(emailId, validReplies)
-          }
-          analyticsService.trackReplyGenerated(validReplies.length).catch(() => {})
-          return validReplies
-        }
-      }
-
-      // try ollama (either as preference or fallback)
-      const { available } = await OllamaService.checkAvailable()
-      if (available) {
-        // prefer user's selected model
-        const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
-        if (model) {
-          const suggestions = await this._generateReplies(snippet, summary, metadata, model)
-          const validSuggestions = filterValidSuggestions(suggestions || [])
-          
-          if (validSuggestions.length > 0 && emailId) {
-            await cacheService.setReplySuggestions(emailId, validSuggestions)
-          }
-          if (validSuggestions.length > 0) {
-            analyticsService.trackReplyGenerated(validSuggestions.length).catch(() => {})
-          }
-          return validSuggestions
-        }
+      // provider order comes from the 'email-replies' route
+      let validSuggestions = filterValidSuggestions(await this._generateReplies(snippet, summary, metadata))
+      if (validSuggestions.length === 0) {
+        validSuggestions = filterValidSuggestions(await this._writeReplies(snippet, summary, metadata))
       }
 
-      // if ollama was preferred but failed, try chrome as fallback
-      if (!preferChrome) {
-        const chromeReplies = await this._tryChromReplies(snippet, summary, metadata)
-        const validReplies = filterValidSuggestions(chromeReplies || [])
-        if (validReplies.length > 0) {
-          if (emailId) {
-            await cacheService.setReplySuggestions(emailId, validReplies)
-          }
-          analyticsService.trackReplyGenerated(validReplies.length).catch(() => {})
-          return validReplies
+      if (validSuggestions.length > 0) {
+        if (emailId) {
+          await cacheService.setReplySuggestions(emailId, validSuggestions)
         }
+        analyticsService.trackReplyGenerated(validSuggestions.length).catch(() => {})
       }
-
-      return []
+      return validSuggestions
     } catch (err) {
       console.error('[EmailService.generateReplySuggestions]', (err as Error).message)
       return []
@@ -483,10 +264,9 @@ export class EmailService {
   static async _generateReplies(
     snippet: string, 
     summary: EmailSummary | null, 
-    metadata: EmailMetadata | null, 
-    model: string
+    metadata: EmailMetadata | null
   ): Promise<ReplySuggestion[]> {
-    const schema = {
+    const schema: JsonSchema = {
       type: 'object',
       required: ['replies'],
       properties: {
@@ -523,33 +303,23 @@ export class EmailService {
       }
     }
 
-    const emailContext = {
-      metadata,
-      facts: null,
-      summary,
-      snippet
-    }
-
-    const systemPrompt = AIPrompts.email.replySystem
-    const userPrompt = AIPrompts.email.replyUser(emailContext)
+    const systemPrompt = await promptRegistry.render('email-reply-system', {})
+    const userPrompt = await promptRegistry.render('email-reply-user', { snippet, ...replyPromptContext(metadata, summary) })
 
     try {
-      const result = await OllamaService.complete(
-        model,
-        [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        { format: schema, temperature: 0.4, top_p: 0.9 }
-      )
+      const result = await aiGateway.completeStructured<ParsedReplies>({
+        feature: 'email-replies',
+        systemPrompt,
+        userPrompt,
+        temperature: 0.4
+      }, schema)
 
       if (!result.ok) {
-        console.error('[EmailService._generateReplies]', result.error)
+        console.error('[EmailService._generateReplies]', result.kind, result.error)
         return []
       }
 
-      const parsed: ParsedReplies = JSON.parse(result.content || '{}')
-      return (parsed.replies || []).map((r, idx) => ({
+      return (result.data.replies || []).map((r, idx) => ({
         id: `reply_${idx}`,
         tone: r.tone || 'professional',
         length: r.length || 'medium',
@@ -557,7 +327,7 @@ export class EmailService {
         label: r.label || `Option ${idx + 1}`
       }))
     } catch (err) {
-      console.error('[EmailService._generateReplies] parse error:', (err as Error).message)
+      console.error('[EmailService._generateReplies] error:', (err as Error).message)
       return []
     }
   }
@@ -571,6 +341,40 @@ export class EmailService {
     }
   }
 
+  // intent tags and named entities from the bundled sandbox models, empty when they can't run
+  static async _triage(text: string): Promise<Pick<EmailSummary, 'ner_tags' | 'entities'>> {
+    const [tags, entities] = await Promise.all([
+      aiGateway.classify(text, TRIAGE_LABELS, true).catch(err => {
+        console.warn('[EmailService._triage] classify failed:', (err as Error).message)
+        return null
+      }),
+      aiGateway.extractEntities(text).catch(err => {
+        console.warn('[EmailService._triage] ner failed:', (err as Error).message)
+        return null
+      })
+    ])
+
+    const seen = new Set<string>()
+    return {
+      ner_tags: tags
+        ? tags.labels
+          .map((label, i) => ({ label, score: tags.scores[i] }))
+          .filter(t => t.score >= TRIAGE_MIN_SCORE)
+          .slice(0, 3)
+        : [],
+      entities: (entities || [])
+        .filter(e => e.score >= ENTITY_MIN_SCORE && e.word.length > 1)
+        .filter(e => {
+          const key = `${e.entity}:${e.word.toLowerCase()}`
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        .slice(0, MAX_ENTITIES)
+        .map(({ word, entity, score }) => ({ word, entity, score }))
+    }
+  }
+
   static _extractFacts(text: string): ExtractedFacts {
     const facts: ExtractedFacts = {
       amounts: [],
@@ -696,8 +500,8 @@ export class EmailService {
   static async _generateSummary(
     facts: ExtractedFacts, 
     snippet: string, 
-    metadata: EmailMetadata | null, 
-    model: string
+    metadata: EmailMetadata | null,
+    bypassCache = false
   ): Promise<EmailSummary> {
     // comprehensive intent categories organized by domain
     const intentCategories = [
@@ -769,7 +573,7 @@ export class EmailService {
       'Satire/Joke', 'Spam', 'Phishing Attempt', 'Scam', 'Other'
     ]
 
-    const schema = {
+    const schema: JsonSchema = {
       type: 'object',
       required: ['tags', 'reasoning', 'summary', 'action_items'],
       properties: {
@@ -822,85 +626,67 @@ export class EmailService {
       metadataCtx = this._buildMetadataContext(metadata)
     }
 
-    const systemPrompt = `You are an expert Executive Assistant who processes all types of emails. Your job is to filter noise, extract signal, and classify accurately.
-
-CORE RULES:
-1. BE SPECIFIC with intent - choose the most precise category (e.g., "Flight Booking" not just "Confirmation")
-2. STRIP NOISE - ignore marketing fluff, legal disclaimers, unsubscribe footers, signature blocks
-3. DETECT SATIRE/JOKES - if email uses absurd language, sci-fi jargon, or obvious humor, mark as "Satire/Joke" and explain the actual topic
-4. FLAG SUSPICIOUS - for phishing/spam, note red flags in reasoning (urgency pressure, suspicious links, grammar errors, impersonation)
-5. ACTION ITEMS must be concrete and start with a verb. Exclude vague suggestions.
-6. URGENCY matters - deadlines, expiring offers, security alerts are high/critical. Newsletters are low/none.
-
-SPECIAL CASES:
-- Auto-replies/OOO: summarize return date and alternate contact
-- Forwarded emails: focus on why it was forwarded, not just the original content
-- Thread replies: focus on the new information, not repeated context
-- Newsletters/Digests: extract only genuinely useful information
-- Receipts/Invoices: always include amount and reference number
-- Travel bookings: include dates, confirmation numbers, locations
-- Security alerts: always mark as high/critical urgency
-
-OUTPUT: JSON only. No explanations outside the schema.`
-
-    const userPrompt = `Analyze this email and classify it accurately.
-
-${metadataCtx}---
-EMAIL CONTENT:
-${snippet}
----
-EXTRACTED FACTS (use to verify details):
-${factsText}
----
-
-STEPS:
-1. Identify the sender type (company, person, automated system)
-2. Determine the primary PURPOSE of this email
-3. Check for red flags (phishing, spam patterns, satire/jokes)
-4. Extract concrete action items (if any)
-5. Assess urgency based on deadlines and content type
-
-Respond with JSON matching the schema. Be precise with intent classification.`
-
-    return await OllamaService.tryWithFallback(async (selectedModel: string): Promise<EmailSummary> => {
-      const result = await OllamaService.complete(
-        selectedModel,
-        [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        { format: schema, temperature: 0.1, top_p: 0.8 }
-      )
-
-      if (!result.ok) throw new Error(result.error)
-
-      const parsed: ParsedLLMSummary = JSON.parse(result.content || '{}')
-
-      const mainDate = parsed.key_details?.main_date || (facts.dates?.[0]?.when)
-      const bookingRef = parsed.key_details?.booking_reference || (facts.ids?.[0]?.value)
-      const amount = parsed.key_details?.amount || (facts.amounts?.[0] ? `${facts.amounts[0].value} ${facts.amounts[0].currency || ''}` : null)
-
-      const badPatterns = /^(whenever|maybe|consider|possibly|if you|you could)/i
-      const actionItems = (parsed.action_items || [])
-        .filter(item => item && item.length > 3 && !badPatterns.test(item.trim()))
-        .slice(0, 4)
-
-      return {
-        summary: parsed.summary || 'no summary generated',
-        action_items: actionItems,
-        dates: mainDate ? [mainDate] : [],
-        key_facts: { 
-          booking_reference: bookingRef || null, 
-          amount: amount || null,
-          sender_org: parsed.key_details?.sender_org || null
-        },
-        tags: parsed.tags || (parsed.intent ? [parsed.intent] : []),
-        domain: parsed.domain || null,
-        intent: parsed.tags?.[0] || parsed.intent || null,
-        reasoning: parsed.reasoning || null,
-        urgency: parsed.urgency || 'normal'
-      }
-    }, 'email_summary')
+    const systemPrompt = await promptRegistry.render('email-summary-system', {})
+    const userPrompt = await promptRegistry.render('email-summary-user', { snippet, metadataCtx, factsText })
+
+    const result = await aiGateway.completeStructured<ParsedLLMSummary>({
+      feature: 'email-summary',
+      bypassCache,
+      systemPrompt,
+      userPrompt,
+      temperature: 0.1
+    }, schema)
+
+    if (!result.ok) throw new Error(result.kind === 'provider' ? result.error : `invalid summary: ${result.error}`)
+
+    const parsed = result.data
+
+    const mainDate = parsed.key_details?.main_date || (facts.dates?.[0]?.when)
+    const bookingRef = parsed.key_details?.booking_reference || (facts.ids?.[0]?.value)
+    const amount = parsed.key_details?.amount || (facts.amounts?.[0] ? `${facts.amounts[0].value} ${facts.amounts[0].currency || ''}` : null)
+
+    const badPatterns = /^(whenever|maybe|consider|possibly|if you|you could)/i
+    const actionItems = (parsed.action_items || [])
+      .filter(item => item && item.length > 3 && !badPatterns.test(item.trim()))
+      .slice(0, 4)
+
+    return {
+      summary: parsed.summary || 'no summary generated',
+      action_items: actionItems,
+      dates: mainDate ? [mainDate] : [],
+      key_facts: { 
+        booking_reference: bookingRef || null, 
+        amount: amount || null,
+        sender_org: parsed.key_details?.sender_org || null
+      },
+      tags: parsed.tags || (parsed.intent ? [parsed.intent] : []),
+      domain: parsed.domain || null,
+      intent: parsed.tags?.[0] || parsed.intent || null,
+      reasoning: parsed.reasoning || null,
+      urgency: parsed.urgency || 'normal',
+      model: result.model || (result.provider === 'chrome-ai' ? 'gemini-nano' : result.provider)
+    }
+  }
+
+  // what the regex extractor alone can fill in when no provider produced a summary
+  static _summaryFromFacts(facts: ExtractedFacts): EmailSummary {
+    const amount = facts.amounts?.[0]
+    return {
+      summary: 'no summary generated, no ai provider answered',
+      action_items: (facts.action_items || []).slice(0, 4),
+      dates: facts.dates?.[0] ? [facts.dates[0].when] : [],
+      key_facts: {
+        booking_reference: facts.ids?.[0]?.value || null,
+        amount: amount ? `${amount.value} ${amount.currency || ''}`.trim() : null,
+        sender_org: null
+      },
+      tags: [],
+      domain: null,
+      intent: null,
+      reasoning: null,
+      urgency: 'normal',
+      confidence: 'low'
+    }
   }
 
   static _buildFactsSummary(facts: ExtractedFacts): string {
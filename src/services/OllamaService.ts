@@ -2,16 +2,40 @@ import { stripThinking } from '../utils/text'
 import type {
   OllamaModel,
   OllamaTagsResponse,
+  OllamaShowResponse,
+  OllamaHost,
+  OllamaHostHealth,
+  OllamaModelInfo,
+  OllamaModelProfile,
+  OllamaSelectionPolicy,
+  OllamaSelectionPrefs,
+  OllamaRecommendation,
   ChatMessage,
   CompleteResult,
   TaskType
 } from '../types'
+import type { AIToolCall, AIToolDefinition } from '../types/chrome-ai'
+
+interface PullChunk {
+  status: string
+  completed?: number
+  total?: number
+}
+
+// /api/chat message shape when tools are in play
+export interface OllamaToolMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>
+  tool_name?: string
+}
 
 interface CompleteOptions {
   temperature?: number
   top_p?: number
   format?: unknown
   longContext?: boolean
+  signal?: AbortSignal
 }
 
 export class OllamaService {
@@ -19,28 +43,212 @@ export class OllamaService {
   static TIMEOUT_HEALTH = 3000
   static TIMEOUT_CHAT = 30000
   static TIMEOUT_CHAT_LONG = 120000
+  static DEFAULT_NUM_CTX = 4096 // what ollama runs a model with unless num_ctx is set
+
+  private static profiles = new Map<string, OllamaModelProfile>()
+  private static profilesLoaded: Promise<void> | null = null
+  private static digests = new Map<string, string>() // model -> digest from the last /api/tags
+
+  static SELECTION_DEFAULTS: Record<TaskType, OllamaSelectionPolicy> = {
+    word_lookup: 'fast',
+    page_summary: 'balanced',
+    email_summary: 'balanced'
+  }
+
+  // parameter count in billions each policy aims for; models above max only run when nothing else fits
+  static POLICY_TARGETS: Record<OllamaSelectionPolicy, { ideal: number; max: number }> = {
+    fast: { ideal: 1.5, max: 4 },
+    balanced: { ideal: 3.5, max: 9 },
+    quality: { ideal: 8, max: 16 }
+  }
 
-  static PRIORITY: Record<TaskType, string[]> = {
+  // suggested pulls per task for the model manager, selection itself goes by model profile
+  static RECOMMENDED: Record<TaskType, string[]> = {
     word_lookup: ['llama3.2:1b', 'qwen2.5:1.5b', 'llama3.2:3b'],
     page_summary: ['llama3.2:3b', 'llama3.2:1b', 'qwen2.5:1.5b'],
     email_summary: ['llama3.2:3b', 'llama3.2:1b', 'qwen2.5:3b']
   }
 
-  static async checkAvailable(): Promise<{ available: boolean; models: string[] }> {
+  // configured hosts in failover order, falls back to the local default
+  static async getHosts(): Promise<OllamaHost[]> {
+    try {
+      const result = await chrome.storage.local.get('ollamaHosts')
+      const hosts = (result.ollamaHosts as OllamaHost[] | undefined)?.filter(h => h?.url)
+      return hosts?.length ? hosts : [{ url: this.BASE_URL }]
+    } catch (err) {
+      console.error('[OllamaService.getHosts]', (err as Error).message)
+      return [{ url: this.BASE_URL }]
+    }
+  }
+
+  static normalizeUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '')
+  }
+
+  private static _headers(host: OllamaHost): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (host.token) headers.Authorization = `Bearer ${host.token}`
+    return headers
+  }
+
+  static async checkHost(host: OllamaHost): Promise<OllamaHostHealth> {
+    const url = this.normalizeUrl(host.url)
+    const start = performance.now()
     try {
-      const res = await fetch(`${this.BASE_URL}/api/tags`, {
+      const res = await fetch(`${url}/api/tags`, {
+        headers: this._headers(host),
         signal: AbortSignal.timeout(this.TIMEOUT_HEALTH)
       })
 
-      if (!res.ok) return { available: false, models: [] }
+      if (!res.ok) return { url, available: false, models: [], error: `ollama returned ${res.status}` }
 
       const data: OllamaTagsResponse = await res.json()
       const models = data.models?.map(m => m.name) || []
+      data.models?.forEach(m => { if (m.digest) this.digests.set(m.name, m.digest) })
 
-      return { available: true, models }
-    } catch {
-      return { available: false, models: [] }
+      return { url, available: true, models, latency: Math.round(performance.now() - start) }
+    } catch (err) {
+      return { url, available: false, models: [], error: (err as Error).message }
+    }
+  }
+
+  static async checkHosts(): Promise<OllamaHostHealth[]> {
+    const hosts = await this.getHosts()
+    return Promise.all(hosts.map(h => this.checkHost(h)))
+  }
+
+  // first reachable host wins
+  static async checkAvailable(): Promise<{ available: boolean; models: string[] }> {
+    const hosts = await this.getHosts()
+    for (const host of hosts) {
+      const health = await this.checkHost(host)
+      if (health.available) return { available: true, models: health.models }
+    }
+    return { available: false, models: [] }
+  }
+
+  // /api/show once per model digest, kept in storage so a restarted worker doesn't probe again
+  static async getProfile(model: string): Promise<OllamaModelProfile> {
+    await this._loadProfiles()
+    const digest = this.digests.get(model)
+    const cached = this.profiles.get(model)
+    if (cached && (!digest || cached.digest === digest)) return cached
+
+    try {
+      const res = await this._postWithFailover('/api/show', { model })
+      const profile = this._toProfile(model, digest, await res.json())
+      this.profiles.set(model, profile)
+      this._saveProfiles()
+      return profile
+    } catch (err) {
+      console.warn('[OllamaService.getProfile]', (err as Error).message)
+      return this._toProfile(model, digest, {})
+    }
+  }
+
+  // effective context for a model: num_ctx from its modelfile, otherwise ollama's runtime
+  // default capped by what the model was trained on
+  static async getContextLength(model: string): Promise<number> {
+    return (await this.getProfile(model)).contextLength
+  }
+
+  private static _toProfile(name: string, digest: string | undefined, data: OllamaShowResponse): OllamaModelProfile {
+    const info = data.model_info || {}
+    const details = data.details || {}
+    const numCtx = Number(data.parameters?.match(/^num_ctx\s+(\d+)/m)?.[1])
+    const trained = Number(Object.entries(info).find(([key]) => key.endsWith('.context_length'))?.[1])
+    const families = [details.family, ...(details.families || [])].filter((f): f is string => !!f).map(f => f.toLowerCase())
+
+    // older ollama has no capabilities list: embedding models are bert-style or carry a pooling type,
+    // a bare clip projector is vision-only
+    const embedding = families.some(f => f.includes('bert')) || Object.keys(info).some(k => k.endsWith('.pooling_type')) || /embed/i.test(name)
+    const visionOnly = families.length > 0 && families.every(f => f === 'clip')
+    const capabilities = data.capabilities || (embedding ? ['embedding'] : visionOnly ? ['vision'] : ['completion'])
+
+    return {
+      name,
+      digest,
+      family: details.family || 'unknown',
+      parameterSize: details.parameter_size || '',
+      parameterCount: this._parseParameterSize(details.parameter_size) ?? (Number(info['general.parameter_count']) / 1e9 || null),
+      quantization: details.quantization_level || '',
+      contextLength: numCtx || Math.min(this.DEFAULT_NUM_CTX, trained || this.DEFAULT_NUM_CTX),
+      capabilities,
+      chat: capabilities.includes('completion')
+    }
+  }
+
+  // "3.2B" -> 3.2, "494.03M" -> 0.494, in billions
+  private static _parseParameterSize(size?: string): number | null {
+    const match = size?.trim().match(/^([\d.]+)\s*([KMBT])$/i)
+    if (!match) return null
+    const scale: Record<string, number> = { K: 1e-6, M: 1e-3, B: 1, T: 1e3 }
+    return Number(match[1]) * scale[match[2].toUpperCase()] || null
+  }
+
+  private static _loadProfiles(): Promise<void> {
+    if (!this.profilesLoaded) {
+      this.profilesLoaded = (async () => {
+        try {
+          const result = await chrome.storage.local.get('ollamaProfiles')
+          const stored = (result.ollamaProfiles || {}) as Record<string, OllamaModelProfile>
+          for (const [name, profile] of Object.entries(stored)) {
+            if (!this.profiles.has(name)) this.profiles.set(name, profile)
+          }
+        } catch (err) {
+          console.warn('[OllamaService._loadProfiles]', (err as Error).message)
+        }
+      })()
+    }
+    return this.profilesLoaded
+  }
+
+  private static _saveProfiles(): void {
+    chrome.storage.local.set({ ollamaProfiles: Object.fromEntries(this.profiles) }).catch(err => {
+      console.warn('[OllamaService._saveProfiles]', (err as Error).message)
+    })
+  }
+
+  private static _forgetProfile(model: string): void {
+    if (this.profiles.delete(model)) this._saveProfiles()
+  }
+
+  // posts to each host in order until one answers ok, throws the last error otherwise
+  // an aborted signal stops the failover instead of moving on to the next host
+  private static async _postWithFailover(
+    path: string,
+    body: Record<string, unknown>,
+    longContext = false,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const hosts = await this.getHosts()
+    let lastError = new Error('no ollama hosts configured')
+
+    for (const host of hosts) {
+      const hostTimeout = host.timeout || this.TIMEOUT_CHAT
+      const timeout = longContext ? Math.max(hostTimeout, this.TIMEOUT_CHAT_LONG) : hostTimeout
+      signal?.throwIfAborted()
+
+      try {
+        const res = await fetch(`${this.normalizeUrl(host.url)}${path}`, {
+          method: 'POST',
+          headers: this._headers(host),
+          body: JSON.stringify(body),
+          signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout)]) : AbortSignal.timeout(timeout)
+        })
+        if (res.ok) return res
+        lastError = new Error(`ollama returned ${res.status}`)
+      } catch (err) {
+        if (signal?.aborted) throw err
+        lastError = err as Error
+      }
+
+      if (hosts.length > 1) {
+        console.log(`[OllamaService] host ${host.url} failed:`, lastError.message)
+      }
     }
+
+    throw lastError
   }
 
   static async complete(model: string, messages: ChatMessage[], options: CompleteOptions = {}): Promise<CompleteResult> {
@@ -57,21 +265,7 @@ export class OllamaService {
 
       if (options.format) body.format = options.format
 
-      const timeout = options.longContext ? this.TIMEOUT_CHAT_LONG : this.TIMEOUT_CHAT
-
-      const res = await fetch(`${this.BASE_URL}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        signal: AbortSignal.timeout(timeout)
-      })
-
-      if (!res.ok) {
-        return {
-          ok: false,
-          error: `ollama returned ${res.status}`
-        }
-      }
+      const res = await this._postWithFailover('/api/chat', body, options.longContext, options.signal)
 
       const data = await res.json()
       const rawContent = data?.message?.content || data?.response
@@ -80,7 +274,10 @@ export class OllamaService {
       return { ok: true, content }
     } catch (err) {
       const error = err as Error
-      if (error.name === 'AbortError') {
+      if (options.signal?.aborted) {
+        return { ok: false, error: 'cancelled' }
+      }
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
         return { ok: false, error: 'timeout' }
       }
       console.error('[OllamaService.complete]', error.message)
@@ -88,7 +285,51 @@ export class OllamaService {
     }
   }
 
+  // native tool calling, only for models whose profile lists the tools capability
+  static async completeWithTools(
+    model: string,
+    messages: OllamaToolMessage[],
+    tools: AIToolDefinition[],
+    options: CompleteOptions = {}
+  ): Promise<CompleteResult & { toolCalls?: AIToolCall[] }> {
+    try {
+      const body: Record<string, unknown> = {
+        model,
+        messages,
+        stream: false,
+        options: {
+          temperature: options.temperature ?? 0,
+          top_p: options.top_p ?? 0.9
+        }
+      }
+      if (tools.length) {
+        body.tools = tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+      }
+
+      const res = await this._postWithFailover('/api/chat', body, options.longContext, options.signal)
+      const data = await res.json()
+      const calls = (data?.message?.tool_calls || []) as NonNullable<OllamaToolMessage['tool_calls']>
+      const toolCalls = calls
+        .filter(c => c?.function?.name)
+        .map(c => ({ name: c.function.name, arguments: c.function.arguments || {} }))
+
+      if (toolCalls.length) return { ok: true, toolCalls }
+      return { ok: true, content: stripThinking(data?.message?.content || '') }
+    } catch (err) {
+      const error = err as Error
+      if (options.signal?.aborted) {
+        return { ok: false, error: 'cancelled' }
+      }
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+        return { ok: false, error: 'timeout' }
+      }
+      console.error('[OllamaService.completeWithTools]', error.message)
+      return { ok: false, error: error.message }
+    }
+  }
+
   // streaming version - yields content chunks via async generator
+  // failover only happens before the first chunk, a broken stream is not resumed elsewhere
   static async *completeStream(
     model: string,
     messages: ChatMessage[],
@@ -106,47 +347,133 @@ export class OllamaService {
 
     if (options.format) body.format = options.format
 
-    const timeout = options.longContext ? this.TIMEOUT_CHAT_LONG : this.TIMEOUT_CHAT
-
-    const res = await fetch(`${this.BASE_URL}/api/chat`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(timeout)
-    })
+    const res = await this._postWithFailover('/api/chat', body, options.longContext, options.signal)
 
-    if (!res.ok || !res.body) {
+    if (!res.body) {
       throw new Error(`ollama returned ${res.status}`)
     }
 
-    // parse NDJSON stream
-    const reader = res.body.getReader()
+    for await (const chunk of this._readNdjson(res.body)) {
+      const message = chunk.message as { content?: string } | undefined
+      if (message?.content) {
+        yield stripThinking(message.content)
+      }
+      if (chunk.done) return
+    }
+  }
+
+  // parses an NDJSON body line by line
+  private static async *_readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<Record<string, unknown>, void, unknown> {
+    const reader = body.getReader()
     const decoder = new TextDecoder()
     let buffer = ''
 
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      buffer += decoder.decode(value, { stream: true })
-      const lines = buffer.split('\n')
-      buffer = lines.pop() || ''
-
-      for (const line of lines) {
-        if (!line.trim()) continue
-        try {
-          const chunk = JSON.parse(line)
-          if (chunk.message?.content) {
-            yield stripThinking(chunk.message.content)
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.trim()) continue
+          let chunk: Record<string, unknown>
+          try {
+            chunk = JSON.parse(line)
+          } catch {
+            continue // skip malformed json
           }
-          if (chunk.done) return
-        } catch {
-          // skip malformed json
+          yield chunk
         }
       }
+    } finally {
+      // releases the connection when the consumer stops early
+      reader.cancel().catch(() => {})
     }
   }
 
+  // model management acts on the first reachable host, the one requests are served from
+  private static async _managedHost(): Promise<OllamaHost> {
+    const hosts = await this.getHosts()
+    for (const host of hosts) {
+      if ((await this.checkHost(host)).available) return host
+    }
+    throw new Error('ollama is not reachable')
+  }
+
+  // installed models with size from /api/tags, family/quantization/context from the model profile
+  static async listModels(): Promise<OllamaModelInfo[]> {
+    const host = await this._managedHost()
+    const res = await fetch(`${this.normalizeUrl(host.url)}/api/tags`, {
+      headers: this._headers(host),
+      signal: AbortSignal.timeout(this.TIMEOUT_HEALTH)
+    })
+    if (!res.ok) throw new Error(`ollama returned ${res.status}`)
+
+    const data: OllamaTagsResponse = await res.json()
+    return Promise.all((data.models || []).map(async (m: OllamaModel) => {
+      if (m.digest) this.digests.set(m.name, m.digest)
+      const profile = await this.getProfile(m.name)
+      return {
+        name: m.name,
+        size: m.size || 0,
+        family: profile.family,
+        parameterSize: profile.parameterSize,
+        quantization: profile.quantization,
+        contextLength: profile.contextLength,
+        chat: profile.chat,
+        modifiedAt: m.modified_at
+      }
+    }))
+  }
+
+  // streams /api/pull progress; no overall timeout since large models take minutes
+  static async *pullModel(model: string, signal?: AbortSignal): AsyncGenerator<PullChunk, void, unknown> {
+    const host = await this._managedHost()
+    const res = await fetch(`${this.normalizeUrl(host.url)}/api/pull`, {
+      method: 'POST',
+      headers: this._headers(host),
+      body: JSON.stringify({ model, stream: true }),
+      signal
+    })
+    if (!res.ok || !res.body) throw new Error(`ollama returned ${res.status}`)
+
+    for await (const chunk of this._readNdjson(res.body)) {
+      if (typeof chunk.error === 'string') throw new Error(chunk.error)
+      yield {
+        status: String(chunk.status || ''),
+        completed: typeof chunk.completed === 'number' ? chunk.completed : undefined,
+        total: typeof chunk.total === 'number' ? chunk.total : undefined
+      }
+    }
+    this._forgetProfile(model)
+  }
+
+  static async deleteModel(model: string): Promise<void> {
+    const host = await this._managedHost()
+    const res = await fetch(`${this.normalizeUrl(host.url)}/api/delete`, {
+      method: 'DELETE',
+      headers: this._headers(host),
+      body: JSON.stringify({ model }),
+      signal: AbortSignal.timeout(this.TIMEOUT_CHAT)
+    })
+    if (!res.ok) throw new Error(res.status === 404 ? `${model} is not installed` : `ollama returned ${res.status}`)
+    this._forgetProfile(model)
+  }
+
+  // RECOMMENDED per task with what's already installed
+  static recommendations(installed: string[]): OllamaRecommendation[] {
+    return (Object.keys(this.RECOMMENDED) as TaskType[]).map(task => ({
+      task,
+      models: this.RECOMMENDED[task].map(name => ({
+        name,
+        installed: installed.some(m => m.includes(name))
+      }))
+    }))
+  }
+
   static async getUserSelected(): Promise<string | null> {
     try {
       const result = await chrome.storage.local.get('selectedModel')
@@ -162,46 +489,60 @@ export class OllamaService {
     return available ? models : []
   }
 
-  static async selectBest(taskType: TaskType = 'email_summary'): Promise<string | null> {
-    const userModel = await this.getUserSelected()
-    if (userModel) return userModel
+  static async getSelectionPolicy(taskType: TaskType): Promise<OllamaSelectionPolicy> {
+    try {
+      const result = await chrome.storage.local.get('ollamaSelection')
+      return (result.ollamaSelection as OllamaSelectionPrefs | undefined)?.[taskType] || this.SELECTION_DEFAULTS[taskType]
+    } catch {
+      return this.SELECTION_DEFAULTS[taskType]
+    }
+  }
 
+  // higher is better, null for models that can't serve text tasks
+  static scoreModel(profile: OllamaModelProfile, taskType: TaskType, policy: OllamaSelectionPolicy): number | null {
+    if (!profile.chat) return null
+    const { ideal, max } = this.POLICY_TARGETS[policy]
+    const params = profile.parameterCount ?? ideal * 2 // unknown size counts as bigger than wanted
+    let score = -Math.abs(Math.log2(params / ideal))
+    if (params > max) score -= 10 // likely to blow the latency budget
+    if (taskType !== 'word_lookup' && profile.contextLength > this.DEFAULT_NUM_CTX) score += 0.25
+    return score
+  }
+
+  // chat-capable installed models, best first for the task's policy
+  static async rankModels(taskType: TaskType): Promise<string[]> {
     const available = await this.listAvailable()
-    if (!available.length) return null
+    if (!available.length) return []
+
+    const policy = await this.getSelectionPolicy(taskType)
+    const scored = await Promise.all(available.map(async name => ({
+      name,
+      score: this.scoreModel(await this.getProfile(name), taskType, policy)
+    })))
+
+    return scored
+      .filter((s): s is { name: string; score: number } => s.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map(s => s.name)
+  }
 
-    const priority = this.PRIORITY[taskType] || []
-    for (const hint of priority) {
-      const found = available.find(m => m.includes(hint))
-      if (found) return found
-    }
+  static async selectBest(taskType: TaskType = 'email_summary'): Promise<string | null> {
+    const userModel = await this.getUserSelected()
+    if (userModel) return userModel
 
-    return available[0]
+    const ranked = await this.rankModels(taskType)
+    return ranked[0] || null
   }
 
   static async tryWithFallback<T>(taskFn: (model: string) => Promise<T>, taskType: TaskType = 'email_summary'): Promise<T> {
     const userModel = await this.getUserSelected()
-    const priority = userModel ? [userModel] : (this.PRIORITY[taskType] || [])
+    const ranked = await this.rankModels(taskType)
+    if (!ranked.length) throw new Error('no models available')
 
-    const available = await this.listAvailable()
-    if (!available.length) throw new Error('no models available')
-
-    const modelList: string[] = []
-    const seen = new Set<string>()
-
-    for (const hint of priority) {
-      const found = available.find(m => m.includes(hint))
-      if (found && !seen.has(found)) {
-        modelList.push(found)
-        seen.add(found)
-      }
-    }
-
-    for (const model of available) {
-      if (!seen.has(model)) {
-        modelList.push(model)
-        seen.add(model)
-      }
-    }
+    // a pinned model goes first, the rest follow in ranked order
+    const modelList = userModel && ranked.includes(userModel)
+      ? [userModel, ...ranked.filter(m => m !== userModel)]
+      : ranked
 
     for (const model of modelList) {
       try {
@@ -0,0 +1,188 @@
+import { stripThinking } from '../utils/text'
+import type { ChatMessage, CompleteResult, OpenAICompatConfig } from '../types'
+
+interface CompleteOptions {
+  temperature?: number
+  top_p?: number
+  maxTokens?: number
+  responseFormat?: unknown
+  longContext?: boolean
+  signal?: AbortSignal
+}
+
+// talks to any server exposing the openai chat api (llama.cpp server, lm studio, vllm)
+export class OpenAICompatService {
+  static DEFAULT_CONFIG: OpenAICompatConfig = {
+    baseUrl: 'http://127.0.0.1:8080',
+    apiKey: '',
+    model: ''
+  }
+  static TIMEOUT_HEALTH = 3000
+  static TIMEOUT_CHAT = 60000
+  static TIMEOUT_CHAT_LONG = 180000
+
+  static async getConfig(): Promise<OpenAICompatConfig> {
+    try {
+      const result = await chrome.storage.local.get('openaiCompat')
+      return { ...this.DEFAULT_CONFIG, ...(result.openaiCompat as Partial<OpenAICompatConfig> || {}) }
+    } catch (err) {
+      console.error('[OpenAICompatService.getConfig]', (err as Error).message)
+      return { ...this.DEFAULT_CONFIG }
+    }
+  }
+
+  // accepts "http://host:port", "http://host:port/" or "http://host:port/v1"
+  static normalizeBaseUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\/v1$/, '')
+  }
+
+  private static _headers(config: OpenAICompatConfig): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`
+    return headers
+  }
+
+  static async checkAvailable(): Promise<{ available: boolean; models: string[] }> {
+    try {
+      const config = await this.getConfig()
+      const res = await fetch(`${this.normalizeBaseUrl(config.baseUrl)}/v1/models`, {
+        headers: this._headers(config),
+        signal: AbortSignal.timeout(this.TIMEOUT_HEALTH)
+      })
+
+      if (!res.ok) return { available: false, models: [] }
+
+      const data: { data?: Array<{ id: string }> } = await res.json()
+      const models = data.data?.map(m => m.id) || []
+
+      return { available: true, models }
+    } catch {
+      return { available: false, models: [] }
+    }
+  }
+
+  // configured model, else whatever the server lists first (llama.cpp serves exactly one)
+  static async selectModel(): Promise<string | null> {
+    const config = await this.getConfig()
+    if (config.model) return config.model
+
+    const { available, models } = await this.checkAvailable()
+    return available && models.length ? models[0] : null
+  }
+
+  private static _buildBody(model: string, messages: ChatMessage[], options: CompleteOptions, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model,
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      stream,
+      temperature: options.temperature ?? 0,
+      top_p: options.top_p ?? 0.9
+    }
+
+    if (options.maxTokens) body.max_tokens = options.maxTokens
+    if (options.responseFormat) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: options.responseFormat, strict: true }
+      }
+    }
+
+    return body
+  }
+
+  // request timeout, combined with the caller's signal when there is one
+  private static _signal(timeout: number, signal?: AbortSignal): AbortSignal {
+    return signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout)]) : AbortSignal.timeout(timeout)
+  }
+
+  static async complete(model: string, messages: ChatMessage[], options: CompleteOptions = {}): Promise<CompleteResult> {
+    try {
+      const config = await this.getConfig()
+      const timeout = options.longContext ? this.TIMEOUT_CHAT_LONG : this.TIMEOUT_CHAT
+
+      const res = await fetch(`${this.normalizeBaseUrl(config.baseUrl)}/v1/chat/completions`, {
+        method: 'POST',
+        headers: this._headers(config),
+        body: JSON.stringify(this._buildBody(model, messages, options, false)),
+        signal: this._signal(timeout, options.signal)
+      })
+
+      if (!res.ok) {
+        return {
+          ok: false,
+          error: `openai-compatible server returned ${res.status}`
+        }
+      }
+
+      const data = await res.json()
+      const content = stripThinking(data?.choices?.[0]?.message?.content)
+
+      return { ok: true, content }
+    } catch (err) {
+      const error = err as Error
+      if (options.signal?.aborted) {
+        return { ok: false, error: 'cancelled' }
+      }
+      if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+        return { ok: false, error: 'timeout' }
+      }
+      console.error('[OpenAICompatService.complete]', error.message)
+      return { ok: false, error: error.message }
+    }
+  }
+
+  // streaming version - parses the server-sent events of /v1/chat/completions
+  static async *completeStream(
+    model: string,
+    messages: ChatMessage[],
+    options: CompleteOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const config = await this.getConfig()
+    const timeout = options.longContext ? this.TIMEOUT_CHAT_LONG : this.TIMEOUT_CHAT
+
+    const res = await fetch(`${this.normalizeBaseUrl(config.baseUrl)}/v1/chat/completions`, {
+      method: 'POST',
+      headers: this._headers(config),
+      body: JSON.stringify(this._buildBody(model, messages, options, true)),
+      signal: this._signal(timeout, options.signal)
+    })
+
+    if (!res.ok || !res.body) {
+      throw new Error(`openai-compatible server returned ${res.status}`)
+    }
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          const trimmed = line.trim()
+          if (!trimmed.startsWith('data:')) continue
+
+          const payload = trimmed.slice(5).trim()
+          if (payload === '[DONE]') return
+
+          try {
+            const chunk = JSON.parse(payload)
+            const delta = chunk.choices?.[0]?.delta?.content
+            if (delta) yield delta
+          } catch {
+            // skip malformed json
+          }
+        }
+      }
+    } finally {
+      // releases the connection when the consumer stops early
+      reader.cancel().catch(() => {})
+    }
+  }
+}
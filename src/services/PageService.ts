@@ -1,14 +1,15 @@
 import { OllamaService } from './OllamaService'
 import { cacheService } from './CacheService'
-import { aiGateway, AIPrompts, mapReduceService } from './ai'
+import { aiGateway, promptRegistry, renderTemplate, mapReduceService, contextBudget } from './ai'
 import { analyticsService } from './AnalyticsService'
-import type { ExtractedData, SummaryTiming, PageSummary, ChatMessage, PageContext, ChatResult } from '../types'
+import type { ExtractedData, SummaryTiming, PageSummary, ChatMessage, PageContext, ChatResult, ChatSource, ChatStreamEvent, RagSearchFilter } from '../types'
+import type { AICompleteRequest } from '../types/chrome-ai'
 
 import { ragService } from './rag/RagService'
 
 export class PageService {
 
-  static async summarize(extractedData: ExtractedData, force = false): Promise<PageSummary> {
+  static async summarize(extractedData: ExtractedData, force = false, signal?: AbortSignal): Promise<PageSummary> {
     const startTotal = performance.now()
     const timing: SummaryTiming = { extraction: 0, llm: 0, total: 0 }
     const { title, url, content, author, publishDate, publication, wordCount, readTime, extractionTime } = extractedData    
@@ -28,7 +29,8 @@ export class PageService {
         sourceId: url,
         sourceUrl: url,
         sourceType: 'article',
-        title: title || 'Untitled Article'
+        title: title || 'Untitled Article',
+        createdAt: publishDate
       }, broadcastProgress).catch(err => console.warn('[PageService] Chunk indexing failed', err))
     }
 
@@ -54,14 +56,17 @@ export class PageService {
     let summaryText: string
     let usedMapReduce = false
 
-    if (mapReduceService.needsMapReduce(fullContent)) {
+    if (await mapReduceService.needsMapReduce(fullContent, { feature: 'page-summary' })) {
       console.log('[PageService] using map-reduce for long content')
-      const mrResult = await mapReduceService.summarize(content, `Article titled "${title}"`)
+      const mrResult = await mapReduceService.summarize(content, `Article titled "${title}"`, { feature: 'page-summary', signal, bypassCache: force })
       summaryText = mrResult.summary
       usedMapReduce = true
       console.log('[PageService] map-reduce complete:', { chunks: mrResult.chunkCount, timing: mrResult.timing })
     } else {
       const result = await aiGateway.summarize({
+        feature: 'page-summary',
+        signal,
+        bypassCache: force,
         content: fullContent,
         context: `This article is titled "${title}"`,
         type: 'key-points',
@@ -74,6 +79,7 @@ export class PageService {
     }
 
     timing.llm = Math.round(performance.now() - llmStart)
+    if (signal?.aborted) throw new Error('cancelled') // never cache a partial result
 
     const bullets = this._parseBullets(summaryText)
 
@@ -94,7 +100,7 @@ export class PageService {
       // index summary for global search
       ragService.indexSummary(
         bullets.join('\n'),
-        { sourceId: url, sourceUrl: url, sourceType: 'article', title: title || url }
+        { sourceId: url, sourceUrl: url, sourceType: 'article', title: title || url, createdAt: publishDate }
       ).catch(() => {})
     }
 
@@ -170,21 +176,42 @@ export class PageService {
     return `SUMMARIES:\n${summaryParts.join('\n')}\n\nDETAILED SOURCES:\n${context}`
   }
 
-  static async chat(messages: ChatMessage[], pageContext: PageContext | null, _model: string | null): Promise<ChatResult> {
-    const startTime = performance.now()
-    
-    let contextText = pageContext?.fullContent || ''
-
-    const MAX_CONTEXT = 50000
-    if (contextText.length > MAX_CONTEXT) {
-      const headLen = Math.floor(MAX_CONTEXT * 0.6)
-      const tailLen = MAX_CONTEXT - headLen
-      contextText = contextText.slice(0, headLen) + 
-        '\n\n[...content truncated for brevity...]\n\n' + 
-        contextText.slice(-tailLen)
-    }
+  static readonly NO_INDEX_REPLY = "I don't have any indexed content to search. Try summarizing some emails, articles, or PDFs first."
+
+  // model label for timing when the provider didn't report one
+  static _fallbackModel(): string {
+    return aiGateway.getPreference() === 'chrome-ai' ? 'gemini-nano' : aiGateway.getPreference()
+  }
 
+  // builds the completion request for page chat, shared by chat(), chatStream() and the agent
+  static async _prepareChat(
+    messages: ChatMessage[],
+    pageContext: PageContext | null,
+    systemPromptOverride?: string,
+    signal?: AbortSignal,
+    conversationId?: string,
+    turnContext?: string
+  ): Promise<AICompleteRequest> {
+    const sessionKey = conversationId ? `page-chat:${conversationId}` : undefined
     const lastUserMsg = messages.filter(m => m.role === 'user').pop()?.content || ''
+
+    const chatHistory = messages
+      .filter(m => m.content !== lastUserMsg)
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+    const window = await aiGateway.getContextWindow('page-chat')
+
+    // caller already retrieved the relevant sections. ones retrieved for this turn go with the
+    // question, the pooled chrome ai session records only the question in its transcript
+    if (systemPromptOverride) {
+      const userPrompt = turnContext ? `RELEVANT SECTIONS FROM THE DOCUMENT:\n${turnContext}\n\nQUESTION: ${lastUserMsg}` : lastUserMsg
+      const { history } = contextBudget.allocate(window, { systemPrompt: systemPromptOverride, userMessage: userPrompt, history: chatHistory })
+      return {
+        feature: 'page-chat', signal, sessionKey, systemPrompt: systemPromptOverride, userPrompt,
+        ...(turnContext && { sessionTurn: lastUserMsg }), messages: history, temperature: 0.3
+      }
+    }
+
+    const pageContent = pageContext?.fullContent || ''
     
     let ragContext = ''
     if (lastUserMsg) {
@@ -198,21 +225,31 @@ export class PageService {
       }
     }
 
-    const systemPrompt = (contextText 
-      ? AIPrompts.chat.withContext({ content: contextText })
-      : AIPrompts.chat.noContext) + ragContext
+    // the article gets whatever the model has left after instructions, question and history
+    const instructions = pageContent
+      ? await promptRegistry.render('page-chat', { content: '' })
+      : await promptRegistry.render('page-chat-plain', {})
+    const budget = contextBudget.allocate(window, {
+      systemPrompt: instructions + ragContext,
+      userMessage: lastUserMsg,
+      context: pageContent,
+      history: chatHistory
+    })
+    if (budget.truncated) {
+      console.log('[PageService] chat context trimmed to fit', window.inputTokens, 'tokens')
+    }
 
-    const chatHistory = messages
-      .filter(m => m.content !== lastUserMsg)
-      .slice(-6)
-      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+    const systemPrompt = (pageContent
+      ? await promptRegistry.render('page-chat', { content: budget.context })
+      : instructions) + ragContext
 
-    const result = await aiGateway.complete({
-      systemPrompt,
-      userPrompt: lastUserMsg,
-      messages: chatHistory,
-      temperature: 0.3
-    })
+    return { feature: 'page-chat', signal, sessionKey, systemPrompt, userPrompt: lastUserMsg, messages: budget.history, temperature: 0.3 }
+  }
+
+  static async chat(messages: ChatMessage[], pageContext: PageContext | null, _model: string | null, systemPrompt?: string, conversationId?: string, turnContext?: string): Promise<ChatResult> {
+    const startTime = performance.now()
+    const request = await this._prepareChat(messages, pageContext, systemPrompt, undefined, conversationId, turnContext)
+    const result = await aiGateway.complete(request)
     
     if (result.ok) {
       return {
@@ -220,7 +257,7 @@ export class PageService {
         content: result.content,
         timing: { 
           total: Math.round(performance.now() - startTime), 
-          model: result.model || (aiGateway.getPreference() === 'chrome-ai' ? 'gemini-nano' : 'ollama')
+          model: result.model || this._fallbackModel()
         }
       }
     }
@@ -228,11 +265,63 @@ export class PageService {
     return { ok: false, error: result.error || 'ai generation failed' }
   }
 
+  static async *chatStream(
+    messages: ChatMessage[],
+    pageContext: PageContext | null,
+    systemPrompt?: string,
+    signal?: AbortSignal,
+    conversationId?: string,
+    turnContext?: string
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    const startTime = performance.now()
+    const request = await this._prepareChat(messages, pageContext, systemPrompt, signal, conversationId, turnContext)
+    yield* this._streamCompletion(request, startTime)
+  }
+
+  // retrieval + prompt for global chat, request is null when nothing is indexed
+  static async _prepareGlobalChat(
+    messages: ChatMessage[],
+    lastUserMsg: string,
+    signal?: AbortSignal,
+    filter?: RagSearchFilter
+  ): Promise<{ request: AICompleteRequest | null; sources: ChatSource[] }> {
+    const { context, sources } = await ragService.searchWithSources(lastUserMsg, 8, filter)
+    console.log('[PageService.globalChat] sources from RAG:', sources?.length, sources)
+    
+    if (!context) {
+      return { request: null, sources: [] }
+    }
+    
+    const enhancedContext = await this._enhanceContextWithSummaries(context, sources)
+    
+    const template = await promptRegistry.getTemplate('global-chat')
+    const buildPrompt = (sources: string) => renderTemplate(template, { sources })
+
+    // build chat history (exclude current message, it's passed as userPrompt)
+    const chatHistory = messages
+      .filter(m => m.content !== lastUserMsg)
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+
+    // sources arrive best first, so trimming drops the weakest ones
+    const window = await aiGateway.getContextWindow('global-chat')
+    const budget = contextBudget.allocate(window, {
+      systemPrompt: buildPrompt(''),
+      userMessage: lastUserMsg,
+      context: enhancedContext,
+      keep: 'head',
+      history: chatHistory
+    })
+
+    return {
+      request: { feature: 'global-chat', signal, systemPrompt: buildPrompt(budget.context), userPrompt: lastUserMsg, messages: budget.history, temperature: 0.3 },
+      sources
+    }
+  }
+
   static async globalChat(
-    messages: ChatMessage[]
-  ): Promise<ChatResult & { 
-    sources?: Array<{ index: number; title: string; url: string; type: 'email' | 'page' | 'pdf'; score: number; snippet: string }>
-  }> {
+    messages: ChatMessage[],
+    filter?: RagSearchFilter
+  ): Promise<ChatResult & { sources?: ChatSource[] }> {
     const startTime = performance.now()
     const lastUserMsg = messages.filter(m => m.role === 'user').pop()?.content || ''
     
@@ -240,44 +329,18 @@ export class PageService {
       return { ok: false, error: 'no user message' }
     }
     
-    const { context, sources } = await ragService.searchWithSources(lastUserMsg, 8)
-    console.log('[PageService.globalChat] sources from RAG:', sources?.length, sources)
+    const { request, sources } = await this._prepareGlobalChat(messages, lastUserMsg, undefined, filter)
     
-    if (!context) {
+    if (!request) {
       return { 
         ok: true, 
-        content: "I don't have any indexed content to search. Try summarizing some emails, articles, or PDFs first.",
+        content: this.NO_INDEX_REPLY,
         sources: [],
         timing: { total: Math.round(performance.now() - startTime), model: 'none' }
       }
     }
-    
-    const enhancedContext = await this._enhanceContextWithSummaries(context, sources)
-    
-    const systemPrompt = `You are metldr, answering questions from the user's saved emails, articles, and documents.
-
-SOURCES:
-${enhancedContext}
-
-RULES:
-- Extract and state the key facts from each source (dates, amounts, names, order IDs, etc.)
-- For each relevant source, write 1-2 sentences with the specific details found
-- Cite once at end of each item: [1], [2], etc.
-- Don't say "details not available" - if info exists in the source, extract it
-- Be direct and factual, no fluff`
-
-    // build chat history (exclude current message, it's passed as userPrompt)
-    const chatHistory = messages
-      .filter(m => m.content !== lastUserMsg)
-      .slice(-6)
-      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
 
-    const result = await aiGateway.complete({
-      systemPrompt,
-      userPrompt: lastUserMsg,
-      messages: chatHistory,
-      temperature: 0.3
-    })
+    const result = await aiGateway.complete(request)
     
     if (result.ok) {
       return {
@@ -286,13 +349,59 @@ RULES:
         sources,
         timing: { 
           total: Math.round(performance.now() - startTime), 
-          model: result.model || (aiGateway.getPreference() === 'chrome-ai' ? 'gemini-nano' : 'ollama')
+          model: result.model || this._fallbackModel()
         }
       }
     }
     
     return { ok: false, error: result.error || 'ai generation failed', sources }
   }
+
+  // streamed global chat: sources first so the ui can show them while tokens arrive
+  static async *globalChatStream(messages: ChatMessage[], signal?: AbortSignal, filter?: RagSearchFilter): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    const startTime = performance.now()
+    const lastUserMsg = messages.filter(m => m.role === 'user').pop()?.content || ''
+    
+    if (!lastUserMsg) {
+      yield { type: 'error', error: 'no user message' }
+      return
+    }
+
+    const { request, sources } = await this._prepareGlobalChat(messages, lastUserMsg, signal, filter)
+    yield { type: 'sources', sources }
+
+    if (!request) {
+      yield { type: 'token', content: this.NO_INDEX_REPLY }
+      yield { 
+        type: 'done', 
+        content: this.NO_INDEX_REPLY, 
+        timing: { total: Math.round(performance.now() - startTime), model: 'none' } 
+      }
+      return
+    }
+
+    yield* this._streamCompletion(request, startTime)
+  }
+
+  private static async *_streamCompletion(
+    request: AICompleteRequest,
+    startTime: number
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    let content = ''
+    let model: string | undefined
+
+    for await (const chunk of aiGateway.completeStream(request)) {
+      content += chunk.content
+      model = chunk.model || model
+      yield { type: 'token', content: chunk.content }
+    }
+
+    yield {
+      type: 'done',
+      content,
+      timing: { total: Math.round(performance.now() - startTime), model: model || this._fallbackModel() }
+    }
+  }
 }
 
 
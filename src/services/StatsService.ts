@@ -2,6 +2,7 @@ import { databaseService, DB_CONFIGS } from './DatabaseService'
 import { logger } from './LoggerService'
 import type { EmailSession, AppChatMessage, AppPageSummary } from '@/types'
 import type { TabSessionEntry } from './CacheService'
+import { responseCache } from './ai/ResponseCache'
 
 const log = logger.createScoped('StatsService')
 
@@ -21,6 +22,11 @@ export interface UsageStats {
   // engagement
   totalChatMessages: number
   avgResponseTime: number
+
+  // persistent ai response cache
+  aiCacheHits: number
+  aiCacheMisses: number
+  aiCacheEntries: number
 }
 
 export interface ActivityItem {
@@ -44,9 +50,10 @@ const WORDS_PER_MINUTE = 200
 class StatsServiceClass {
   async getStats(): Promise<UsageStats> {
     try {
-      const [emailSessions, tabSessions] = await Promise.all([
+      const [emailSessions, tabSessions, cacheStats] = await Promise.all([
         databaseService.getAll<EmailSession>(DB_CONFIGS.cache, STORE_EMAIL_SESSIONS),
-        databaseService.getAll<TabSessionEntry>(DB_CONFIGS.cache, STORE_TAB_SESSIONS)
+        databaseService.getAll<TabSessionEntry>(DB_CONFIGS.cache, STORE_TAB_SESSIONS),
+        responseCache.getStats()
       ])
 
       const now = Date.now()
@@ -105,7 +112,10 @@ class StatsServiceClass {
         thisWeek,
         today,
         totalChatMessages: emailChatCount + pageChatCount,
-        avgResponseTime: Math.round(avgResponseTime)
+        avgResponseTime: Math.round(avgResponseTime),
+        aiCacheHits: cacheStats.hits,
+        aiCacheMisses: cacheStats.misses,
+        aiCacheEntries: cacheStats.entries
       }
     } catch (err) {
       log.error('getStats failed:', err)
@@ -117,7 +127,10 @@ class StatsServiceClass {
         thisWeek: 0,
         today: 0,
         totalChatMessages: 0,
-        avgResponseTime: 0
+        avgResponseTime: 0,
+        aiCacheHits: 0,
+        aiCacheMisses: 0,
+        aiCacheEntries: 0
       }
     }
   }
@@ -2,6 +2,18 @@ type StorageKey =
   | 'theme'
   | 'selectedModel'
   | 'preferredProvider'
+  | 'openaiCompat'
+  | 'ollamaHosts'
+  | 'ollamaSelection'
+  | 'aiRouting'
+  | 'aiCacheStats'
+  | 'aiCircuits'
+  | 'aiMock'
+  | 'aiMockFixture'
+  | 'promptOverrides'
+  | 'agentSettings'
+  | 'embeddingModel'
+  | 'vectorStorage'
   | 'wordPopupEnabled'
   | 'summaryPrefs'
   | 'selectedLanguages'
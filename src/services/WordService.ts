@@ -1,4 +1,3 @@
-import { OllamaService } from './OllamaService'
 import { dictionaryService } from './DictionaryService'
 import { aiGateway } from './ai'
 import type {
@@ -9,6 +8,7 @@ import type {
   ApiEntry,
   LLMParsedResult
 } from '../types'
+import type { JsonSchema } from '../types/chrome-ai'
 
 /**
  * word service with chrome ai integration
@@ -89,40 +89,27 @@ export class WordService {
       return null
     }
 
-    // pipeline: api → chrome ai → local → ollama
+    // pipeline: api → ai (provider order from the 'word-lookup' route) → local
     const apiHit = await tryApi()
     if (apiHit) return apiHit
 
-    // chrome ai
     try {
-      const chromeResult = await this._generateFromChromeAI(word_lc, context)
-      if (chromeResult) {
-        console.log('[WordService] generated via Chrome AI')
-        return chromeResult
+      const aiResult = await this._generateFromAI(word_lc, context)
+      if (aiResult) {
+        console.log('[WordService] generated via', aiResult.source)
+        return aiResult
       }
     } catch (err) {
-      console.log('[WordService] chrome ai tier error:', (err as Error).message)
+      console.log('[WordService] ai tier error:', (err as Error).message)
     }
 
     const localHit = await tryLocal()
     if (localHit) return localHit
 
-    // ollama
-    try {
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('word_lookup')
-      if (model) {
-        const result = await this._generateFromLLM(word_lc, context, model)
-        console.log('[WordService] generated via Ollama')
-        return result
-      }
-    } catch (err) {
-      console.log('[WordService] ollama tier error:', (err as Error).message)
-    }
-
     return null
   }
 
-  static async _generateFromChromeAI(word: string, context: LookupContext): Promise<WordLookupResult | null> {
+  static async _generateFromAI(word: string, context: LookupContext): Promise<WordLookupResult | null> {
     const contextStr = context.fullSentence
       ? `Context: "${context.fullSentence}"`
       : (context.contextBefore || context.contextAfter
@@ -132,8 +119,7 @@ export class WordService {
     const lang = context.languages?.[0] || 'en'
     const prompt = `${contextStr}\n\nDefine "${word}" (${lang}). Return: part of speech, definition (15-20 words in English), example sentence, 2 synonyms.`
 
-    // json schema for structured output
-    const responseConstraint = {
+    const schema: JsonSchema = {
       type: 'object',
       properties: {
         pos: { type: 'string', enum: ['noun', 'verb', 'adjective', 'adverb', 'preposition', 'conjunction', 'pronoun', 'interjection', 'article', 'other'] },
@@ -144,41 +130,29 @@ export class WordService {
       required: ['pos', 'def']
     }
 
-    const result = await aiGateway.complete({
+    const result = await aiGateway.completeStructured<LLMParsedResult>({
+      feature: 'word-lookup',
       systemPrompt: 'You are a dictionary. Define words concisely.',
       userPrompt: prompt,
-      temperature: 0,
-      responseConstraint
-    })
+      temperature: 0
+    }, schema)
 
-    if (!result.ok || !result.content) return null
+    if (!result.ok) {
+      console.log('[WordService] ai definition failed:', result.kind, result.error)
+      return null
+    }
 
-    try {
-      const parsed = JSON.parse(result.content.trim())
-      return {
-        definitions: [{
-          definition: parsed.def || parsed.definition || result.content,
-          partOfSpeech: parsed.pos || 'unknown',
-          example: parsed.example || null,
-          synonyms: parsed.synonyms || []
-        }],
-        synonyms: parsed.synonyms || [],
-        language: lang,
-        source: 'chrome-ai'
-      }
-    } catch {
-      // fallback if json parse fails
-      return {
-        definitions: [{
-          definition: result.content.trim(),
-          partOfSpeech: 'unknown',
-          example: null,
-          synonyms: []
-        }],
-        synonyms: [],
-        language: lang,
-        source: 'chrome-ai'
-      }
+    const { pos, def, example, synonyms = [] } = result.data
+    return {
+      definitions: [{
+        definition: def,
+        partOfSpeech: pos,
+        example: example || null,
+        synonyms
+      }],
+      synonyms,
+      language: lang,
+      source: result.provider || 'ai'
     }
   }
 
@@ -245,81 +219,6 @@ export class WordService {
     }
   }
 
-  static async _generateFromLLM(word: string, context: LookupContext, model: string): Promise<WordLookupResult> {
-    const schema = {
-      type: 'object',
-      properties: {
-        partOfSpeech: {
-          type: 'string',
-          enum: ['noun', 'verb', 'adjective', 'adverb', 'pronoun', 'preposition', 'conjunction', 'interjection', 'other']
-        },
-        definition: {
-          type: 'string',
-          description: 'concise 15-20 word definition'
-        },
-        example: {
-          type: 'string',
-          description: 'optional usage example'
-        },
-        synonyms: {
-          type: 'array',
-          items: { type: 'string' },
-          description: '3-5 synonyms'
-        }
-      },
-      required: ['partOfSpeech', 'definition']
-    }
-
-    const contextStr = context.fullSentence
-      ? `Context: "${context.fullSentence}"`
-      : (context.contextBefore || context.contextAfter
-        ? `Context: "${context.contextBefore} [${word}] ${context.contextAfter}"`
-        : '')
-
-    const prompt = `${contextStr}
-
-Define "${word}" (15-20 words max, considering context). Respond only with JSON.`
-
-    const result = await OllamaService.complete(
-      model,
-      [
-        { role: 'system', content: 'define words concisely. return valid json.' },
-        { role: 'user', content: prompt }
-      ],
-      { format: schema, temperature: 0 }
-    )
-
-    if (!result.ok) throw new Error(result.error)
-
-    try {
-      const parsed: LLMParsedResult = JSON.parse(result.content || '{}')
-      return {
-        definitions: [{
-          definition: parsed.definition || 'no definition',
-          partOfSpeech: parsed.partOfSpeech || 'unknown',
-          example: parsed.example || null,
-          synonyms: parsed.synonyms || []
-        }],
-        synonyms: parsed.synonyms || [],
-        language: 'en',
-        source: 'ollama'
-      }
-    } catch {
-      return {
-        definitions: [{
-          definition: (result.content || '').trim(),
-          partOfSpeech: 'unknown',
-          example: null,
-          synonyms: []
-        }],
-        synonyms: [],
-        language: 'en',
-        source: 'ollama'
-      }
-    }
-  }
-
-
   static async detectLanguage(word: string, sentence = ''): Promise<string> {
     const detectionText = sentence && sentence.length > word.length ? sentence : word
 
@@ -1,34 +1,53 @@
-import { AIProvider, NullProvider, type ProviderCapabilities } from './AIProvider'
+import { AIProvider, NullProvider, DEFAULT_CONTEXT_WINDOW, type ContextWindow, type ProviderCapabilities, type ProviderName } from './AIProvider'
 import { chromeAIProvider } from './ChromeAIProvider'
 import { ollamaProvider } from './OllamaProvider'
+import { openAICompatProvider } from './OpenAICompatProvider'
+import { browserModelProvider } from './BrowserModelProvider'
 import { localModels } from './LocalModelProvider'
+import { parseJsonLoose, validateSchema } from './StructuredOutput'
+import { responseCache } from './ResponseCache'
+import { circuitBreaker } from './CircuitBreaker'
+import { mockProvider } from './MockProvider'
 import { storageService } from '../StorageService'
+import { analyticsService } from '../AnalyticsService'
 import { logger } from '../LoggerService'
 import type {
   AICompleteRequest, AICompleteResponse, AISummarizeRequest, AISummarizeResponse,
   AITranslateRequest, AITranslateResponse, AIDetectLanguageRequest, AIDetectLanguageResponse,
-  AIWriteRequest, AIWriteResponse, AIRewriteRequest, AIRewriteResponse
+  AIWriteRequest, AIWriteResponse, AIRewriteRequest, AIRewriteResponse, AIStreamChunk, AIRoutedRequest,
+  AIStructuredResponse, AIToolRequest, AIToolResponse, JsonSchema
 } from '../../types/chrome-ai'
-import type { LocalTask } from '../../types/local-models'
+import type { AIFeature, AIRoutingTable } from '../../types'
+import type { LocalTask, ClassifyResponse, NEREntity } from '../../types/local-models'
 
 const log = logger.createScoped('AIGateway')
 
-type OperationType = 'complete' | 'summarize' | 'translate' | 'detectLanguage' | 'write' | 'rewrite'
-export type AIProviderPreference = 'chrome-ai' | 'ollama'
+type OperationType = 'complete' | 'summarize' | 'translate' | 'detectLanguage' | 'write' | 'rewrite' | 'tools'
+export type AIProviderPreference = Exclude<ProviderName, 'mock' | 'browser'>
+
+const STRUCTURED_MAX_ATTEMPTS = 2 // first try plus one repair round
+const REPAIR_ECHO_CHARS = 2000     // how much of a bad reply is shown back to the model
+
+const PREFERENCES: AIProviderPreference[] = ['chrome-ai', 'ollama', 'openai-compat']
+
+export function isProviderPreference(value: unknown): value is AIProviderPreference {
+  return typeof value === 'string' && (PREFERENCES as string[]).includes(value)
+}
 
 interface GatewayConfig {
-  preferChrome: boolean
+  preferred: AIProviderPreference
   fallbackEnabled: boolean
   logOperations: boolean
 }
 
 class AIGatewayService {
   private providers: AIProvider[] = []
-  private config: GatewayConfig = { preferChrome: true, fallbackEnabled: true, logOperations: true }
+  private config: GatewayConfig = { preferred: 'chrome-ai', fallbackEnabled: true, logOperations: true }
+  private routes: AIRoutingTable = {}
   private _initialized = false
 
   constructor() {
-    this.providers = [chromeAIProvider, ollamaProvider].sort((a, b) => a.priority - b.priority)
+    this.providers = [chromeAIProvider, ollamaProvider, openAICompatProvider, browserModelProvider].sort((a, b) => a.priority - b.priority)
     this._loadPreference()
   }
 
@@ -36,36 +55,114 @@ class AIGatewayService {
     if (this._initialized) return
     try {
       const preferredProvider = await storageService.get<string>('preferredProvider', 'chrome-ai')
-      if (preferredProvider === 'ollama') {
-        this.config.preferChrome = false
-      } else {
-        this.config.preferChrome = true
-      }
+      this.config.preferred = isProviderPreference(preferredProvider) ? preferredProvider : 'chrome-ai'
+      this.routes = await storageService.get<AIRoutingTable>('aiRouting', {})
+      await circuitBreaker.restore()
+      await mockProvider.load()
       this._initialized = true
-      log.log('loaded preference: ' + (preferredProvider || 'chrome-ai'))
+      log.log('loaded preference: ' + this.config.preferred)
     } catch {
       this._initialized = true
     }
   }
 
   setPreference(provider: AIProviderPreference): void {
-    this.config.preferChrome = provider === 'chrome-ai'
+    this.config.preferred = provider
     log.log('preference set to: ' + provider)
   }
 
   getPreference(): AIProviderPreference {
-    return this.config.preferChrome ? 'chrome-ai' : 'ollama'
+    return this.config.preferred
+  }
+
+  setRoutes(routes: AIRoutingTable): void {
+    this.routes = routes || {}
+    log.log('routes set for: ' + (Object.keys(this.routes).join(', ') || 'none'))
+  }
+
+  getRoutes(): AIRoutingTable {
+    return { ...this.routes }
   }
 
-  private getProviderOrder(): AIProvider[] {
-    if (!this.config.preferChrome) {
-      return [...this.providers].sort((a, b) => {
-        if (a.name === 'ollama') return -1
-        if (b.name === 'ollama') return 1
-        return a.priority - b.priority
-      })
+  // the feature's routed providers if it has a route, with the in-browser model as last resort,
+  // otherwise preferred provider first, the rest by priority
+  // a replaying mock serves alone, the real providers only stay behind it when it falls through
+  private getProviderOrder(feature?: AIFeature): AIProvider[] {
+    if (!mockProvider.isReplaying()) return this._routedOrder(feature)
+    return mockProvider.fallsThrough() ? [mockProvider, ...this._routedOrder(feature)] : [mockProvider]
+  }
+
+  private _routedOrder(feature?: AIFeature): AIProvider[] {
+    const route = feature ? this.routes[feature] : undefined
+    if (route?.providers?.length) {
+      const routed = route.providers
+        .map(name => this.providers.find(p => p.name === name))
+        .filter((p): p is AIProvider => !!p)
+      return [...routed, browserModelProvider]
     }
-    return this.providers
+
+    const preferred = this.config.preferred
+    return [...this.providers].sort((a, b) => {
+      if (a.name === preferred) return -1
+      if (b.name === preferred) return 1
+      return a.priority - b.priority
+    })
+  }
+
+  // pins the route's ollama model on requests headed to ollama
+  private _routeRequest<T extends AIRoutedRequest>(provider: AIProvider, request: T): T {
+    const pinned = request.feature ? this.routes[request.feature]?.ollamaModel : undefined
+    if (provider.name !== 'ollama' || !pinned) return request
+    return { ...request, model: pinned }
+  }
+
+  // context window of the provider that would serve the feature first
+  async getContextWindow(feature?: AIFeature): Promise<ContextWindow> {
+    for (const provider of this.getProviderOrder(feature)) {
+      if (circuitBreaker.isOpen(provider.name)) continue
+      if (!await provider.isAvailable()) continue
+      return provider.getContextWindow(this._routeRequest<AIRoutedRequest>(provider, { feature }).model)
+    }
+    return DEFAULT_CONTEXT_WINDOW
+  }
+
+  // cache key for a request as this provider would run it
+  private async _cacheKey(operation: string, provider: AIProvider, request: AIRoutedRequest): Promise<{ key: string; model: string }> {
+    const model = await provider.resolveModel(request.model)
+    return { key: await responseCache.keyFor(operation, provider.name, model, request), model }
+  }
+
+  // a structured call caches its first attempt like any completion; an invalid one is
+  // dropped so it isn't replayed, a repaired one takes its place
+  private async _replaceCachedCompletion(request: AICompleteRequest, providerName: string | undefined, value: AICompleteResponse | null): Promise<void> {
+    const provider = this.providers.find(p => p.name === providerName)
+    if (!provider || request.bypassCache) return
+    const { key, model } = await this._cacheKey('complete', provider, this._routeRequest(provider, request))
+    if (value) {
+      await responseCache.set(key, { operation: 'complete', provider: provider.name, model }, value)
+    } else {
+      await responseCache.delete(key)
+    }
+  }
+
+  // feeds the breaker and the per-provider stats; a cancelled call counts for neither
+  private _recordCall(provider: AIProvider, ok: boolean, startedAt: number, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      circuitBreaker.release(provider.name)
+      return
+    }
+    const latency = performance.now() - startedAt
+    circuitBreaker.record(provider.name, ok, latency)
+    if (provider !== mockProvider) analyticsService.trackProviderCall(provider.name, ok, latency).catch(() => {})
+  }
+
+  // first provider after chrome ai that is up, for the chrome-first operations
+  private async _promptFallback(): Promise<AIProvider | null> {
+    for (const provider of this.getProviderOrder()) {
+      if (provider === chromeAIProvider || circuitBreaker.isOpen(provider.name)) continue
+      if (await provider.isAvailable()) return provider
+    }
+    return null
   }
 
   configure(config: Partial<GatewayConfig>): void {
@@ -76,6 +173,11 @@ class AIGatewayService {
     return { ...this.config }
   }
 
+  // call when a provider's settings change
+  resetCircuit(name: ProviderName): void {
+    circuitBreaker.reset(name)
+  }
+
   async getAvailableProviders(): Promise<Array<{ name: string; available: boolean; capabilities: ProviderCapabilities }>> {
     const results = await Promise.all(
       this.providers.map(async (p) => ({
@@ -87,35 +189,74 @@ class AIGatewayService {
     return results
   }
 
-  private async executeWithFallback<TReq, TRes extends { ok: boolean; error?: string }>(
+  private async executeWithFallback<TReq extends AIRoutedRequest, TRes extends { ok: boolean; error?: string }>(
     operation: OperationType,
     request: TReq,
     executor: (provider: AIProvider, req: TReq) => Promise<TRes>
   ): Promise<TRes> {
-    const orderedProviders = this.getProviderOrder()
+    const orderedProviders = this.getProviderOrder(request.feature)
     const errors: string[] = []
 
     for (const provider of orderedProviders) {
+      // a cancelled request never moves on to the next provider
+      if (request.signal?.aborted) {
+        return { ok: false, error: 'cancelled' } as TRes
+      }
+
+      // known-bad providers are skipped without paying their timeout
+      if (circuitBreaker.isOpen(provider.name)) {
+        errors.push(`${provider.name}: circuit open`)
+        continue
+      }
+
+      let startedAt = 0
       try {
         const caps = await provider.getCapabilities()
-        if (!caps[operation]) continue
+        // any provider that completes can take tools through the json protocol
+        if (!caps[operation === 'tools' ? 'complete' : operation]) continue
 
         if (this.config.logOperations) {
-          log.debug('trying ' + operation + ' with ' + provider.name)
+          log.debug('trying ' + operation + ' with ' + provider.name + (request.feature ? ' for ' + request.feature : ''))
         }
 
-        const result = await executor(provider, request)
+        // replayed answers stay out of the response cache
+        const routed = this._routeRequest(provider, request)
+        const cacheKey = routed.bypassCache || provider === mockProvider ? null : await this._cacheKey(operation, provider, routed)
+        if (cacheKey) {
+          const cached = await responseCache.get<TRes>(cacheKey.key)
+          if (cached) {
+            if (this.config.logOperations) {
+              log.debug(operation + ' served from cache for ' + provider.name)
+            }
+            mockProvider.capture(operation, request, cached).catch(() => {})
+            return cached
+          }
+        }
+
+        if (!circuitBreaker.tryAcquire(provider.name)) {
+          errors.push(`${provider.name}: circuit half-open, probe in flight`)
+          continue
+        }
+
+        startedAt = performance.now()
+        const result = await executor(provider, routed)
+        this._recordCall(provider, result.ok, startedAt, request.signal)
         
         if (result.ok) {
           if (this.config.logOperations) {
             log.debug(operation + ' succeeded with ' + provider.name)
           }
+          if (cacheKey) {
+            responseCache.set(cacheKey.key, { operation, provider: provider.name, model: cacheKey.model }, result).catch(() => {})
+          }
+          if (provider !== mockProvider) mockProvider.capture(operation, request, result).catch(() => {})
           return result
         }
 
         errors.push(`${provider.name}: ${result.error}`)
         if (!this.config.fallbackEnabled) break
       } catch (err) {
+        if (startedAt) this._recordCall(provider, false, startedAt, request.signal)
         errors.push(`${provider.name}: ${(err as Error).message}`)
         if (!this.config.fallbackEnabled) break
       }
@@ -128,6 +269,147 @@ class AIGatewayService {
     return this.executeWithFallback('complete', request, (provider, req) => provider.complete(req))
   }
 
+  // one model turn of a tool loop: either tool calls for the caller to run or the final answer
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResponse> {
+    return this.executeWithFallback('tools', request, (provider, req) => provider.completeWithTools(req))
+  }
+
+  // json output constrained natively where the provider supports it (responseConstraint on
+  // chrome ai, format on ollama), then validated here; invalid replies go back to the model
+  // with the problems listed until maxAttempts runs out
+  async completeStructured<T>(
+    request: AICompleteRequest,
+    schema: JsonSchema,
+    maxAttempts = STRUCTURED_MAX_ATTEMPTS
+  ): Promise<AIStructuredResponse<T>> {
+    const firstRequest: AICompleteRequest = { ...request, responseConstraint: schema }
+    let userPrompt = request.userPrompt
+    let failure: AIStructuredResponse<T> = { ok: false, kind: 'provider', error: 'no attempts made', attempts: 0 }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // repair prompts carry the bad reply, not worth caching
+      const result = await this.complete(attempt === 1 ? firstRequest : { ...firstRequest, userPrompt, bypassCache: true })
+      if (!result.ok) {
+        const kind = result.error === 'cancelled' ? 'cancelled' : 'provider'
+        return { ok: false, kind, error: result.error || 'completion failed', provider: result.provider, attempts: attempt }
+      }
+
+      const content = result.content || ''
+      const parsed = parseJsonLoose(content)
+      const issues = parsed === undefined ? ['reply is not valid json'] : validateSchema(parsed, schema)
+      if (!issues.length) {
+        if (attempt > 1) {
+          const repaired: AICompleteResponse = { ok: true, content: JSON.stringify(parsed), provider: result.provider, model: result.model }
+          this._replaceCachedCompletion(firstRequest, failure.provider, repaired).catch(() => {})
+        }
+        return { ok: true, data: parsed as T, provider: result.provider, model: result.model, attempts: attempt }
+      }
+      if (attempt === 1) {
+        this._replaceCachedCompletion(firstRequest, result.provider, null).catch(() => {})
+      }
+
+      log.warn(`structured attempt ${attempt}/${maxAttempts} failed: ${issues.slice(0, 3).join('; ')}`)
+      failure = {
+        ok: false,
+        kind: parsed === undefined ? 'invalid-json' : 'schema-mismatch',
+        error: issues[0],
+        issues,
+        provider: result.provider,
+        attempts: attempt
+      }
+      userPrompt = `${request.userPrompt}
+
+Your previous reply did not match the required JSON schema:
+${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+Previous reply:
+${content.slice(0, REPAIR_ECHO_CHARS)}
+
+Reply again with corrected JSON only.`
+    }
+
+    return failure
+  }
+
+  // same fallback order as complete(), but a provider is only skipped
+  // if it fails before its first chunk - partial output is never mixed across providers
+  async *completeStream(request: AICompleteRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
+    const errors: string[] = []
+
+    for (const provider of this.getProviderOrder(request.feature)) {
+      if (request.signal?.aborted) throw new Error('cancelled')
+
+      if (circuitBreaker.isOpen(provider.name)) {
+        errors.push(`${provider.name}: circuit open`)
+        continue
+      }
+
+      let started = false
+      let startedAt = 0
+      try {
+        const caps = await provider.getCapabilities()
+        if (!caps.complete) continue
+
+        if (this.config.logOperations) {
+          log.debug('trying completeStream with ' + provider.name)
+        }
+
+        // shares cache entries with complete(), a hit replays as a single chunk
+        const routed = this._routeRequest(provider, request)
+        const cacheKey = routed.bypassCache || provider === mockProvider ? null : await this._cacheKey('complete', provider, routed)
+        if (cacheKey) {
+          const cached = await responseCache.get<AICompleteResponse>(cacheKey.key)
+          if (cached?.content) {
+            mockProvider.capture('complete', request, cached).catch(() => {})
+            yield { content: cached.content, provider: provider.name, model: cached.model }
+            return
+          }
+        }
+
+        if (!circuitBreaker.tryAcquire(provider.name)) {
+          errors.push(`${provider.name}: circuit half-open, probe in flight`)
+          continue
+        }
+
+        // a stream is judged by its time to first chunk
+        startedAt = performance.now()
+        let content = ''
+        let model: string | undefined
+        for await (const chunk of provider.completeStream(routed)) {
+          if (!started) this._recordCall(provider, true, startedAt, request.signal)
+          started = true
+          content += chunk.content
+          model = chunk.model || model
+          yield { ...chunk, provider: provider.name }
+        }
+
+        if (started) {
+          if (content && !request.signal?.aborted && provider.name !== 'mock') {
+            const response: AICompleteResponse = { ok: true, content, provider: provider.name, model }
+            if (cacheKey) {
+              responseCache.set(cacheKey.key, { operation: 'complete', provider: provider.name, model: cacheKey.model }, response).catch(() => {})
+            }
+            mockProvider.capture('complete', request, response).catch(() => {})
+          }
+          return
+        }
+        this._recordCall(provider, false, startedAt, request.signal)
+        errors.push(`${provider.name}: empty response`)
+      } catch (err) {
+        if (started || request.signal?.aborted) {
+          if (!started && startedAt) circuitBreaker.release(provider.name)
+          throw err
+        }
+        if (startedAt) this._recordCall(provider, false, startedAt, request.signal)
+        errors.push(`${provider.name}: ${(err as Error).message}`)
+      }
+
+      if (!this.config.fallbackEnabled) break
+    }
+
+    throw new Error(`all providers failed: ${errors.join('; ')}`)
+  }
+
   async summarize(request: AISummarizeRequest): Promise<AISummarizeResponse> {
     return this.executeWithFallback('summarize', request, (provider, req) => provider.summarize(req))
   }
@@ -142,7 +424,8 @@ class AIGatewayService {
     } catch { /* fall through */ }
 
     if (this.config.fallbackEnabled) {
-      return ollamaProvider.translate(request)
+      const fallback = await this._promptFallback()
+      if (fallback) return fallback.translate(request)
     }
     return { ok: false, error: 'translation not available' }
   }
@@ -157,7 +440,8 @@ class AIGatewayService {
     } catch { /* fall through */ }
 
     if (this.config.fallbackEnabled) {
-      return ollamaProvider.detectLanguage(request)
+      const fallback = await this._promptFallback()
+      if (fallback) return fallback.detectLanguage(request)
     }
     return { ok: false, error: 'language detection not available' }
   }
@@ -172,7 +456,10 @@ class AIGatewayService {
 
   get chrome(): typeof chromeAIProvider { return chromeAIProvider }
   get ollama(): typeof ollamaProvider { return ollamaProvider }
+  get openaiCompat(): typeof openAICompatProvider { return openAICompatProvider }
+  get browser(): typeof browserModelProvider { return browserModelProvider }
   get local(): typeof localModels { return localModels }
+  get mock(): typeof mockProvider { return mockProvider }
 
   // =========================================================================
   // LOCAL MODEL ANALYSIS (always uses transformers.js)
@@ -188,6 +475,16 @@ class AIGatewayService {
     return embeddings.map(e => new Float32Array(e))
   }
 
+  // zero-shot labels, highest score first; multiLabel scores each label on its own instead of summing to 1
+  async classify(text: string, labels: string[], multiLabel = false): Promise<ClassifyResponse> {
+    return localModels.classify({ text, labels, multiLabel })
+  }
+
+  // people, organisations, locations and misc names, in text order
+  async extractEntities(text: string): Promise<NEREntity[]> {
+    return localModels.extractEntities({ text })
+  }
+
   // initialize local models (call during extension startup)
   async initializeLocalModels(tasks: LocalTask[] = ['embed']): Promise<void> {
     try {
@@ -1,41 +1,101 @@
-import type { EmailMetadata, ExtractedFacts, EmailSummary } from '../../types'
+// default prompt templates, the registry renders them and applies user overrides
+// {name} placeholders are filled from the variables declared for each prompt
+// bump a prompt's version when its default changes so stale user overrides get flagged
 
-export interface EmailContext {
-  metadata: EmailMetadata | null
-  facts: ExtractedFacts | null
-  summary: EmailSummary | null
-  snippet: string
+import type { EmailMetadata, EmailSummary } from '../../types'
+
+// variables each prompt is rendered with
+export interface PromptVariables {
+  'email-summary-system': Record<string, never>
+  'email-summary-user': { snippet: string; metadataCtx: string; factsText: string }
+  'email-reply-system': Record<string, never>
+  'email-reply-user': { snippet: string; metadataCtx: string; summaryCtx: string }
+  'page-chat': { content: string }
+  'page-chat-plain': Record<string, never>
+  'global-chat': { sources: string }
+  'query-expansion-system': Record<string, never>
+  'query-expansion-user': { query: string }
 }
 
-export interface PageChatContext {
-  content: string
-  title?: string
+export type PromptId = keyof PromptVariables
+
+export interface PromptDefinition<V = Record<string, string>> {
+  label: string
+  description: string
+  variables: { [K in keyof V]: string } // name -> what it holds
+  required: Array<keyof V>               // an override without these can't work
+  version: number
+  template: string
 }
 
-export const AIPrompts = {
+export type PromptDefinitions = { [K in PromptId]: PromptDefinition<PromptVariables[K]> }
+
+export const PROMPT_DEFINITIONS: PromptDefinitions = {
+  'email-summary-system': {
+    label: 'email summary · system',
+    description: 'role and rules for classifying and summarizing an email',
+    variables: {},
+    required: [],
+    version: 1,
+    template: `You are an expert Executive Assistant who processes all types of emails. Your job is to filter noise, extract signal, and classify accurately.
+
+CORE RULES:
+1. BE SPECIFIC with intent - choose the most precise category (e.g., "Flight Booking" not just "Confirmation")
+2. STRIP NOISE - ignore marketing fluff, legal disclaimers, unsubscribe footers, signature blocks
+3. DETECT SATIRE/JOKES - if email uses absurd language, sci-fi jargon, or obvious humor, mark as "Satire/Joke" and explain the actual topic
+4. FLAG SUSPICIOUS - for phishing/spam, note red flags in reasoning (urgency pressure, suspicious links, grammar errors, impersonation)
+5. ACTION ITEMS must be concrete and start with a verb. Exclude vague suggestions.
+6. URGENCY matters - deadlines, expiring offers, security alerts are high/critical. Newsletters are low/none.
 
-  email: {
-    summarySystem: `You are an Executive Assistant skilled at analyzing emails and extracting key information.
-Respond ONLY with valid JSON. No markdown, no explanations.`,
+SPECIAL CASES:
+- Auto-replies/OOO: summarize return date and alternate contact
+- Forwarded emails: focus on why it was forwarded, not just the original content
+- Thread replies: focus on the new information, not repeated context
+- Newsletters/Digests: extract only genuinely useful information
+- Receipts/Invoices: always include amount and reference number
+- Travel bookings: include dates, confirmation numbers, locations
+- Security alerts: always mark as high/critical urgency
 
-    summaryUser: (snippet: string, metadataCtx: string, factsText: string): string => `Analyze this email and respond with JSON:
-${metadataCtx}
-EMAIL:
-${snippet}
+OUTPUT: JSON only. No explanations outside the schema.`
+  },
 
-FACTS:
-${factsText}
+  'email-summary-user': {
+    label: 'email summary · request',
+    description: 'the email itself and the steps to follow',
+    variables: {
+      snippet: 'email body, fitted to the model',
+      metadataCtx: 'from, to, subject and date lines',
+      factsText: 'amounts, dates and ids found by pattern matching'
+    },
+    required: ['snippet'],
+    version: 1,
+    template: `Analyze this email and classify it accurately.
 
-Respond with this exact JSON format:
-{
-  "intent": "category like Receipt/Invoice/Meeting/Travel/etc",
-  "summary": "1-2 sentence summary of the email",
-  "action_items": ["action 1", "action 2"],
-  "urgency": "normal|high|low|critical",
-  "key_details": { "amount": "$X", "date": "date if relevant" }
-}`,
+{metadataCtx}---
+EMAIL CONTENT:
+{snippet}
+---
+EXTRACTED FACTS (use to verify details):
+{factsText}
+---
 
-    replySystem: `You are an email assistant helping the USER (recipient) reply to emails they RECEIVED.
+STEPS:
+1. Identify the sender type (company, person, automated system)
+2. Determine the primary PURPOSE of this email
+3. Check for red flags (phishing, spam patterns, satire/jokes)
+4. Extract concrete action items (if any)
+5. Assess urgency based on deadlines and content type
+
+Respond with JSON matching the schema. Be precise with intent classification.`
+  },
+
+  'email-reply-system': {
+    label: 'email replies · system',
+    description: 'perspective and quality rules for reply suggestions',
+    variables: {},
+    required: [],
+    version: 1,
+    template: `You are an email assistant helping the USER (recipient) reply to emails they RECEIVED.
 
 CRITICAL - PERSPECTIVE:
 - "From" = the SENDER who wrote the email. You are writing a reply TO this person.
@@ -73,104 +133,131 @@ QUALITY RULES:
 8. For questions: provide direct answers, not "I'll get back to you"
 9. Reply body should be ONLY the message text - no headers, no subject lines
 
-OUTPUT: JSON only. No explanations.`,
-
-    replyUser: (ctx: EmailContext): string => {
-      let metadataCtx = ''
-      if (ctx.metadata) {
-        const m = ctx.metadata
-        const parts: string[] = []
-        if (m.from) parts.push(`From: ${m.from}`)
-        if (m.to) parts.push(`To: ${m.to}`)
-        if (m.subject) parts.push(`Subject: ${m.subject}`)
-        if (m.date) parts.push(`Date: ${m.date}`)
-        metadataCtx = parts.join('\n') + '\n'
-      }
-
-      const summaryCtx = ctx.summary ? `
-SUMMARY OF EMAIL:
-- Intent: ${ctx.summary.intent || 'unknown'}
-- Summary: ${ctx.summary.summary || ''}
-- Action Items: ${(ctx.summary.action_items || []).join(', ') || 'none'}
-- Urgency: ${ctx.summary.urgency || 'normal'}
-` : ''
+OUTPUT: JSON only. No explanations.`
+  },
 
-      return `Generate reply suggestions for this email.
+  'email-reply-user': {
+    label: 'email replies · request',
+    description: 'the received email and what to generate',
+    variables: {
+      snippet: 'email body',
+      metadataCtx: 'from, to, subject and date lines',
+      summaryCtx: 'intent, summary and action items from the email summary'
+    },
+    required: ['snippet'],
+    version: 1,
+    template: `Generate reply suggestions for this email.
 
 PERSPECTIVE: The user RECEIVED this email. You write replies FROM the user TO the sender.
 - "From" = sender (address this person in replies)
 - "To" = user/recipient (this is who is replying)
 
-${metadataCtx}${summaryCtx}
+{metadataCtx}{summaryCtx}
 ---
 ORIGINAL EMAIL (written by the sender):
-${ctx.snippet}
+{snippet}
 ---
 
 Generate 3-5 reply options with varying tones (professional/friendly/brief/detailed) and lengths (short/medium/long).`
-    },
-
-    replySchema: {
-      type: 'object',
-      required: ['replies'],
-      properties: {
-        replies: {
-          type: 'array',
-          items: {
-            type: 'object',
-            required: ['tone', 'length', 'body'],
-            properties: {
-              tone: { type: 'string', enum: ['professional', 'friendly', 'brief', 'detailed'] },
-              length: { type: 'string', enum: ['short', 'medium', 'long'] },
-              body: { type: 'string' },
-              label: { type: 'string' }
-            }
-          },
-          minItems: 3,
-          maxItems: 5
-        }
-      }
-    }
   },
 
-  chat: {
-    withContext: (ctx: PageChatContext): string => {
-      const MAX_CONTEXT = 50000
-      let content = ctx.content
-      if (content.length > MAX_CONTEXT) {
-        const headLen = Math.floor(MAX_CONTEXT * 0.6)
-        const tailLen = MAX_CONTEXT - headLen
-        content = content.slice(0, headLen) + 
-          '\n\n[...content truncated for brevity...]\n\n' + 
-          content.slice(-tailLen)
-      }
-
-      return `you are an assistant helping the user understand an article.
+  'page-chat': {
+    label: 'page chat',
+    description: 'system prompt when chatting about the open page',
+    variables: {
+      content: 'page text, fitted to the model'
+    },
+    required: ['content'],
+    version: 1,
+    template: `you are an assistant helping the user understand an article.
 
 ARTICLE CONTENT:
-${content}
+{content}
 
 RULES:
 1. answer based ONLY on the article above
 2. if info isn't in the article, say so
 3. be concise (2-3 sentences unless more needed)`
-    },
+  },
 
-    noContext: 'you are a helpful assistant. be concise.'
+  'page-chat-plain': {
+    label: 'page chat · no page',
+    description: 'system prompt when there is no page text to chat about',
+    variables: {},
+    required: [],
+    version: 1,
+    template: 'you are a helpful assistant. be concise.'
   },
 
-  page: {
-    summarySystem: `you are a factual summariser. respond ONLY with bullet points.`,
+  'global-chat': {
+    label: 'global chat',
+    description: 'answers from everything indexed, with numbered sources',
+    variables: {
+      sources: 'retrieved sources, best first, numbered [1], [2]...'
+    },
+    required: ['sources'],
+    version: 1,
+    template: `You are metldr, answering questions from the user's saved emails, articles, and documents.
+
+SOURCES:
+{sources}
 
-    summaryUser: (snippet: string, title: string, author?: string): string => {
-      let prefix = `Title: ${title}\n`
-      if (author) prefix += `Author: ${author}\n`
-      return `${prefix}\n${snippet}\n\nSummarize the above in 3 bullet points. Be factual and concise.`
-    }
+RULES:
+- Extract and state the key facts from each source (dates, amounts, names, order IDs, etc.)
+- For each relevant source, write 1-2 sentences with the specific details found
+- Cite once at end of each item: [1], [2], etc.
+- Don't say "details not available" - if info exists in the source, extract it
+- Be direct and factual, no fluff`
+  },
+
+  'query-expansion-system': {
+    label: 'search expansion · system',
+    description: 'turns a search question into related search terms',
+    variables: {},
+    required: [],
+    version: 1,
+    template: `You are a search query optimizer. Output ONLY comma-separated search terms, no explanation.
+RULES:
+1. If user asks about what they "read", "saw", "forgot" - extract the TOPIC keywords only
+2. Ignore personal phrases like "what was the pdf i read about" - focus on the subject
+3. Generate 8-12 diverse terms: synonyms, related concepts, different phrasings
+Example: "what was the pdf i read about islam and ummah" → "islam, ummah, muslim, islamic, community, faith, prophetic, religion"`
   },
 
-  word: {
-    defineSystem: 'you are a concise dictionary. respond in 15 words or less.',
-    define: (word: string): string => `Define "${word}" briefly.`
+  'query-expansion-user': {
+    label: 'search expansion · request',
+    description: 'the question being expanded',
+    variables: {
+      query: 'what the user searched for'
+    },
+    required: ['query'],
+    version: 1,
+    template: 'Query: "{query}"'
+  }
+}
+
+// metadata and summary lines for the reply prompt
+export function replyPromptContext(
+  metadata: EmailMetadata | null,
+  summary: EmailSummary | null
+): { metadataCtx: string; summaryCtx: string } {
+  let metadataCtx = ''
+  if (metadata) {
+    const parts: string[] = []
+    if (metadata.from) parts.push(`From: ${metadata.from}`)
+    if (metadata.to) parts.push(`To: ${metadata.to}`)
+    if (metadata.subject) parts.push(`Subject: ${metadata.subject}`)
+    if (metadata.date) parts.push(`Date: ${metadata.date}`)
+    metadataCtx = parts.join('\n') + '\n'
   }
+
+  const summaryCtx = summary ? `
+SUMMARY OF EMAIL:
+- Intent: ${summary.intent || 'unknown'}
+- Summary: ${summary.summary || ''}
+- Action Items: ${(summary.action_items || []).join(', ') || 'none'}
+- Urgency: ${summary.urgency || 'normal'}
+` : ''
+
+  return { metadataCtx, summaryCtx }
 }
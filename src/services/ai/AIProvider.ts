@@ -11,10 +11,14 @@ import type {
   AIWriteResponse,
   AIRewriteRequest,
   AIRewriteResponse,
+  AIStreamChunk,
+  AIToolRequest,
+  AIToolResponse,
   ChromeAIAvailability
 } from '../../types/chrome-ai'
+import { parseToolReply, toolPromptRequest } from './ToolProtocol'
 
-export type ProviderName = 'chrome-ai' | 'ollama'
+export type ProviderName = 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser' | 'mock'
 
 export interface ProviderCapabilities {
   complete: boolean
@@ -25,6 +29,15 @@ export interface ProviderCapabilities {
   rewrite: boolean
 }
 
+// how much input a model takes and how to turn text lengths into tokens
+export interface ContextWindow {
+  inputTokens: number
+  charsPerToken: number
+}
+
+// used when a provider can't report its limits
+export const DEFAULT_CONTEXT_WINDOW: ContextWindow = { inputTokens: 4096, charsPerToken: 4 }
+
 export abstract class AIProvider {
   abstract readonly name: ProviderName
   abstract readonly priority: number // lower = higher priority for fallback ordering
@@ -37,6 +50,32 @@ export abstract class AIProvider {
   abstract detectLanguage(request: AIDetectLanguageRequest): Promise<AIDetectLanguageResponse>
   abstract write(request: AIWriteRequest): Promise<AIWriteResponse>
   abstract rewrite(request: AIRewriteRequest): Promise<AIRewriteResponse>
+
+  // the model a request would actually run on, used to key cached responses
+  async resolveModel(model?: string): Promise<string> {
+    return model || 'default'
+  }
+
+  // default: a conservative window, providers that can ask their model override this
+  async getContextWindow(_model?: string): Promise<ContextWindow> {
+    return DEFAULT_CONTEXT_WINDOW
+  }
+
+  // default: the whole completion as one chunk, providers with native streaming override this
+  // throws on failure so callers can fall back before anything was yielded
+  async *completeStream(request: AICompleteRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
+    const result = await this.complete(request)
+    if (!result.ok) throw new Error(result.error || 'completion failed')
+    yield { content: result.content || '', provider: this.name, model: result.model }
+  }
+
+  // default: tools described in the prompt and called through a json reply,
+  // providers with native tool calling override this
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResponse> {
+    const result = await this.complete(toolPromptRequest(request))
+    if (!result.ok) return { ok: false, error: result.error, provider: result.provider }
+    return { ok: true, ...parseToolReply(request, result.content || ''), provider: result.provider, model: result.model, timing: result.timing }
+  }
 }
 
 export class NullProvider extends AIProvider {
@@ -0,0 +1,175 @@
+/**
+ * in-browser provider adapter
+ *
+ * runs the bundled instruct model in the gpu sandbox through localModels
+ * last resort: slow and small, but needs neither chrome ai nor ollama
+ */
+
+import { AIProvider, type ContextWindow, type ProviderCapabilities, type ProviderName } from './AIProvider'
+import { localModels } from './LocalModelProvider'
+import { MODEL_REGISTRY, type GenerateRequest } from '../../types/local-models'
+import { logger } from '../LoggerService'
+import type {
+  AICompleteRequest,
+  AICompleteResponse,
+  AISummarizeRequest,
+  AISummarizeResponse,
+  AITranslateRequest,
+  AITranslateResponse,
+  AIDetectLanguageRequest,
+  AIDetectLanguageResponse,
+  AIWriteRequest,
+  AIWriteResponse,
+  AIRewriteRequest,
+  AIRewriteResponse
+} from '../../types/chrome-ai'
+
+const log = logger.createScoped('BrowserModelProvider')
+
+const MODEL = MODEL_REGISTRY.generate
+
+// wasm decoding gets slow on long inputs, the context budget trims pages to this
+const CONTEXT_WINDOW: ContextWindow = { inputTokens: 2048, charsPerToken: 4 }
+
+export class BrowserModelProvider extends AIProvider {
+  readonly name: ProviderName = 'browser'
+  readonly priority = 9 // after every real provider
+
+  private bundled: Promise<boolean> | null = null
+
+  // available when the model files were bundled into the build, checked once
+  async isAvailable(): Promise<boolean> {
+    if (!this.bundled) {
+      this.bundled = fetch(chrome.runtime.getURL(`${MODEL.localPath}config.json`))
+        .then(res => res.ok)
+        .catch(() => false)
+        .then(ok => {
+          if (!ok) log.log('generation model not bundled')
+          return ok
+        })
+    }
+    return this.bundled
+  }
+
+  async getCapabilities(): Promise<ProviderCapabilities> {
+    const available = await this.isAvailable()
+    return {
+      complete: available,
+      summarize: available,
+      translate: available,
+      detectLanguage: available,
+      write: available,
+      rewrite: available
+    }
+  }
+
+  async resolveModel(): Promise<string> {
+    return MODEL.id
+  }
+
+  async getContextWindow(): Promise<ContextWindow> {
+    return CONTEXT_WINDOW
+  }
+
+  // the sandbox can't stop mid-generation, an aborted request just drops the result
+  private async run(request: GenerateRequest, signal?: AbortSignal): Promise<{ ok: true; text: string; timing: number } | { ok: false; error: string }> {
+    const start = performance.now()
+    try {
+      const { text } = await localModels.generate(request)
+      if (signal?.aborted) return { ok: false, error: 'cancelled' }
+      if (!text) return { ok: false, error: 'empty generation' }
+      return { ok: true, text, timing: Math.round(performance.now() - start) }
+    } catch (err) {
+      log.warn('generation failed', (err as Error).message)
+      return { ok: false, error: (err as Error).message }
+    }
+  }
+
+  async complete(request: AICompleteRequest): Promise<AICompleteResponse> {
+    const result = await this.run({
+      system: request.systemPrompt,
+      messages: request.messages,
+      prompt: request.userPrompt,
+      temperature: request.temperature ?? 0.5,
+      maxTokens: 512
+    }, request.signal)
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    return { ok: true, content: result.text, provider: 'browser', model: MODEL.id, timing: result.timing }
+  }
+
+  async summarize(request: AISummarizeRequest): Promise<AISummarizeResponse> {
+    const typeInstructions: Record<string, string> = {
+      'key-points': 'List the most important points as bullets starting with "-"',
+      'tldr': 'Summarize in 1-2 sentences',
+      'teaser': 'Write a short teaser',
+      'headline': 'Write a single headline'
+    }
+    const lengthTargets: Record<string, string> = {
+      'short': 'Be very brief',
+      'medium': 'Use 3-5 bullets or sentences',
+      'long': 'Use 5-7 bullets or sentences'
+    }
+
+    const result = await this.run({
+      system: `You summarize text. ${typeInstructions[request.type || 'key-points']}. ${lengthTargets[request.length || 'medium']}. Only use facts stated in the text.`,
+      prompt: request.context
+        ? `Context: ${request.context}\n\nText:\n${request.content}`
+        : `Text:\n${request.content}`,
+      temperature: 0,
+      maxTokens: 320
+    }, request.signal)
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    return { ok: true, summary: result.text, provider: 'browser', timing: result.timing }
+  }
+
+  async translate(request: AITranslateRequest): Promise<AITranslateResponse> {
+    const result = await this.run({
+      system: `Translate from ${request.sourceLanguage} to ${request.targetLanguage}. Only output the translation.`,
+      prompt: request.text,
+      temperature: 0,
+      maxTokens: 256
+    })
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    return { ok: true, translation: result.text, provider: 'browser', timing: result.timing }
+  }
+
+  async detectLanguage(request: AIDetectLanguageRequest): Promise<AIDetectLanguageResponse> {
+    const result = await this.run({
+      system: 'Reply with only the ISO 639-1 two-letter code of the language of the text, e.g. "en", "de", "ja".',
+      prompt: request.text.slice(0, 500),
+      temperature: 0,
+      maxTokens: 4
+    })
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    const code = result.text.toLowerCase().match(/[a-z]{2}/)?.[0]
+    if (!code) return { ok: false, error: `no language code in "${result.text}"`, provider: 'browser' }
+    return { ok: true, language: code, confidence: 0.5, provider: 'browser' }
+  }
+
+  async write(request: AIWriteRequest): Promise<AIWriteResponse> {
+    const result = await this.run({
+      system: `You are a writing assistant. Use a ${request.tone || 'neutral'} tone and ${request.length || 'medium'} length.${request.context ? `\nContext: ${request.context}` : ''}`,
+      prompt: request.prompt,
+      temperature: 0.7,
+      maxTokens: 512
+    }, request.signal)
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    return { ok: true, content: result.text, provider: 'browser', timing: result.timing }
+  }
+
+  async rewrite(request: AIRewriteRequest): Promise<AIRewriteResponse> {
+    const tone = request.tone && request.tone !== 'as-is' ? ` Make it ${request.tone.replace('-', ' ')}.` : ''
+    const length = request.length && request.length !== 'as-is' ? ` Make it ${request.length}.` : ''
+    const result = await this.run({
+      system: `Rewrite the text.${tone}${length}${request.context ? `\nContext: ${request.context}` : ''}\nOnly output the rewritten text.`,
+      prompt: request.text,
+      temperature: 0.5,
+      maxTokens: 512
+    }, request.signal)
+    if (!result.ok) return { ok: false, error: result.error, provider: 'browser' }
+    return { ok: true, content: result.text, provider: 'browser', timing: result.timing }
+  }
+}
+
+// singleton instance
+export const browserModelProvider = new BrowserModelProvider()
@@ -1,10 +1,12 @@
 /// <reference path="../../types/chrome-ai.d.ts" />
-import { AIProvider, type ProviderCapabilities, type ProviderName } from './AIProvider'
+import { AIProvider, DEFAULT_CONTEXT_WINDOW, type ContextWindow, type ProviderCapabilities, type ProviderName } from './AIProvider'
 import { languageService } from '../LanguageService'
+import { STREAM_PORTS, iteratePort } from '../../utils/portStream'
 import type {
   AICompleteRequest, AICompleteResponse, AISummarizeRequest, AISummarizeResponse,
   AITranslateRequest, AITranslateResponse, AIDetectLanguageRequest, AIDetectLanguageResponse,
-  AIWriteRequest, AIWriteResponse, AIRewriteRequest, AIRewriteResponse
+  AIWriteRequest, AIWriteResponse, AIRewriteRequest, AIRewriteResponse,
+  AIStreamChunk, ChromeAIStreamMessage
 } from '../../types/chrome-ai'
 
 export class ChromeAIProvider extends AIProvider {
@@ -14,52 +16,68 @@ export class ChromeAIProvider extends AIProvider {
   private capabilitiesCache: ProviderCapabilities | null = null
   private cacheTimestamp = 0
   private readonly CACHE_TTL = 30000
+  private contextWindowCache: ContextWindow | null = null
+
+  // typical prose, measured once to turn the token quota into a character budget
+  private readonly TOKEN_SAMPLE = 'The quick brown fox jumps over the lazy dog while the committee reviews the quarterly budget, schedules a meeting for Tuesday, and replies to every open question in the thread.'
 
   // chrome ai apis don't work in service workers directly, but we relay via offscreen
   private isServiceWorker(): boolean {
     return typeof window === 'undefined' && typeof self !== 'undefined' && 'registration' in self
   }
 
-  // relay request through offscreen document (has window context)
-  private async relayToOffscreen(action: string, payload: any): Promise<any> {
-    try {
-      // ensure offscreen doc exists
-      const hasDoc = await chrome.offscreen?.hasDocument()
-      if (!hasDoc) {
-        await chrome.offscreen?.createDocument({
-          url: 'offscreen.html',
-          reasons: [chrome.offscreen.Reason.DOM_SCRAPING],
-          justification: 'Run Chrome AI APIs'
-        })
+  // create the offscreen doc if needed and wait until it answers
+  private async ensureOffscreen(): Promise<boolean> {
+    const hasDoc = await chrome.offscreen?.hasDocument()
+    if (!hasDoc) {
+      await chrome.offscreen?.createDocument({
+        url: 'offscreen.html',
+        reasons: [chrome.offscreen.Reason.DOM_SCRAPING],
+        justification: 'Run Chrome AI APIs'
+      })
+      await new Promise(r => setTimeout(r, 200))
+    }
+
+    for (let i = 0; i < 15; i++) {
+      try {
+        const pong = await chrome.runtime.sendMessage({ target: 'offscreen', type: 'PING' })
+        if (pong?.status === 'pong') return true
+      } catch {
         await new Promise(r => setTimeout(r, 200))
       }
-      
-      let ready = false
-      for (let i = 0; i < 15; i++) {
-        try {
-          const pong = await chrome.runtime.sendMessage({ target: 'offscreen', type: 'PING' })
-          if (pong?.status === 'pong') {
-            ready = true
-            break
-          }
-        } catch {
-          await new Promise(r => setTimeout(r, 200))
-        }
-      }
-      
-      if (!ready) {
+    }
+    return false
+  }
+
+  // relay request through offscreen document (has window context)
+  // aborting the signal tells the offscreen doc to destroy the request's session
+  private async relayToOffscreen(action: string, payload: any, signal?: AbortSignal): Promise<any> {
+    if (signal?.aborted) return { ok: false, error: 'cancelled' }
+
+    const requestId = signal ? crypto.randomUUID() : undefined
+    const onAbort = () => {
+      chrome.runtime.sendMessage({ target: 'offscreen', type: 'CHROME_AI_CANCEL', requestId }).catch(() => {})
+    }
+
+    try {
+      if (!await this.ensureOffscreen()) {
         return { ok: false, error: 'Offscreen document not ready after retries' }
       }
-      
-      return await chrome.runtime.sendMessage({
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      const result = await chrome.runtime.sendMessage({
         target: 'offscreen',
         type: 'CHROME_AI',
         action,
-        payload
+        payload,
+        requestId
       })
+      return signal?.aborted ? { ok: false, error: 'cancelled' } : result
     } catch (err) {
       console.error('[ChromeAI] Offscreen relay failed:', err)
       return { ok: false, error: (err as Error).message }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
     }
   }
 
@@ -150,6 +168,40 @@ export class ChromeAIProvider extends AIProvider {
     return this.capabilitiesCache
   }
 
+  async resolveModel(): Promise<string> {
+    return 'gemini-nano'
+  }
+
+  // prompt api session quota, the model doesn't change so the first answer is kept
+  async getContextWindow(): Promise<ContextWindow> {
+    if (this.contextWindowCache) return this.contextWindowCache
+
+    if (this.isServiceWorker()) {
+      const result = await this.relayToOffscreen('contextWindow', { sample: this.TOKEN_SAMPLE })
+      if (!result?.ok) return DEFAULT_CONTEXT_WINDOW
+      this.contextWindowCache = { inputTokens: result.inputTokens, charsPerToken: result.charsPerToken }
+      return this.contextWindowCache
+    }
+
+    try {
+      if (typeof LanguageModel === 'undefined') return DEFAULT_CONTEXT_WINDOW
+      const session = await LanguageModel.create({ expectedInputLanguages: languageService.getSupportedLanguages() })
+      try {
+        const used = await session.measureInputUsage(this.TOKEN_SAMPLE)
+        this.contextWindowCache = {
+          inputTokens: session.inputQuota,
+          charsPerToken: used ? this.TOKEN_SAMPLE.length / used : DEFAULT_CONTEXT_WINDOW.charsPerToken
+        }
+        return this.contextWindowCache
+      } finally {
+        session.destroy()
+      }
+    } catch (err) {
+      console.warn('[ChromeAI] context window lookup failed:', (err as Error).message)
+      return DEFAULT_CONTEXT_WINDOW
+    }
+  }
+
   async complete(request: AICompleteRequest): Promise<AICompleteResponse> {
     const start = performance.now()
     
@@ -160,8 +212,10 @@ export class ChromeAIProvider extends AIProvider {
         userPrompt: request.userPrompt,
         messages: request.messages,
         temperature: request.temperature,
-        responseConstraint: request.responseConstraint
-      })
+        responseConstraint: request.responseConstraint,
+        sessionKey: request.sessionKey,
+        sessionTurn: request.sessionTurn
+      }, request.signal)
       return { ...result, timing: Math.round(performance.now() - start) }
     }
     
@@ -184,7 +238,7 @@ export class ChromeAIProvider extends AIProvider {
       ]
       
       if (request.messages?.length) {
-        initialPrompts.push(...request.messages.slice(-6))
+        initialPrompts.push(...request.messages)
       }
 
       const session = await LanguageModel.create({
@@ -196,7 +250,7 @@ export class ChromeAIProvider extends AIProvider {
       })
 
       try {
-        const promptOptions: { responseConstraint?: object } = {}
+        const promptOptions: { responseConstraint?: object; signal?: AbortSignal } = { signal: request.signal }
         if (request.responseConstraint) {
           promptOptions.responseConstraint = request.responseConstraint
         }
@@ -213,10 +267,72 @@ export class ChromeAIProvider extends AIProvider {
         session.destroy()
       }
     } catch (err) {
+      if (request.signal?.aborted) return { ok: false, error: 'cancelled', provider: 'chrome-ai' }
       return { ok: false, error: (err as Error).message, provider: 'chrome-ai' }
     }
   }
 
+  async *completeStream(request: AICompleteRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
+    // service worker: tokens come back over a port from the offscreen doc
+    if (this.isServiceWorker()) {
+      if (!await this.ensureOffscreen()) {
+        throw new Error('Offscreen document not ready after retries')
+      }
+
+      const port = chrome.runtime.connect({ name: STREAM_PORTS.CHROME_AI })
+      port.postMessage({
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt,
+        messages: request.messages,
+        temperature: request.temperature,
+        sessionKey: request.sessionKey,
+        sessionTurn: request.sessionTurn
+      })
+
+      let finished = false
+      for await (const msg of iteratePort<ChromeAIStreamMessage>(port, m => m.type !== 'chunk', request.signal)) {
+        if (msg.type === 'error') throw new Error(msg.error)
+        if (msg.type === 'done') {
+          finished = true
+          break
+        }
+        yield { content: msg.content, provider: 'chrome-ai', model: 'gemini-nano' }
+      }
+      if (!finished) throw new Error(request.signal?.aborted ? 'cancelled' : 'offscreen stream closed early')
+      return
+    }
+
+    if (typeof LanguageModel === 'undefined') {
+      throw new Error('LanguageModel API not available')
+    }
+
+    const initialPrompts: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+      { role: 'system', content: request.systemPrompt }
+    ]
+    if (request.messages?.length) {
+      initialPrompts.push(...request.messages)
+    }
+
+    const session = await LanguageModel.create({
+      initialPrompts,
+      temperature: request.temperature ?? 0.7,
+      topK: 3,
+      expectedInputLanguages: languageService.getSupportedLanguages()
+    })
+    const reader = session.promptStreaming(request.userPrompt, { signal: request.signal }).getReader()
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        yield { content: value, provider: 'chrome-ai', model: 'gemini-nano' }
+      }
+    } finally {
+      reader.cancel().catch(() => {})
+      session.destroy()
+    }
+  }
+
   async summarize(request: AISummarizeRequest): Promise<AISummarizeResponse> {
     const start = performance.now()
 
@@ -227,7 +343,7 @@ export class ChromeAIProvider extends AIProvider {
         context: request.context,
         type: request.type,
         length: request.length
-      })
+      }, request.signal)
       return { ...result, timing: Math.round(performance.now() - start) }
     }
 
@@ -254,7 +370,7 @@ export class ChromeAIProvider extends AIProvider {
       })
 
       try {
-        const summary = await summarizer.summarize(request.content, { context: request.context })
+        const summary = await summarizer.summarize(request.content, { context: request.context, signal: request.signal })
         return { ok: true, summary, provider: 'chrome-ai', timing: Math.round(performance.now() - start) }
       } finally {
         summarizer.destroy()
@@ -358,7 +474,7 @@ export class ChromeAIProvider extends AIProvider {
       })
 
       try {
-        const content = await writer.write(request.prompt)
+        const content = await writer.write(request.prompt, { signal: request.signal })
         return { ok: true, content, provider: 'chrome-ai', timing: Math.round(performance.now() - start) }
       } finally {
         writer.destroy()
@@ -394,7 +510,7 @@ export class ChromeAIProvider extends AIProvider {
       })
 
       try {
-        const content = await rewriter.rewrite(request.text)
+        const content = await rewriter.rewrite(request.text, { signal: request.signal })
         return { ok: true, content, provider: 'chrome-ai', timing: Math.round(performance.now() - start) }
       } finally {
         rewriter.destroy()
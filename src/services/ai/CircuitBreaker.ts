@@ -0,0 +1,178 @@
+// per-provider circuit breaker, so a backend that keeps failing or hanging is skipped
+// instead of every request paying its timeout first
+// closed: calls go through and land in a rolling window
+// open: calls are skipped until the cooldown runs out
+// half-open: a single probe call goes through, its outcome closes or reopens the circuit
+
+import { storageService } from '../StorageService'
+import { logger } from '../LoggerService'
+import type { ProviderName } from './AIProvider'
+import type { CircuitState, ProviderCircuitTable } from '../../types'
+
+const log = logger.createScoped('CircuitBreaker')
+
+const WINDOW_SIZE = 20                 // most recent calls that count
+const WINDOW_MS = 5 * 60 * 1000        // older outcomes drop out
+const MIN_CALLS = 3                    // no verdict on fewer calls
+const ERROR_RATE_THRESHOLD = 0.5
+const SLOW_CALL_MS = 20_000            // a success this slow still counts against the provider
+const SLOW_RATE_THRESHOLD = 0.8
+const BASE_COOLDOWN_MS = 30_000
+const MAX_COOLDOWN_MS = 5 * 60 * 1000  // repeated failed probes double the cooldown up to this
+const PROBE_TIMEOUT_MS = 2 * 60 * 1000 // a probe that never reports back frees its slot
+
+interface Outcome {
+  at: number
+  ok: boolean
+  latency: number
+}
+
+interface Circuit {
+  state: CircuitState
+  outcomes: Outcome[]
+  cooldownMs: number
+  retryAt: number
+  probeStartedAt: number
+  reason?: string
+}
+
+class CircuitBreakerService {
+  private circuits = new Map<ProviderName, Circuit>()
+
+  // open circuits survive a service worker restart, a dead backend isn't retried right away
+  async restore(): Promise<void> {
+    try {
+      const stored = await storageService.get<ProviderCircuitTable>('aiCircuits', {})
+      for (const [name, saved] of Object.entries(stored) as Array<[ProviderName, ProviderCircuitTable[ProviderName]]>) {
+        if (saved?.state !== 'open' || !saved.retryAt) continue
+        const circuit = this.circuit(name)
+        circuit.state = 'open'
+        circuit.retryAt = saved.retryAt
+        circuit.reason = saved.reason
+      }
+    } catch (err) {
+      log.warn('restore failed', (err as Error).message)
+    }
+  }
+
+  // cheap check for planning, doesn't claim the half-open probe
+  isOpen(name: ProviderName): boolean {
+    const circuit = this.circuits.get(name)
+    return circuit?.state === 'open' && Date.now() < circuit.retryAt
+  }
+
+  // whether a call may go out now; an expired open circuit turns half-open and
+  // this call becomes its probe
+  tryAcquire(name: ProviderName): boolean {
+    const circuit = this.circuit(name)
+    const now = Date.now()
+
+    if (circuit.state === 'closed') return true
+
+    if (circuit.state === 'open') {
+      if (now < circuit.retryAt) return false
+      circuit.state = 'half-open'
+      circuit.probeStartedAt = now
+      log.log(`${name} half-open, probing`)
+      this.persist()
+      return true
+    }
+
+    if (now - circuit.probeStartedAt < PROBE_TIMEOUT_MS) return false
+    circuit.probeStartedAt = now
+    return true
+  }
+
+  // a cancelled call says nothing about the provider, it only gives the probe back
+  release(name: ProviderName): void {
+    const circuit = this.circuits.get(name)
+    if (circuit?.state === 'half-open') circuit.probeStartedAt = 0
+  }
+
+  record(name: ProviderName, ok: boolean, latency: number): void {
+    const circuit = this.circuit(name)
+    const now = Date.now()
+    const slow = ok && latency >= SLOW_CALL_MS
+
+    if (circuit.state === 'half-open') {
+      if (ok && !slow) {
+        this.close(name, circuit)
+      } else {
+        circuit.cooldownMs = Math.min(circuit.cooldownMs * 2, MAX_COOLDOWN_MS)
+        this.open(name, circuit, ok ? 'probe too slow' : 'probe failed')
+      }
+      return
+    }
+
+    circuit.outcomes.push({ at: now, ok, latency })
+    circuit.outcomes = circuit.outcomes.filter(o => now - o.at < WINDOW_MS).slice(-WINDOW_SIZE)
+
+    // calls that started before the circuit opened still finish, they don't reopen it
+    if (circuit.state !== 'closed') return
+
+    const total = circuit.outcomes.length
+    if (total < MIN_CALLS) return
+
+    const errorRate = circuit.outcomes.filter(o => !o.ok).length / total
+    const slowRate = circuit.outcomes.filter(o => o.ok && o.latency >= SLOW_CALL_MS).length / total
+    if (errorRate >= ERROR_RATE_THRESHOLD) {
+      this.open(name, circuit, `${Math.round(errorRate * 100)}% of recent calls failed`)
+    } else if (slowRate >= SLOW_RATE_THRESHOLD) {
+      this.open(name, circuit, `recent calls took over ${SLOW_CALL_MS / 1000}s`)
+    }
+  }
+
+  // settings changed, the old verdict no longer applies
+  reset(name: ProviderName): void {
+    if (!this.circuits.has(name)) return
+    this.circuits.delete(name)
+    this.persist()
+  }
+
+  getTable(): ProviderCircuitTable {
+    const table: ProviderCircuitTable = {}
+    for (const [name, circuit] of this.circuits) {
+      table[name] = {
+        state: circuit.state,
+        retryAt: circuit.state === 'open' ? circuit.retryAt : undefined,
+        reason: circuit.state === 'closed' ? undefined : circuit.reason
+      }
+    }
+    return table
+  }
+
+  private circuit(name: ProviderName): Circuit {
+    let circuit = this.circuits.get(name)
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], cooldownMs: BASE_COOLDOWN_MS, retryAt: 0, probeStartedAt: 0 }
+      this.circuits.set(name, circuit)
+    }
+    return circuit
+  }
+
+  private open(name: ProviderName, circuit: Circuit, reason: string): void {
+    circuit.state = 'open'
+    circuit.retryAt = Date.now() + circuit.cooldownMs
+    circuit.probeStartedAt = 0
+    circuit.reason = reason
+    log.warn(`${name} circuit open for ${Math.round(circuit.cooldownMs / 1000)}s: ${reason}`)
+    this.persist()
+  }
+
+  private close(name: ProviderName, circuit: Circuit): void {
+    circuit.state = 'closed'
+    circuit.outcomes = []
+    circuit.cooldownMs = BASE_COOLDOWN_MS
+    circuit.probeStartedAt = 0
+    circuit.reason = undefined
+    log.log(`${name} circuit closed`)
+    this.persist()
+  }
+
+  // the side panel reads breaker state from storage
+  private persist(): void {
+    storageService.set('aiCircuits', this.getTable()).catch(() => {})
+  }
+}
+
+export const circuitBreaker = new CircuitBreakerService()
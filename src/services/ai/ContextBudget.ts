@@ -0,0 +1,91 @@
+// token budgeting against the context window of the model that will serve a request
+// splits the window between system prompt, retrieved context, chat history and the user message
+
+import type { ContextWindow } from './AIProvider'
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string }
+
+export interface BudgetRequest {
+  systemPrompt: string       // instructions around the context, never trimmed
+  userMessage: string
+  context?: string           // page text or retrieved sources
+  keep?: 'ends' | 'head'     // which part of the context survives trimming, ranked sources want 'head'
+  history?: HistoryMessage[] // oldest first, trimmed from the oldest end
+  reserveOutput?: number     // tokens kept free for the answer
+}
+
+export interface BudgetAllocation {
+  context: string
+  history: HistoryMessage[]
+  truncated: boolean
+}
+
+const DEFAULT_OUTPUT_RESERVE = 512
+const HISTORY_SHARE = 0.3 // history's cap when it competes with context for the same space
+const TRUNCATION_MARKER = '\n\n[...content truncated for brevity...]\n\n'
+
+class ContextBudgetService {
+  estimateTokens(text: string, window: ContextWindow): number {
+    return Math.ceil(text.length / window.charsPerToken)
+  }
+
+  charsFor(tokens: number, window: ContextWindow): number {
+    return Math.max(0, Math.floor(tokens * window.charsPerToken))
+  }
+
+  // tokens left for input once the answer has room
+  inputTokens(window: ContextWindow, reserveOutput = DEFAULT_OUTPUT_RESERVE): number {
+    return Math.max(0, window.inputTokens - reserveOutput)
+  }
+
+  fits(text: string, window: ContextWindow, reserveOutput?: number): boolean {
+    return this.estimateTokens(text, window) <= this.inputTokens(window, reserveOutput)
+  }
+
+  // keeps the head and the tail, where articles put their intro and conclusion
+  truncateMiddle(text: string, maxChars: number): string {
+    if (text.length <= maxChars) return text
+    if (maxChars <= TRUNCATION_MARKER.length) return ''
+    const room = maxChars - TRUNCATION_MARKER.length
+    const headLen = Math.floor(room * 0.6)
+    return text.slice(0, headLen) + TRUNCATION_MARKER + text.slice(text.length - (room - headLen))
+  }
+
+  truncateTail(text: string, maxChars: number): string {
+    if (text.length <= maxChars) return text
+    if (maxChars <= TRUNCATION_MARKER.length) return ''
+    return text.slice(0, maxChars - TRUNCATION_MARKER.length) + TRUNCATION_MARKER
+  }
+
+  // system prompt and user message are fixed, history takes the newest turns that fit,
+  // context gets whatever is left
+  allocate(window: ContextWindow, request: BudgetRequest): BudgetAllocation {
+    const fixed = this.estimateTokens(request.systemPrompt, window) + this.estimateTokens(request.userMessage, window)
+    let remaining = Math.max(0, this.inputTokens(window, request.reserveOutput) - fixed)
+
+    const history: HistoryMessage[] = []
+    const allHistory = request.history || []
+    let historyRoom = request.context ? Math.floor(remaining * HISTORY_SHARE) : remaining
+    for (let i = allHistory.length - 1; i >= 0; i--) {
+      const cost = this.estimateTokens(allHistory[i].content, window)
+      if (cost > historyRoom) break
+      history.unshift(allHistory[i])
+      historyRoom -= cost
+      remaining -= cost
+    }
+
+    const fullContext = request.context || ''
+    const maxChars = this.charsFor(remaining, window)
+    const context = request.keep === 'head'
+      ? this.truncateTail(fullContext, maxChars)
+      : this.truncateMiddle(fullContext, maxChars)
+
+    return {
+      context,
+      history,
+      truncated: context.length < fullContext.length || history.length < allHistory.length
+    }
+  }
+}
+
+export const contextBudget = new ContextBudgetService()
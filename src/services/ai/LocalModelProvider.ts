@@ -1,7 +1,8 @@
 // LocalModelProvider - service worker facade for GPU sandbox
 // communicates with sandbox iframe via postMessage
 
-import type { LocalTask } from '../../types/local-models'
+import { EMBEDDING_MODELS, DEFAULT_EMBEDDING_MODEL } from '../../types/local-models'
+import type { LocalTask, EmbeddingModelConfig, ClassifyRequest, ClassifyResponse, NERRequest, NEREntity, GenerateRequest, GenerateResponse } from '../../types/local-models'
 
 // LRU cache for results
 class LRUCache<K, V> {
@@ -52,6 +53,9 @@ class LocalModelProvider {
   // caches
   private embedCache = new LRUCache<string, number[]>(200)
 
+  // selected in settings, sent along with every embed so the sandbox loads the matching pipeline
+  private embedModel: EmbeddingModelConfig = EMBEDDING_MODELS[DEFAULT_EMBEDDING_MODEL]
+
 
   private constructor() {
     // listen for responses
@@ -266,12 +270,23 @@ class LocalModelProvider {
 
   // public API
 
-  async embed(text: string, isQuery = false): Promise<number[]> {
-    const cacheKey = `${isQuery}:${text.slice(0, 100)}`
+  get embeddingModel(): EmbeddingModelConfig {
+    return this.embedModel
+  }
+
+  setEmbeddingModel(model: EmbeddingModelConfig): void {
+    if (model.id === this.embedModel.id && model.dims === this.embedModel.dims) return
+    this.embedModel = model
+    this.embedCache.clear()
+  }
+
+  // another model than the selected one only for queries against an index built with it
+  async embed(text: string, isQuery = false, model = this.embedModel): Promise<number[]> {
+    const cacheKey = `${model.id}/${model.dims}:${isQuery}:${text.slice(0, 100)}`
     const cached = this.embedCache.get(cacheKey)
     if (cached) return cached
     
-    const res = await this.send({ type: 'EMBED', payload: { texts: [text], isQuery } })
+    const res = await this.send({ type: 'EMBED', payload: { texts: [text], isQuery, model } })
     if (!res.ok) throw new Error(res.error || 'Embedding failed: no error details from sandbox')
     
     const embedding = res.data.embeddings[0]
@@ -280,19 +295,37 @@ class LocalModelProvider {
   }
 
   async embedBatch(texts: string[], isQuery = false): Promise<number[][]> {
-    const res = await this.send({ type: 'EMBED', payload: { texts, isQuery } })
+    const res = await this.send({ type: 'EMBED', payload: { texts, isQuery, model: this.embedModel } })
     if (!res.ok) throw new Error(res.error || 'Batch embedding failed: no error details from sandbox')
     return res.data.embeddings
   }
 
+  async classify(request: ClassifyRequest): Promise<ClassifyResponse> {
+    const res = await this.send({ type: 'CLASSIFY', payload: request })
+    if (!res.ok) throw new Error(res.error || 'Classification failed: no error details from sandbox')
+    return res.data
+  }
+
+  async extractEntities(request: NERRequest): Promise<NEREntity[]> {
+    const res = await this.send({ type: 'NER', payload: request })
+    if (!res.ok) throw new Error(res.error || 'Entity extraction failed: no error details from sandbox')
+    return res.data.entities
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const res = await this.send({ type: 'GENERATE', payload: request })
+    if (!res.ok) throw new Error(res.error || 'Generation failed: no error details from sandbox')
+    return res.data
+  }
+
   async tokenize(texts: string[]): Promise<number[]> {
-    const res = await this.send({ type: 'TOKENIZE', texts })
+    const res = await this.send({ type: 'TOKENIZE', texts, model: this.embedModel })
     if (!res.ok) throw new Error(res.error)
     return res.data.counts
   }
 
   async preload(tasks: LocalTask[]): Promise<void> {
-    const res = await this.send({ type: 'PRELOAD', tasks })
+    const res = await this.send({ type: 'PRELOAD', tasks, embedModel: this.embedModel })
     if (!res.ok) throw new Error(res.error)
   }
 
@@ -310,27 +343,33 @@ class LocalModelProvider {
     this.embedCache.clear()
   }
 
-  // VOY vector store operations
+  // VOY vector store operations, staging targets the index being built for a new embedding model
 
-  async voyAdd(id: string, embedding: number[], title?: string, url?: string): Promise<void> {
-    const res = await this.send({ type: 'VOY_ADD', id, embedding, title: title || id, url: url || '' })
+  async voyAdd(items: Array<{ id: string; embedding: number[]; title?: string; url?: string }>, staging = false): Promise<void> {
+    const res = await this.send({ type: 'VOY_ADD', items, staging })
     if (!res.ok) throw new Error(res.error)
   }
 
-  async voySearch(embedding: number[], limit = 5): Promise<Array<{ id: string; score: number }>> {
-    const res = await this.send({ type: 'VOY_SEARCH', embedding, limit })
+  async voySearch(embedding: number[], limit = 5, staging = false): Promise<Array<{ id: string; score: number }>> {
+    const res = await this.send({ type: 'VOY_SEARCH', embedding, limit, staging })
     if (!res.ok) throw new Error(res.error)
     return res.data.results
   }
 
-  async voySerialize(): Promise<string | null> {
-    const res = await this.send({ type: 'VOY_SERIALIZE' })
+  // returns how many entries voy actually dropped, fewer than sent means a point didn't match
+  async voyRemove(items: Array<{ id: string; embedding: number[]; title?: string; url?: string }>, staging = false): Promise<number> {
+    const res = await this.send({ type: 'VOY_REMOVE', items, staging })
+    if (!res.ok) throw new Error(res.error)
+    return res.data.removed
+  }
+
+  async voyClear(staging = false): Promise<void> {
+    const res = await this.send({ type: 'VOY_CLEAR', staging })
     if (!res.ok) throw new Error(res.error)
-    return res.data.serialized
   }
 
-  async voyLoad(data: string): Promise<void> {
-    const res = await this.send({ type: 'VOY_LOAD', data })
+  async voyPromote(): Promise<void> {
+    const res = await this.send({ type: 'VOY_PROMOTE' })
     if (!res.ok) throw new Error(res.error)
   }
 
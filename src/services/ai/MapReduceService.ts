@@ -2,15 +2,21 @@
 // chunks content, summarizes each chunk, then merges summaries
 
 import { aiGateway } from './AIGateway'
+import { contextBudget } from './ContextBudget'
+import type { ContextWindow } from './AIProvider'
 import { chunkingService } from '../rag/ChunkingService'
 import { logger } from '../LoggerService'
+import type { AIRoutedRequest } from '../../types/chrome-ai'
+
+// routing, cancellation and cache bypass passed through to every gateway call
+type CallOptions = Pick<AIRoutedRequest, 'feature' | 'signal' | 'bypassCache'>
 
 const log = logger.createScoped('MapReduce')
 
-// config - tuned for gemini nano (~4k token context)
-const MAX_DIRECT_CHARS = 12000   // ~3k tokens - skip map-reduce below this
-const CHUNK_TARGET_CHARS = 2500  // ~625 tokens per chunk - safe for context
-const MAX_SUMMARY_WORDS = 150    // target words per chunk summary
+// limits come from the context window of the model serving the feature
+const SUMMARY_RESERVE = 1024      // tokens kept for instructions and the summary itself
+const MIN_CHUNK_CHARS = 2500      // floor so tiny windows still make progress
+const MAX_SUMMARY_WORDS = 150     // target words per chunk summary
 
 interface MapReduceResult {
   summary: string
@@ -24,18 +30,21 @@ interface MapReduceResult {
 
 export class MapReduceService {
   
-  // check if content needs map-reduce (too long for direct summarization)
-  needsMapReduce(content: string): boolean {
-    return content.length > MAX_DIRECT_CHARS
+  // check if content needs map-reduce (too long for the model's window)
+  async needsMapReduce(content: string, options: CallOptions = {}): Promise<boolean> {
+    const window = await aiGateway.getContextWindow(options.feature)
+    return !contextBudget.fits(content, window, SUMMARY_RESERVE)
   }
 
   // main entry point - summarize long content using map-reduce
-  async summarize(content: string, context?: string): Promise<MapReduceResult> {
+  async summarize(content: string, context?: string, options: CallOptions = {}): Promise<MapReduceResult> {
     const startTotal = performance.now()
+    const window = await aiGateway.getContextWindow(options.feature)
     
-    if (!this.needsMapReduce(content)) {
+    if (contextBudget.fits(content, window, SUMMARY_RESERVE)) {
       log.log('content short enough for direct summarization')
       const directResult = await aiGateway.summarize({
+        ...options,
         content,
         context,
         type: 'key-points',
@@ -54,18 +63,20 @@ export class MapReduceService {
     }
 
     // split into chunks optimized for context window
-    const chunks = this.chunkContent(content)
+    const chunks = this.chunkContent(content, this.chunkChars(window))
     log.log(`map-reduce: ${chunks.length} chunks from ${content.length} chars`)
 
     // map phase - summarize each chunk in parallel (limited concurrency)
     const startMap = performance.now()
-    const chunkSummaries = await this.mapPhase(chunks, context)
+    const chunkSummaries = await this.mapPhase(chunks, context, options)
     const mapTime = Math.round(performance.now() - startMap)
     log.log(`map phase complete: ${chunkSummaries.length} summaries in ${mapTime}ms`)
+    if (options.signal?.aborted) throw new Error('cancelled')
 
     // reduce phase - merge chunk summaries into final summary
     const startReduce = performance.now()
-    const finalSummary = await this.reducePhase(chunkSummaries, context)
+    const finalSummary = await this.reducePhase(chunkSummaries, context, options)
+    if (options.signal?.aborted) throw new Error('cancelled')
     const reduceTime = Math.round(performance.now() - startReduce)
     log.log(`reduce phase complete in ${reduceTime}ms`)
 
@@ -80,14 +91,19 @@ export class MapReduceService {
     }
   }
 
+  // half the window per chunk leaves room for instructions and the chunk summary
+  private chunkChars(window: ContextWindow): number {
+    return Math.max(MIN_CHUNK_CHARS, contextBudget.charsFor(contextBudget.inputTokens(window, SUMMARY_RESERVE) / 2, window))
+  }
+
   // chunk content into segments optimized for LLM context
-  private chunkContent(content: string): string[] {
+  private chunkContent(content: string, targetChars: number): string[] {
     const chunks: string[] = []
     const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 0)
     
     let currentChunk = ''
     for (const para of paragraphs) {
-      if (currentChunk.length + para.length > CHUNK_TARGET_CHARS && currentChunk.length > 0) {
+      if (currentChunk.length + para.length > targetChars && currentChunk.length > 0) {
         chunks.push(currentChunk.trim())
         currentChunk = para
       } else {
@@ -100,8 +116,8 @@ export class MapReduceService {
 
     // fallback: if no paragraphs found, chunk by character count
     if (chunks.length === 0 && content.length > 0) {
-      for (let i = 0; i < content.length; i += CHUNK_TARGET_CHARS) {
-        chunks.push(content.slice(i, i + CHUNK_TARGET_CHARS))
+      for (let i = 0; i < content.length; i += targetChars) {
+        chunks.push(content.slice(i, i + targetChars))
       }
     }
 
@@ -109,14 +125,15 @@ export class MapReduceService {
   }
 
   // map phase - summarize each chunk (parallel with limited concurrency)
-  private async mapPhase(chunks: string[], context?: string): Promise<string[]> {
+  private async mapPhase(chunks: string[], context?: string, options: CallOptions = {}): Promise<string[]> {
     const concurrency = 2 // limit parallel requests to avoid rate limiting
     const summaries: string[] = []
 
     for (let i = 0; i < chunks.length; i += concurrency) {
+      if (options.signal?.aborted) break
       const batch = chunks.slice(i, i + concurrency)
       const batchPromises = batch.map((chunk, idx) => 
-        this.summarizeChunk(chunk, i + idx + 1, chunks.length, context)
+        this.summarizeChunk(chunk, i + idx + 1, chunks.length, context, options)
       )
       const batchResults = await Promise.all(batchPromises)
       summaries.push(...batchResults)
@@ -126,7 +143,7 @@ export class MapReduceService {
   }
 
   // summarize a single chunk
-  private async summarizeChunk(chunk: string, index: number, total: number, context?: string): Promise<string> {
+  private async summarizeChunk(chunk: string, index: number, total: number, context?: string, options: CallOptions = {}): Promise<string> {
     const prompt = `this is section ${index} of ${total} from a longer document.${context ? ` context: ${context}` : ''}
 
 summarize this section's key points in ${MAX_SUMMARY_WORDS} words or less. focus on facts and main ideas only.
@@ -138,6 +155,7 @@ SUMMARY:`
 
     try {
       const result = await aiGateway.complete({
+        ...options,
         systemPrompt: 'you summarize text sections concisely. output only the summary, no preamble.',
         userPrompt: prompt,
         temperature: 0.3
@@ -154,7 +172,7 @@ SUMMARY:`
   }
 
   // reduce phase - merge chunk summaries into final coherent summary
-  private async reducePhase(chunkSummaries: string[], context?: string): Promise<string> {
+  private async reducePhase(chunkSummaries: string[], context?: string, options: CallOptions = {}): Promise<string> {
     const combined = chunkSummaries.join('\n\n')
     
     // if combined summaries are short enough, do final synthesis
@@ -169,6 +187,7 @@ FINAL SUMMARY (bullet points):`
 
     try {
       const result = await aiGateway.complete({
+        ...options,
         systemPrompt: 'you synthesize multiple summaries into one coherent summary. output bullet points only.',
         userPrompt: prompt,
         temperature: 0.3
@@ -0,0 +1,290 @@
+// stand-in provider for deterministic offline testing, off unless the aiMock setting turns it on
+// record: real providers answer as usual and every successful request/response pair is captured
+// replay: scripted rules first, then recorded pairs; anything else fails so a missing fixture shows up,
+// unless fallThrough hands misses and injected failures to the real providers to exercise fallback
+
+import { AIProvider, type ProviderCapabilities, type ProviderName } from './AIProvider'
+import { responseCache } from './ResponseCache'
+import { parseToolReply } from './ToolProtocol'
+import { storageService } from '../StorageService'
+import { logger } from '../LoggerService'
+import type {
+  AICompleteRequest,
+  AICompleteResponse,
+  AISummarizeRequest,
+  AISummarizeResponse,
+  AITranslateRequest,
+  AITranslateResponse,
+  AIDetectLanguageRequest,
+  AIDetectLanguageResponse,
+  AIWriteRequest,
+  AIWriteResponse,
+  AIRewriteRequest,
+  AIRewriteResponse,
+  AIToolRequest,
+  AIToolResponse
+} from '../../types/chrome-ai'
+
+const log = logger.createScoped('MockProvider')
+
+const FIXTURE_FORMAT = 'metldr-ai-fixture'
+const FIXTURE_VERSION = 1
+const MAX_FIXTURE_ENTRIES = 500
+const PROMPT_PREVIEW_CHARS = 200
+const SAVE_DEBOUNCE_MS = 1000
+
+export type MockMode = 'off' | 'record' | 'replay'
+
+export interface MockRule {
+  operation?: string // any operation when omitted
+  match: string      // substring of the prompt text, or /pattern/flags
+  response?: string  // text for the operation's result field
+  error?: string     // fail with this error instead
+  latencyMs?: number // overrides the configured latency
+}
+
+export interface MockConfig {
+  mode: MockMode
+  latencyMs: number
+  failEvery: number // every nth replayed call fails, 0 never
+  fallThrough: boolean // replay failures go on to the real providers
+  rules: MockRule[]
+}
+
+export interface MockFixtureEntry {
+  key: string
+  operation: string
+  provider?: string
+  prompt: string // start of the prompt text, so the fixture file can be read
+  response: unknown
+  recordedAt: number
+}
+
+export interface MockFixture {
+  format: typeof FIXTURE_FORMAT
+  version: number
+  recordedAt: number
+  entries: MockFixtureEntry[]
+}
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = { mode: 'off', latencyMs: 0, failEvery: 0, fallThrough: false, rules: [] }
+
+// field each operation returns its text in
+const RESULT_FIELDS: Record<string, string> = {
+  complete: 'content',
+  summarize: 'summary',
+  translate: 'translation',
+  detectLanguage: 'language',
+  write: 'content',
+  rewrite: 'content',
+  tools: 'content'
+}
+
+type MockRequest = object & { signal?: AbortSignal }
+
+// every piece of text a request carries, in a fixed order
+function promptText(request: object): string {
+  const r = request as Record<string, unknown>
+  const messages = Array.isArray(r.messages) ? (r.messages as Array<{ content?: string }>).map(m => m.content) : []
+  return [r.systemPrompt, r.userPrompt, ...messages, r.prompt, r.content, r.text, r.context]
+    .filter((part): part is string => typeof part === 'string' && !!part)
+    .join('\n')
+}
+
+function ruleMatches(rule: MockRule, operation: string, text: string): boolean {
+  if (rule.operation && rule.operation !== operation) return false
+  const regex = rule.match.match(/^\/(.+)\/([a-z]*)$/)
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(text)
+    } catch {
+      // not a valid pattern, compare as text
+    }
+  }
+  return text.includes(rule.match)
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) return resolve()
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve() }, { once: true })
+  })
+}
+
+export function isMockFixture(value: unknown): value is MockFixture {
+  const fixture = value as Partial<MockFixture> | null
+  return !!fixture && fixture.format === FIXTURE_FORMAT && Array.isArray(fixture.entries)
+}
+
+export class MockProvider extends AIProvider {
+  readonly name: ProviderName = 'mock'
+  readonly priority = 0
+
+  private config: MockConfig = { ...DEFAULT_MOCK_CONFIG }
+  private fixture: Map<string, MockFixtureEntry> | null = null
+  private calls = 0
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+  async load(): Promise<void> {
+    this.setConfig(await storageService.get<MockConfig>('aiMock', DEFAULT_MOCK_CONFIG))
+  }
+
+  setConfig(config: Partial<MockConfig> | null | undefined): void {
+    this.config = { ...DEFAULT_MOCK_CONFIG, ...config }
+    this.calls = 0
+    if (this.config.mode !== 'off') log.log(`mode ${this.config.mode}, ${this.config.rules.length} rules`)
+  }
+
+  getConfig(): MockConfig {
+    return { ...this.config }
+  }
+
+  isReplaying(): boolean {
+    return this.config.mode === 'replay'
+  }
+
+  fallsThrough(): boolean {
+    return this.config.fallThrough
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.isReplaying()
+  }
+
+  async getCapabilities(): Promise<ProviderCapabilities> {
+    const on = this.isReplaying()
+    return { complete: on, summarize: on, translate: on, detectLanguage: on, write: on, rewrite: on }
+  }
+
+  async resolveModel(model?: string): Promise<string> {
+    return model || 'fixture'
+  }
+
+  // the model field is left out so a fixture recorded on one provider replays for any
+  private async keyFor(operation: string, request: object): Promise<string> {
+    const { model: _model, ...rest } = request as Record<string, unknown>
+    return responseCache.keyFor(operation, 'mock', '', rest)
+  }
+
+  private async loadFixture(): Promise<Map<string, MockFixtureEntry>> {
+    if (!this.fixture) {
+      const stored = await storageService.get<MockFixtureEntry[]>('aiMockFixture', [])
+      this.fixture = new Map(stored.map(entry => [entry.key, entry]))
+    }
+    return this.fixture
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      storageService.set('aiMockFixture', [...(this.fixture?.values() || [])]).catch(err => {
+        log.warn('fixture save failed', (err as Error).message)
+      })
+    }, SAVE_DEBOUNCE_MS)
+  }
+
+  // called by the gateway with each successful real response, a no-op unless recording
+  async capture(operation: string, request: object, response: { ok: boolean; provider?: string }): Promise<void> {
+    if (this.config.mode !== 'record' || !response.ok) return
+    const fixture = await this.loadFixture()
+    const key = await this.keyFor(operation, request)
+    fixture.delete(key)
+    fixture.set(key, {
+      key,
+      operation,
+      provider: response.provider,
+      prompt: promptText(request).slice(0, PROMPT_PREVIEW_CHARS),
+      response,
+      recordedAt: Date.now()
+    })
+    // oldest recordings go first
+    for (const oldest of fixture.keys()) {
+      if (fixture.size <= MAX_FIXTURE_ENTRIES) break
+      fixture.delete(oldest)
+    }
+    this.scheduleSave()
+  }
+
+  async exportFixture(): Promise<MockFixture> {
+    const entries = [...(await this.loadFixture()).values()]
+    return { format: FIXTURE_FORMAT, version: FIXTURE_VERSION, recordedAt: Date.now(), entries }
+  }
+
+  // replaces the recorded pairs, returns how many were loaded
+  async importFixture(value: unknown): Promise<number> {
+    if (!isMockFixture(value)) throw new Error('not a fixture file')
+    if (value.version > FIXTURE_VERSION) throw new Error(`unsupported fixture version ${value.version}`)
+    const entries = value.entries.filter(e => typeof e?.key === 'string' && typeof e.operation === 'string' && e.response)
+    this.fixture = new Map(entries.slice(-MAX_FIXTURE_ENTRIES).map(entry => [entry.key, entry]))
+    await storageService.set('aiMockFixture', [...this.fixture.values()])
+    return this.fixture.size
+  }
+
+  async clearFixture(): Promise<void> {
+    this.fixture = new Map()
+    await storageService.set('aiMockFixture', [])
+  }
+
+  async fixtureSize(): Promise<number> {
+    return (await this.loadFixture()).size
+  }
+
+  private async serve<T extends { ok: boolean; error?: string }>(operation: string, request: MockRequest): Promise<T> {
+    const call = ++this.calls
+    const text = promptText(request)
+    const rule = this.config.rules.find(r => ruleMatches(r, operation, text))
+
+    await wait(rule?.latencyMs ?? this.config.latencyMs, request.signal)
+    if (request.signal?.aborted) return { ok: false, error: 'cancelled' } as T
+
+    if (this.config.failEvery > 0 && call % this.config.failEvery === 0) {
+      return { ok: false, error: `mock: injected failure on call ${call}` } as T
+    }
+
+    if (rule) {
+      if (rule.error) return { ok: false, error: rule.error } as T
+      return { ok: true, [RESULT_FIELDS[operation]]: rule.response ?? '' } as unknown as T
+    }
+
+    const entry = (await this.loadFixture()).get(await this.keyFor(operation, request))
+    if (entry) return entry.response as T
+
+    log.debug(`no fixture for ${operation}: ${text.slice(0, 80)}`)
+    return { ok: false, error: `mock: no fixture for ${operation}` } as T
+  }
+
+  async complete(request: AICompleteRequest): Promise<AICompleteResponse> {
+    return this.serve('complete', request)
+  }
+
+  // scripted rules answer in the json tool protocol, recorded turns come back as they were
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResponse> {
+    const result = await this.serve<AIToolResponse>('tools', request)
+    if (!result.ok || result.toolCalls) return result
+    return { ...result, ...parseToolReply(request, result.content || '') }
+  }
+
+  async summarize(request: AISummarizeRequest): Promise<AISummarizeResponse> {
+    return this.serve('summarize', request)
+  }
+
+  async translate(request: AITranslateRequest): Promise<AITranslateResponse> {
+    return this.serve('translate', request)
+  }
+
+  async detectLanguage(request: AIDetectLanguageRequest): Promise<AIDetectLanguageResponse> {
+    return this.serve('detectLanguage', request)
+  }
+
+  async write(request: AIWriteRequest): Promise<AIWriteResponse> {
+    return this.serve('write', request)
+  }
+
+  async rewrite(request: AIRewriteRequest): Promise<AIRewriteResponse> {
+    return this.serve('rewrite', request)
+  }
+}
+
+export const mockProvider = new MockProvider()
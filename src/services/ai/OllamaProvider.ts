@@ -5,8 +5,8 @@
  * adapter pattern: makes OllamaService compatible with AIProvider interface
  */
 
-import { AIProvider, type ProviderCapabilities, type ProviderName } from './AIProvider'
-import { OllamaService } from '../OllamaService'
+import { AIProvider, type ContextWindow, type ProviderCapabilities, type ProviderName } from './AIProvider'
+import { OllamaService, type OllamaToolMessage } from '../OllamaService'
 import type {
   AICompleteRequest,
   AICompleteResponse,
@@ -19,7 +19,10 @@ import type {
   AIWriteRequest,
   AIWriteResponse,
   AIRewriteRequest,
-  AIRewriteResponse
+  AIRewriteResponse,
+  AIStreamChunk,
+  AIToolRequest,
+  AIToolResponse
 } from '../../types/chrome-ai'
 
 export class OllamaProvider extends AIProvider {
@@ -66,12 +69,24 @@ export class OllamaProvider extends AIProvider {
     }
   }
 
+  async resolveModel(model?: string): Promise<string> {
+    return model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary') || 'default'
+  }
+
+  /**
+   * context size from /api/show for the model a request would use
+   */
+  async getContextWindow(model?: string): Promise<ContextWindow> {
+    const resolved = await this.resolveModel(model)
+    if (resolved === 'default') return super.getContextWindow()
+    return { inputTokens: await OllamaService.getContextLength(resolved), charsPerToken: 4 }
+  }
 
   async complete(request: AICompleteRequest): Promise<AICompleteResponse> {
     const start = performance.now()
 
     try {
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
+      const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
       if (!model) {
         return { ok: false, error: 'no ollama model available' }
       }
@@ -83,14 +98,16 @@ export class OllamaProvider extends AIProvider {
       
       // include chat history if provided (for multi-turn conversations)
       if (request.messages?.length) {
-        messages.push(...request.messages.slice(-6)) // last 6 messages for context
+        messages.push(...request.messages) // already trimmed to the context budget by the caller
       }
       
       // always add current user prompt as final message
       messages.push({ role: 'user', content: request.userPrompt })
 
       const result = await OllamaService.complete(model, messages, {
-        temperature: request.temperature ?? 0.5
+        temperature: request.temperature ?? 0.5,
+        format: request.responseConstraint,
+        signal: request.signal
       })
 
       if (!result.ok) {
@@ -110,11 +127,76 @@ export class OllamaProvider extends AIProvider {
     }
   }
 
+  async *completeStream(request: AICompleteRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
+    const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
+    if (!model) throw new Error('no ollama model available')
+
+    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+      { role: 'system', content: request.systemPrompt }
+    ]
+    if (request.messages?.length) {
+      messages.push(...request.messages)
+    }
+    messages.push({ role: 'user', content: request.userPrompt })
+
+    for await (const content of OllamaService.completeStream(model, messages, { temperature: request.temperature ?? 0.5, signal: request.signal })) {
+      yield { content, provider: 'ollama', model }
+    }
+  }
+
+  // native tool calls where the model supports them, the json protocol otherwise
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResponse> {
+    const start = performance.now()
+
+    try {
+      const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
+      if (!model) {
+        return { ok: false, error: 'no ollama model available' }
+      }
+
+      const profile = await OllamaService.getProfile(model)
+      if (!profile.capabilities.includes('tools')) {
+        return super.completeWithTools({ ...request, model })
+      }
+
+      const messages: OllamaToolMessage[] = [
+        { role: 'system', content: request.systemPrompt },
+        ...request.messages.map(m => ({
+          role: m.role,
+          content: m.content,
+          tool_calls: m.toolCalls?.map(c => ({ function: { name: c.name, arguments: c.arguments } })),
+          tool_name: m.toolName
+        }))
+      ]
+
+      const result = await OllamaService.completeWithTools(model, messages, request.tools, {
+        temperature: request.temperature ?? 0.3,
+        signal: request.signal
+      })
+
+      if (!result.ok) {
+        return { ok: false, error: result.error, provider: 'ollama' }
+      }
+
+      return {
+        ok: true,
+        content: result.content,
+        toolCalls: result.toolCalls,
+        provider: 'ollama',
+        model,
+        timing: Math.round(performance.now() - start)
+      }
+    } catch (err) {
+      console.error('[OllamaProvider.completeWithTools] error:', err)
+      return { ok: false, error: (err as Error).message, provider: 'ollama' }
+    }
+  }
+
   async summarize(request: AISummarizeRequest): Promise<AISummarizeResponse> {
     const start = performance.now()
 
     try {
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('page_summary')
+      const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('page_summary')
       if (!model) {
         return { ok: false, error: 'no ollama model available' }
       }
@@ -150,7 +232,7 @@ Rules:
       const result = await OllamaService.complete(model, [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
-      ], { temperature: 0.1 })
+      ], { temperature: 0.1, signal: request.signal })
 
       if (!result.ok) {
         return { ok: false, error: result.error, provider: 'ollama' }
@@ -242,7 +324,7 @@ Do not explain or add anything else.`
     const start = performance.now()
 
     try {
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
+      const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
       if (!model) {
         return { ok: false, error: 'no ollama model available' }
       }
@@ -268,7 +350,7 @@ Write clear, well-structured content.`
       const result = await OllamaService.complete(model, [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: request.prompt }
-      ], { temperature: 0.7 })
+      ], { temperature: 0.7, signal: request.signal })
 
       if (!result.ok) {
         return { ok: false, error: result.error, provider: 'ollama' }
@@ -290,7 +372,7 @@ Write clear, well-structured content.`
     const start = performance.now()
 
     try {
-      const model = await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
+      const model = request.model || await OllamaService.getUserSelected() || await OllamaService.selectBest('email_summary')
       if (!model) {
         return { ok: false, error: 'no ollama model available' }
       }
@@ -317,7 +399,7 @@ Only output the rewritten text.`
       const result = await OllamaService.complete(model, [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: request.text }
-      ], { temperature: 0.5 })
+      ], { temperature: 0.5, signal: request.signal })
 
       if (!result.ok) {
         return { ok: false, error: result.error, provider: 'ollama' }
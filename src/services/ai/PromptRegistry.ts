@@ -0,0 +1,166 @@
+// named prompt templates with user overrides from chrome.storage
+// overrides and prompt packs are plain templates, variables are filled at render time
+
+import { PROMPT_DEFINITIONS, type PromptDefinition, type PromptId, type PromptVariables } from './AIPrompts'
+import { storageService } from '../StorageService'
+import { logger } from '../LoggerService'
+
+const log = logger.createScoped('PromptRegistry')
+
+const PACK_FORMAT = 'metldr-prompt-pack'
+const PACK_VERSION = 1
+const VARIABLE_PATTERN = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g
+
+export interface PromptOverride {
+  template: string
+  basedOn: number  // default version the override was written against
+  updatedAt: number
+}
+
+export type PromptOverrideTable = Partial<Record<PromptId, PromptOverride>>
+
+export interface PromptPack {
+  format: typeof PACK_FORMAT
+  version: number
+  exportedAt: number
+  prompts: Partial<Record<PromptId, { template: string; basedOn: number }>>
+}
+
+export interface PromptCheck {
+  errors: string[]   // the override would break the feature
+  warnings: string[] // placeholders that won't be filled
+}
+
+export interface PromptImportResult {
+  imported: PromptId[]
+  skipped: string[]  // one line per prompt that was left alone, with the reason
+}
+
+export function isPromptId(value: unknown): value is PromptId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_DEFINITIONS, value)
+}
+
+// fills {name} placeholders, anything that isn't a declared variable is left as written
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  )
+}
+
+class PromptRegistryService {
+  definition(id: PromptId): PromptDefinition {
+    return PROMPT_DEFINITIONS[id] as PromptDefinition
+  }
+
+  ids(): PromptId[] {
+    return Object.keys(PROMPT_DEFINITIONS) as PromptId[]
+  }
+
+  async getOverrides(): Promise<PromptOverrideTable> {
+    return storageService.get<PromptOverrideTable>('promptOverrides', {})
+  }
+
+  // the user's template if there is one, the default otherwise
+  async getTemplate(id: PromptId): Promise<string> {
+    try {
+      const overrides = await this.getOverrides()
+      if (overrides[id]?.template) return overrides[id]!.template
+    } catch (err) {
+      log.warn('failed to read overrides', (err as Error).message)
+    }
+    return PROMPT_DEFINITIONS[id].template
+  }
+
+  async render<K extends PromptId>(id: K, variables: PromptVariables[K]): Promise<string> {
+    return renderTemplate(await this.getTemplate(id), variables as Record<string, string>)
+  }
+
+  check(id: PromptId, template: string): PromptCheck {
+    const { variables, required } = this.definition(id)
+    const used = new Set([...template.matchAll(VARIABLE_PATTERN)].map(m => m[1]))
+    return {
+      errors: required.filter(name => !used.has(name)).map(name => `{${name}} is missing`),
+      warnings: [...used].filter(name => !(name in variables)).map(name => `{${name}} is not a variable of this prompt`)
+    }
+  }
+
+  // saving the default text removes the override
+  async setOverride(id: PromptId, template: string): Promise<void> {
+    const { errors } = this.check(id, template)
+    if (errors.length) throw new Error(errors.join(', '))
+
+    const overrides = await this.getOverrides()
+    if (template === PROMPT_DEFINITIONS[id].template) {
+      delete overrides[id]
+    } else {
+      overrides[id] = { template, basedOn: PROMPT_DEFINITIONS[id].version, updatedAt: Date.now() }
+    }
+    await storageService.set('promptOverrides', overrides)
+  }
+
+  // one prompt, or every prompt when no id is given
+  async reset(id?: PromptId): Promise<void> {
+    if (!id) {
+      await storageService.set('promptOverrides', {})
+      return
+    }
+    const overrides = await this.getOverrides()
+    delete overrides[id]
+    await storageService.set('promptOverrides', overrides)
+  }
+
+  // the default changed since the override was written
+  isOutdated(id: PromptId, override: PromptOverride | undefined): boolean {
+    return !!override && override.basedOn < PROMPT_DEFINITIONS[id].version
+  }
+
+  async exportPack(): Promise<PromptPack> {
+    const overrides = await this.getOverrides()
+    const prompts: PromptPack['prompts'] = {}
+    for (const id of this.ids()) {
+      const override = overrides[id]
+      if (override) prompts[id] = { template: override.template, basedOn: override.basedOn }
+    }
+    return { format: PACK_FORMAT, version: PACK_VERSION, exportedAt: Date.now(), prompts }
+  }
+
+  // merges a pack over the current overrides; prompts that fail their check are skipped
+  async importPack(pack: unknown): Promise<PromptImportResult> {
+    if (!pack || typeof pack !== 'object') throw new Error('not a prompt pack')
+    const { format, version, prompts } = pack as Partial<PromptPack>
+    if (format !== PACK_FORMAT) throw new Error('not a prompt pack')
+    if (typeof version !== 'number' || version > PACK_VERSION) throw new Error(`unsupported prompt pack version ${version}`)
+    if (!prompts || typeof prompts !== 'object') throw new Error('prompt pack has no prompts')
+
+    const overrides = await this.getOverrides()
+    const result: PromptImportResult = { imported: [], skipped: [] }
+
+    for (const [id, entry] of Object.entries(prompts)) {
+      if (!isPromptId(id)) {
+        result.skipped.push(`${id}: unknown prompt`)
+        continue
+      }
+      if (typeof entry?.template !== 'string' || !entry.template.trim()) {
+        result.skipped.push(`${id}: empty template`)
+        continue
+      }
+      const { errors } = this.check(id, entry.template)
+      if (errors.length) {
+        result.skipped.push(`${id}: ${errors.join(', ')}`)
+        continue
+      }
+      overrides[id] = {
+        template: entry.template,
+        basedOn: typeof entry.basedOn === 'number' ? entry.basedOn : PROMPT_DEFINITIONS[id].version,
+        updatedAt: Date.now()
+      }
+      result.imported.push(id)
+    }
+
+    await storageService.set('promptOverrides', overrides)
+    log.log(`imported ${result.imported.length} prompts, skipped ${result.skipped.length}`)
+    return result
+  }
+}
+
+export const promptRegistry = new PromptRegistryService()
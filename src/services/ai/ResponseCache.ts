@@ -0,0 +1,139 @@
+// persistent cache of provider responses, keyed by a hash of everything that shapes the output
+// lives in the cache database so background, offscreen and side panel share it
+
+import { databaseService, DB_CONFIGS } from '../DatabaseService'
+import { storageService } from '../StorageService'
+import { logger } from '../LoggerService'
+
+const log = logger.createScoped('ResponseCache')
+
+const STORE = 'ai_responses'
+const MAX_ENTRIES = 2000
+const MAX_ENTRY_CHARS = 200_000       // very long answers aren't worth the space
+const TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const STATS_FLUSH_MS = 2000
+
+interface ResponseCacheEntry {
+  key: string
+  operation: string
+  provider: string
+  model: string
+  value: unknown
+  createdAt: number
+}
+
+export interface ResponseCacheStats {
+  hits: number
+  misses: number
+  entries: number
+}
+
+// request fields that never change the answer
+const IGNORED_FIELDS = new Set(['signal', 'bypassCache', 'feature'])
+
+// JSON with sorted keys, so equal requests hash equally
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null'
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([k, v]) => v !== undefined && !IGNORED_FIELDS.has(k))
+    .sort(([a], [b]) => a.localeCompare(b))
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+}
+
+class ResponseCacheService {
+  private pending = { hits: 0, misses: 0 }
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  async keyFor(operation: string, provider: string, model: string, request: object): Promise<string> {
+    const material = `${operation}|${provider}|${model}|${stableStringify(request)}`
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material))
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await databaseService.get<ResponseCacheEntry>(DB_CONFIGS.cache, STORE, key)
+      if (entry && Date.now() - entry.createdAt < TTL_MS) {
+        this.count('hits')
+        return entry.value as T
+      }
+      if (entry) this.delete(key).catch(() => {})
+    } catch (err) {
+      log.warn('get failed', (err as Error).message)
+    }
+    this.count('misses')
+    return null
+  }
+
+  async set(key: string, meta: { operation: string; provider: string; model: string }, value: unknown): Promise<void> {
+    try {
+      if (JSON.stringify(value).length > MAX_ENTRY_CHARS) return
+      await databaseService.put<ResponseCacheEntry>(DB_CONFIGS.cache, STORE, { key, ...meta, value, createdAt: Date.now() })
+      await this.prune()
+    } catch (err) {
+      log.warn('set failed', (err as Error).message)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await databaseService.delete(DB_CONFIGS.cache, STORE, key)
+  }
+
+  async clear(): Promise<void> {
+    await databaseService.clear(DB_CONFIGS.cache, STORE)
+    await storageService.set('aiCacheStats', { hits: 0, misses: 0 })
+    this.pending = { hits: 0, misses: 0 }
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    const [stored, entries] = await Promise.all([
+      storageService.get<{ hits: number; misses: number }>('aiCacheStats', { hits: 0, misses: 0 }),
+      databaseService.count(DB_CONFIGS.cache, STORE)
+    ])
+    return {
+      hits: stored.hits + this.pending.hits,
+      misses: stored.misses + this.pending.misses,
+      entries
+    }
+  }
+
+  // drops the oldest entries once the store is over its size limit
+  private async prune(): Promise<void> {
+    const total = await databaseService.count(DB_CONFIGS.cache, STORE)
+    let excess = total - MAX_ENTRIES
+    if (excess <= 0) return
+
+    await databaseService.transaction(DB_CONFIGS.cache, [STORE], 'readwrite', stores => new Promise<void>(resolve => {
+      const cursorRequest = stores[STORE].index('createdAt').openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || excess <= 0) return resolve()
+        cursor.delete()
+        excess--
+        cursor.continue()
+      }
+      cursorRequest.onerror = () => resolve()
+    }))
+    log.log(`pruned to ${MAX_ENTRIES} entries`)
+  }
+
+  // counters are batched, every hit or miss would otherwise be a storage write
+  private count(kind: 'hits' | 'misses'): void {
+    this.pending[kind]++
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flushStats().catch(() => {})
+    }, STATS_FLUSH_MS)
+  }
+
+  private async flushStats(): Promise<void> {
+    const delta = this.pending
+    this.pending = { hits: 0, misses: 0 }
+    const stored = await storageService.get<{ hits: number; misses: number }>('aiCacheStats', { hits: 0, misses: 0 })
+    await storageService.set('aiCacheStats', { hits: stored.hits + delta.hits, misses: stored.misses + delta.misses })
+  }
+}
+
+export const responseCache = new ResponseCacheService()
@@ -0,0 +1,77 @@
+// json parsing and schema checks for structured model output
+// covers the json schema subset the prompts use: type, enum, required, properties, items, min/maxItems
+
+import type { JsonSchema } from '../../types/chrome-ai'
+
+// first json value in a model reply, repairing the usual small-model mistakes
+// undefined when nothing parses
+export function parseJsonLoose(content: string): unknown {
+  const cleaned = content.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim()
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
+  if (!jsonMatch) return undefined
+
+  try {
+    return JSON.parse(jsonMatch[0])
+  } catch {
+    const fixed = jsonMatch[0]
+      .replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":') // quote unquoted keys
+      .replace(/:\s*'([^']*)'/g, ': "$1"') // replace single quotes with double
+      .replace(/,\s*([}\]])/g, '$1') // remove trailing commas
+
+    try {
+      return JSON.parse(fixed)
+    } catch {
+      return undefined
+    }
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+  const actual = typeOf(value)
+  return actual === expected || (expected === 'number' && actual === 'integer')
+}
+
+// problems found, one readable line each, empty when the value fits the schema
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(t => matchesType(value, t))) {
+      return [`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`]
+    }
+  }
+
+  const issues: string[] = []
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    issues.push(`${path} should be one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${path} needs at least ${schema.minItems} items, got ${value.length}`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push(`${path} allows at most ${schema.maxItems} items, got ${value.length}`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`)))
+    }
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) issues.push(`${path}.${key} is required`)
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) issues.push(...validateSchema(record[key], propSchema, `${path}.${key}`))
+    }
+  }
+
+  return issues
+}
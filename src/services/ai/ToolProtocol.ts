@@ -0,0 +1,81 @@
+// tool calls for providers without native tool calling: the tools are described in the
+// system prompt and the model replies with one json action, constrained where the provider
+// supports responseConstraint (gemini nano) and parsed loosely everywhere else
+
+import { parseJsonLoose } from './StructuredOutput'
+import type { AICompleteRequest, AIToolCall, AIToolMessage, AIToolRequest, JsonSchema } from '../../types/chrome-ai'
+
+const ANSWER_ACTION = 'answer'
+
+interface ToolReply {
+  action?: string
+  arguments?: Record<string, unknown>
+  answer?: string
+}
+
+function replySchema(request: AIToolRequest): JsonSchema {
+  return {
+    type: 'object',
+    required: ['action'],
+    properties: {
+      action: { type: 'string', enum: [ANSWER_ACTION, ...request.tools.map(t => t.name)] },
+      arguments: { type: 'object', description: 'arguments for the tool, omitted when answering' },
+      answer: { type: 'string', description: 'the reply to the user, only when action is "answer"' }
+    }
+  }
+}
+
+function describeTools(request: AIToolRequest): string {
+  const lines = request.tools.map(tool => {
+    const params = Object.entries(tool.parameters.properties || {})
+      .map(([name, schema]) => `${name}${tool.parameters.required?.includes(name) ? '' : '?'}: ${schema.description || schema.type}`)
+      .join(', ')
+    return `- ${tool.name}(${params}): ${tool.description}`
+  })
+  return `TOOLS
+You may call one tool per reply when you need information you don't have:
+${lines.join('\n')}
+
+Reply with JSON only.
+To call a tool: {"action": "<tool name>", "arguments": {...}}
+To answer the user: {"action": "${ANSWER_ACTION}", "answer": "<your reply>"}`
+}
+
+function renderToolMessage(message: AIToolMessage): string {
+  if (message.role === 'tool') return `TOOL RESULT (${message.toolName}):\n${message.content}`
+  const calls = (message.toolCalls || []).map(c => `TOOL CALL ${c.name} ${JSON.stringify(c.arguments)}`)
+  return [message.content, ...calls].filter(Boolean).join('\n')
+}
+
+// history before the last user message stays chat history, the user message and
+// any tool exchanges after it become the prompt
+export function toolPromptRequest(request: AIToolRequest): AICompleteRequest {
+  const lastUser = request.messages.map(m => m.role).lastIndexOf('user')
+  const history = request.messages.slice(0, Math.max(lastUser, 0))
+    .filter((m): m is AIToolMessage & { role: 'user' | 'assistant' } => m.role !== 'tool' && !m.toolCalls?.length)
+    .map(m => ({ role: m.role, content: m.content }))
+  const turn = request.messages.slice(Math.max(lastUser, 0))
+  const userPrompt = turn.map(m => (m.role === 'user' ? m.content : renderToolMessage(m))).join('\n\n')
+
+  const base = {
+    feature: request.feature,
+    signal: request.signal,
+    bypassCache: request.bypassCache,
+    messages: history,
+    userPrompt,
+    temperature: request.temperature
+  }
+  if (!request.tools.length) return { ...base, systemPrompt: request.systemPrompt }
+  return { ...base, systemPrompt: `${request.systemPrompt}\n\n${describeTools(request)}`, responseConstraint: replySchema(request) }
+}
+
+// a reply that isn't a tool action is taken as the answer itself
+export function parseToolReply(request: AIToolRequest, content: string): { content?: string; toolCalls?: AIToolCall[] } {
+  if (!request.tools.length) return { content }
+  const reply = parseJsonLoose(content) as ToolReply | undefined
+  if (!reply || typeof reply !== 'object' || typeof reply.action !== 'string') return { content }
+  if (reply.action === ANSWER_ACTION) return { content: typeof reply.answer === 'string' ? reply.answer : content }
+  if (!request.tools.some(t => t.name === reply.action)) return { content: reply.answer || content }
+  const args = reply.arguments && typeof reply.arguments === 'object' ? reply.arguments : {}
+  return { toolCalls: [{ name: reply.action, arguments: args }] }
+}
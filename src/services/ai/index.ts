@@ -1,10 +1,18 @@
-export { AIProvider, NullProvider, type ProviderCapabilities, type ProviderName } from './AIProvider'
+export { AIProvider, NullProvider, DEFAULT_CONTEXT_WINDOW, type ProviderCapabilities, type ProviderName, type ContextWindow } from './AIProvider'
+export { contextBudget, type BudgetRequest, type BudgetAllocation } from './ContextBudget'
 export { ChromeAIProvider, chromeAIProvider } from './ChromeAIProvider'
 export { OllamaProvider, ollamaProvider } from './OllamaProvider'
+export { OpenAICompatProvider, openAICompatProvider } from './OpenAICompatProvider'
+export { BrowserModelProvider, browserModelProvider } from './BrowserModelProvider'
 export { localModels } from './LocalModelProvider'
-export { aiGateway } from './AIGateway'
+export { MockProvider, mockProvider, isMockFixture, DEFAULT_MOCK_CONFIG, type MockMode, type MockRule, type MockConfig, type MockFixture, type MockFixtureEntry } from './MockProvider'
+export { aiGateway, isProviderPreference, type AIProviderPreference } from './AIGateway'
 export { mapReduceService } from './MapReduceService'
-export { AIPrompts, type EmailContext, type PageChatContext } from './AIPrompts'
+export { parseJsonLoose, validateSchema } from './StructuredOutput'
+export { toolPromptRequest, parseToolReply } from './ToolProtocol'
+export { responseCache, type ResponseCacheStats } from './ResponseCache'
+export { PROMPT_DEFINITIONS, replyPromptContext, type PromptId, type PromptVariables, type PromptDefinition } from './AIPrompts'
+export { promptRegistry, renderTemplate, isPromptId, type PromptOverride, type PromptOverrideTable, type PromptPack, type PromptCheck, type PromptImportResult } from './PromptRegistry'
 
 export type {
   AICompleteRequest,
@@ -19,6 +27,14 @@ export type {
   AIWriteResponse,
   AIRewriteRequest,
   AIRewriteResponse,
+  AIStructuredResponse,
+  AIStructuredErrorKind,
+  AIToolDefinition,
+  AIToolCall,
+  AIToolMessage,
+  AIToolRequest,
+  AIToolResponse,
+  JsonSchema,
   ChromeAIAvailability,
   ChromeAICapabilities
 } from '../../types/chrome-ai'
@@ -124,12 +124,17 @@ export class PdfService {
   }
 
   // summarize from ArrayBuffer (file picker/drag-drop)
-  async summarizeFromArrayBuffer(data: ArrayBuffer, filename?: string, sourceUrl?: string): Promise<{ summary: string; fullText: string }> {
+  // createdAt is the pdf's own creation date, when its metadata has one
+  async summarizeFromArrayBuffer(data: ArrayBuffer, filename?: string, sourceUrl?: string): Promise<{ summary: string; fullText: string; createdAt?: number }> {
     try {
       console.log('[PdfService] Processing PDF from ArrayBuffer...')
       
       const pdfBytes = new Uint8Array(data)
-      const pdf = await getDocumentProxy(pdfBytes)
+      const [pdf, metadata] = await Promise.all([
+        getDocumentProxy(pdfBytes),
+        pdfOutlineExtractor.extractMetadata(pdfBytes)
+      ])
+      const createdAt = metadata.creationDate?.getTime()
       
       console.log(`[PdfService] PDF loaded. Pages: ${pdf.numPages}`)
       
@@ -144,10 +149,11 @@ export class PdfService {
         sourceId: pdfUrl,
         sourceUrl: pdfUrl,
         sourceType: 'pdf',
-        title: filename || 'PDF Document'
+        title: filename || 'PDF Document',
+        createdAt
       }).catch(err => console.warn('[PdfService] Summary indexing failed:', err))
       
-      return { summary, fullText: text }
+      return { summary, fullText: text, createdAt }
     } catch (err) {
       console.error('[PdfService] Failed to summarize PDF from ArrayBuffer:', err)
       throw err
@@ -0,0 +1,131 @@
+import { ANALYZER_VERSION, detectLanguage, isStopword, stem, words, type Language } from './TextAnalyzer'
+
+// a document's stemmed terms as [term, title tf, body tf], plain data so it can be persisted
+export interface AnalyzedDoc {
+  version: number
+  lang: Language
+  terms: Array<[string, number, number]>
+  lengths: [number, number] // title and body terms after stopwords
+}
+
+const K1 = 1.2
+const B = 0.75
+const FIELD_BOOSTS: [number, number] = [2, 1] // title, body
+
+export function analyzeDoc(body: string, title = ''): AnalyzedDoc {
+  const bodyWords = words(body)
+  const titleWords = words(title)
+  const lang = detectLanguage(bodyWords.length ? bodyWords : titleWords)
+  const counts = new Map<string, [number, number]>()
+  const lengths: [number, number] = [0, 0]
+
+  const count = (list: string[], field: 0 | 1) => {
+    for (const word of list) {
+      if (isStopword(word, lang)) continue
+      const term = stem(word, lang)
+      const tf = counts.get(term) || [0, 0]
+      tf[field]++
+      counts.set(term, tf)
+      lengths[field]++
+    }
+  }
+  count(titleWords, 0)
+  count(bodyWords, 1)
+
+  return { version: ANALYZER_VERSION, lang, terms: Array.from(counts, ([term, [t, b]]) => [term, t, b]), lengths }
+}
+
+export const isCurrentAnalysis = (doc?: AnalyzedDoc | null): doc is AnalyzedDoc => doc?.version === ANALYZER_VERSION
+
+// bm25f over a title and a body field. documents are stemmed in their own language, so each
+// query word is tried with the stemmer of every language the index holds and keeps its best match
+export class Bm25Index<K> {
+  private postings = new Map<string, Map<K, [number, number]>>()
+  private docs = new Map<K, AnalyzedDoc>()
+  private totals: [number, number] = [0, 0]
+  private languages = new Map<Language, number>()
+
+  add(key: K, doc: AnalyzedDoc): void {
+    this.remove(key)
+    this.docs.set(key, doc)
+    for (const [term, title, body] of doc.terms) {
+      if (!this.postings.has(term)) this.postings.set(term, new Map())
+      this.postings.get(term)!.set(key, [title, body])
+    }
+    this.totals[0] += doc.lengths[0]
+    this.totals[1] += doc.lengths[1]
+    this.languages.set(doc.lang, (this.languages.get(doc.lang) || 0) + 1)
+  }
+
+  remove(key: K): void {
+    const doc = this.docs.get(key)
+    if (!doc) return
+    this.docs.delete(key)
+    for (const [term] of doc.terms) {
+      const keys = this.postings.get(term)
+      if (!keys) continue
+      keys.delete(key)
+      if (keys.size === 0) this.postings.delete(term)
+    }
+    this.totals[0] -= doc.lengths[0]
+    this.totals[1] -= doc.lengths[1]
+    const left = (this.languages.get(doc.lang) || 1) - 1
+    if (left > 0) this.languages.set(doc.lang, left)
+    else this.languages.delete(doc.lang)
+  }
+
+  has(key: K): boolean {
+    return this.docs.has(key)
+  }
+
+  get size(): number {
+    return this.docs.size
+  }
+
+  clear(): void {
+    this.postings.clear()
+    this.docs.clear()
+    this.totals = [0, 0]
+    this.languages.clear()
+  }
+
+  search(query: string, limit: number, keep?: (key: K) => boolean): Array<{ key: K; score: number }> {
+    const n = this.docs.size
+    if (n === 0) return []
+    const avg: [number, number] = [this.totals[0] / n || 1, this.totals[1] / n || 1]
+
+    const scores = new Map<K, number>()
+    for (const variants of this.queryTerms(query)) {
+      const best = new Map<K, number>()
+      for (const term of variants) {
+        const keys = this.postings.get(term)
+        if (!keys) continue
+        const idf = Math.log(1 + (n - keys.size + 0.5) / (keys.size + 0.5))
+        for (const [key, tf] of keys) {
+          if (keep && !keep(key)) continue
+          const lengths = this.docs.get(key)!.lengths
+          let weighted = 0
+          for (const field of [0, 1] as const) {
+            weighted += FIELD_BOOSTS[field] * tf[field] / (1 - B + B * lengths[field] / avg[field])
+          }
+          const score = idf * weighted / (K1 + weighted)
+          if (score > (best.get(key) || 0)) best.set(key, score)
+        }
+      }
+      for (const [key, score] of best) scores.set(key, (scores.get(key) || 0) + score)
+    }
+
+    return Array.from(scores, ([key, score]) => ({ key, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  // stopwords are dropped in the query's own language, unless nothing else is left
+  private queryTerms(query: string): Array<Set<string>> {
+    const all = Array.from(new Set(words(query)))
+    const lang = detectLanguage(all)
+    const kept = all.filter(word => !isStopword(word, lang))
+    const langs = new Set<Language>([lang, ...this.languages.keys()])
+    return (kept.length ? kept : all).map(word => new Set([word, ...Array.from(langs, l => stem(word, l))]))
+  }
+}
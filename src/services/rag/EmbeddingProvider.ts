@@ -1,4 +1,8 @@
 import { localModels } from '../ai/LocalModelProvider'
+import { storageService } from '../StorageService'
+import { VectorPrefs } from '../../utils/vectorStorage'
+import { EMBEDDING_MODELS, DEFAULT_EMBEDDING_MODEL, embeddingSignature, embeddingModelFor, isEmbeddingModelId, type EmbeddingModelConfig } from '../../types/local-models'
+import type { EmbeddingSignature, VectorStorageSettings } from '../../types'
 
 interface EmbeddingStats {
   attempts: number
@@ -10,8 +14,33 @@ export class EmbeddingProvider {
   private readonly maxRetries = 5
   private readonly baseDelayMs = 500
   private lastStats: EmbeddingStats | null = null
+  private modelLoaded: Promise<void> | null = null
+
+  // the selected model is read from settings once, the vector store reloads it on changes
+  ready(): Promise<void> {
+    this.modelLoaded ??= this.loadModel()
+    return this.modelLoaded
+  }
+
+  // read past the storage cache, this runs right after the settings change
+  async loadModel(): Promise<void> {
+    const stored = await storageService.getMultiple<{ embeddingModel: string; vectorStorage: Partial<VectorStorageSettings> }>(['embeddingModel', 'vectorStorage'])
+    const id = isEmbeddingModelId(stored.embeddingModel) ? stored.embeddingModel : DEFAULT_EMBEDDING_MODEL
+    this.modelLoaded ??= Promise.resolve()
+    localModels.setEmbeddingModel(VectorPrefs.withDims(EMBEDDING_MODELS[id], VectorPrefs.normalize(stored.vectorStorage)))
+  }
+
+  get model(): EmbeddingModelConfig {
+    return localModels.embeddingModel
+  }
+
+  // what vectors embedded right now are stamped with
+  get signature(): EmbeddingSignature {
+    return embeddingSignature(localModels.embeddingModel)
+  }
 
   async embed(text: string, isQuery = false): Promise<Float32Array> {
+    await this.ready()
     const startTime = Date.now()
     let lastError: Error | null = null
     let attempts = 0
@@ -71,11 +100,18 @@ export class EmbeddingProvider {
     return this.embed(text, true)
   }
 
+  // a query for an index built with another model, null when that model is unknown here
+  async embedQueryAs(signature: EmbeddingSignature, text: string): Promise<Float32Array | null> {
+    const model = embeddingModelFor(signature)
+    return model ? new Float32Array(await localModels.embed(text, true, model)) : null
+  }
+
   async embedDocument(text: string): Promise<Float32Array> {
     return this.embed(text, false)
   }
 
   async embedBatch(texts: string[], isQuery = false): Promise<Float32Array[]> {
+    await this.ready()
     const startTime = Date.now()
     try {
       const embeddings = await localModels.embedBatch(texts, isQuery)
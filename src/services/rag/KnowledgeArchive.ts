@@ -0,0 +1,278 @@
+import { vectorStore } from './VectorStore'
+import { embeddingProvider } from './EmbeddingProvider'
+import { ragService, type RagMetadataEntry } from './RagService'
+import { databaseService, DB_CONFIGS } from '../DatabaseService'
+import { cacheService, type TabSessionEntry } from '../CacheService'
+import { LEGACY_EMBEDDING_SIGNATURE, sameEmbedding } from '../../types/local-models'
+import type { EmailSession, EmbeddingSignature, RagDeleteFilter, RagImportMode, RagImportResult, VectorEntry, VectorEntryMeta } from '../../types'
+
+// the whole knowledge base, or a filtered part of it, as one json file: chunks with their
+// vectors, rag metadata, page/email summaries and the chats attached to them. the file
+// crosses to the side panel in parts over STREAM_PORTS.ARCHIVE
+
+const ARCHIVE_FORMAT = 'metldr-knowledge-base'
+const ARCHIVE_VERSION = 1
+const STORE_RAG_METADATA = 'rag_metadata'
+const STORE_PAGE_CACHE = 'page_cache'
+const STORE_EMAIL_SESSIONS = 'email_sessions'
+const STORE_TAB_SESSIONS = 'tab_sessions'
+const GLOBAL_CHAT_KEY = 'global_chat_state' // GlobalSearch keeps its thread in chrome.storage.local
+const REEMBED_BATCH = 8
+
+export interface KnowledgeArchiveDocument {
+  entry: VectorEntry
+  embedding?: string // base64 float32, missing for chunks indexed before vectors were kept
+}
+
+export interface KnowledgeArchivePageSummary {
+  url: string
+  summary: unknown
+  timestamp: number
+}
+
+export interface KnowledgeArchive {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: number
+  embedding: EmbeddingSignature // default for documents without their own stamp
+  filter?: RagDeleteFilter
+  documents: KnowledgeArchiveDocument[]
+  metadata: RagMetadataEntry[]
+  pageSummaries: KnowledgeArchivePageSummary[]
+  emailSessions: EmailSession[]
+  tabSessions: TabSessionEntry[]
+  globalChat?: unknown // full exports only
+  checksum: string     // sha-256 of the archive without this field
+}
+
+interface StoredPageSummary {
+  url: string
+  summary?: unknown
+  timestamp?: number
+}
+
+function encodeVector(vector: Float32Array): string {
+  const bytes = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function decodeVector(encoded: string): Float32Array | null {
+  try {
+    const binary = atob(encoded)
+    if (binary.length % 4 !== 0) return null
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return new Float32Array(bytes.buffer)
+  } catch {
+    return null
+  }
+}
+
+async function checksumOf(archive: Omit<KnowledgeArchive, 'checksum'>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(archive)))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function matchesFilter(entry: VectorEntryMeta, filter?: RagDeleteFilter): boolean {
+  if (!filter) return true
+  const type = entry.type === 'page' ? 'article' : entry.type
+  return (!filter.sourceType || type === filter.sourceType) &&
+    (!filter.urlPrefix || String(entry.metadata?.sourceUrl || '').startsWith(filter.urlPrefix)) &&
+    (filter.olderThan === undefined || entry.timestamp < filter.olderThan)
+}
+
+// chunks and the index record share page_cache with the summaries
+const isSummaryKey = (url: string) => !url.startsWith('rag:') && !url.startsWith('system:')
+
+// summaries read one by one by key, so chunk documents never load
+async function readPageSummaries(): Promise<StoredPageSummary[]> {
+  const keys = (await databaseService.getAllKeys(DB_CONFIGS.cache, STORE_PAGE_CACHE)).filter(isSummaryKey)
+  const records = await Promise.all(keys.map(url => databaseService.get<StoredPageSummary>(DB_CONFIGS.cache, STORE_PAGE_CACHE, url)))
+  return records.filter((r): r is StoredPageSummary => !!r && r.summary !== undefined)
+}
+
+// summaries are stored under ":summary" ids but belong to the source they summarize
+function baseSourceId(sourceId: string): string {
+  return sourceId.replace(/:summary$/, '')
+}
+
+function sourceIdOf(entry: VectorEntryMeta): string {
+  return baseSourceId(String(entry.metadata?.sourceId || entry.id))
+}
+
+function isArchive(value: unknown): value is KnowledgeArchive {
+  const archive = value as Partial<KnowledgeArchive> | null
+  return !!archive && archive.format === ARCHIVE_FORMAT &&
+    typeof archive.embedding?.model === 'string' && typeof archive.embedding.dims === 'number' &&
+    Array.isArray(archive.documents) && Array.isArray(archive.metadata) &&
+    Array.isArray(archive.pageSummaries) && Array.isArray(archive.emailSessions) && Array.isArray(archive.tabSessions)
+}
+
+export class KnowledgeArchiveService {
+  async export(filter?: RagDeleteFilter): Promise<KnowledgeArchive> {
+    const entries = await vectorStore.withContent(await vectorStore.entriesWhere(e => matchesFilter(e, filter)))
+    const vectors = await vectorStore.embeddingsFor(entries)
+    const documents = entries.map(entry => {
+      const vector = vectors.get(entry.id)
+      return vector ? { entry, embedding: encodeVector(vector) } : { entry }
+    })
+
+    const sourceIds = new Set(entries.map(e => String(e.metadata?.sourceId || e.id)))
+    const urls = new Set(entries.map(e => String(e.metadata?.sourceUrl || '')).filter(Boolean))
+    const emailIds = new Set(entries.filter(e => e.type === 'email').map(sourceIdOf))
+    const keep = <T>(items: T[], key: (item: T) => boolean) => (filter ? items.filter(key) : items)
+
+    const [metadata, stored, emailSessions, tabSessions] = await Promise.all([
+      databaseService.getAll<RagMetadataEntry>(DB_CONFIGS.cache, STORE_RAG_METADATA),
+      readPageSummaries(),
+      cacheService.getAllEmailSessions(),
+      cacheService.getAllTabSessions()
+    ])
+    const pageSummaries = stored.map(p => ({ url: p.url, summary: p.summary, timestamp: p.timestamp || 0 }))
+
+    const body: Omit<KnowledgeArchive, 'checksum'> = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      embedding: embeddingProvider.signature,
+      ...(filter && { filter }),
+      documents,
+      metadata: keep(metadata, m => sourceIds.has(m.sourceId)),
+      pageSummaries: keep(pageSummaries, p => urls.has(p.url)),
+      emailSessions: keep(emailSessions, s => emailIds.has(s.emailId)),
+      tabSessions: keep(tabSessions, s => urls.has(s.url))
+    }
+    if (!filter) {
+      const stored = await chrome.storage.local.get(GLOBAL_CHAT_KEY)
+      if (stored[GLOBAL_CHAT_KEY]) body.globalChat = stored[GLOBAL_CHAT_KEY]
+    }
+
+    const archive = { ...body, checksum: await checksumOf(body) }
+    console.log(`[KnowledgeArchive] Exported ${documents.length} chunks from ${new Set(entries.map(sourceIdOf)).size} sources`)
+    return archive
+  }
+
+  async import(value: unknown, mode: RagImportMode): Promise<RagImportResult> {
+    const archive = await this.verify(value)
+    const archived = { ...LEGACY_EMBEDDING_SIGNATURE, ...archive.embedding }
+    const compatible = (doc: KnowledgeArchiveDocument) => sameEmbedding(doc.entry.embedder || archived, embeddingProvider.signature)
+
+    // sources travel whole: a newer local copy keeps all of its chunks
+    const bySource = new Map<string, KnowledgeArchiveDocument[]>()
+    for (const doc of archive.documents) {
+      const id = sourceIdOf(doc.entry)
+      if (!bySource.has(id)) bySource.set(id, [])
+      bySource.get(id)!.push(doc)
+    }
+
+    let skipped = 0
+    if (mode === 'merge') {
+      const local = new Map<string, number>()
+      for (const entry of await vectorStore.entriesWhere(() => true)) {
+        const id = sourceIdOf(entry)
+        local.set(id, Math.max(local.get(id) || 0, entry.timestamp))
+      }
+      for (const [id, docs] of bySource) {
+        const incoming = Math.max(...docs.map(d => d.entry.timestamp))
+        if ((local.get(id) ?? -1) >= incoming) {
+          bySource.delete(id)
+          skipped++
+        }
+      }
+    }
+
+    // everything is embedded before local data goes, so a failed re-embed changes nothing
+    const docs = Array.from(bySource.values()).flat()
+    const items: Array<{ entry: VectorEntry; embedding: Float32Array }> = []
+    const pending: VectorEntry[] = []
+    for (const doc of docs) {
+      const vector = compatible(doc) && doc.embedding ? decodeVector(doc.embedding) : null
+      if (vector) items.push({ entry: doc.entry, embedding: vector })
+      else pending.push(doc.entry)
+    }
+    for (let i = 0; i < pending.length; i += REEMBED_BATCH) {
+      const batch = pending.slice(i, i + REEMBED_BATCH)
+      const embeddings = await embeddingProvider.embedBatch(batch.map(e => e.content), false)
+      batch.forEach((entry, j) => items.push({ entry, embedding: embeddings[j] }))
+    }
+
+    if (mode === 'replace') {
+      await this.clearLocal()
+    } else {
+      const replacing = new Set(bySource.keys())
+      await vectorStore.removeWhere(e => replacing.has(sourceIdOf(e)))
+    }
+    if (items.length) await vectorStore.addBatch(items)
+
+    const imported = new Set(bySource.keys())
+    await databaseService.putBatch(DB_CONFIGS.cache, STORE_RAG_METADATA, archive.metadata.filter(m => imported.has(baseSourceId(m.sourceId))))
+    await this.importSummariesAndChats(archive, mode)
+    ragService.reloadMetadata()
+
+    const result = { sources: imported.size, chunks: items.length, reembedded: pending.length, skipped }
+    console.log(`[KnowledgeArchive] Imported (${mode}):`, result)
+    return result
+  }
+
+  // structure, version, checksum and vector sizes; a file that fails any of them loads nothing
+  private async verify(value: unknown): Promise<KnowledgeArchive> {
+    if (!isArchive(value)) throw new Error('not a knowledge base archive')
+    if (value.version > ARCHIVE_VERSION) throw new Error(`unsupported archive version ${value.version}`)
+
+    const { checksum, ...body } = value
+    if (!checksum || checksum !== await checksumOf(body)) throw new Error('archive checksum mismatch, the file is damaged or was edited')
+
+    for (const doc of value.documents) {
+      const entry = doc?.entry
+      if (!entry || typeof entry.id !== 'string' || typeof entry.content !== 'string' || typeof entry.timestamp !== 'number') {
+        throw new Error('archive has a malformed document')
+      }
+      const dims = (entry.embedder || value.embedding).dims
+      if (doc.embedding !== undefined && decodeVector(doc.embedding)?.length !== dims) {
+        throw new Error(`archive vector for ${entry.id} doesn't match its ${dims} dims`)
+      }
+    }
+    return value
+  }
+
+  private async clearLocal(): Promise<void> {
+    await vectorStore.clear()
+    for (const record of await readPageSummaries()) {
+      await databaseService.delete(DB_CONFIGS.cache, STORE_PAGE_CACHE, record.url)
+    }
+    await Promise.all([
+      databaseService.clear(DB_CONFIGS.cache, STORE_RAG_METADATA),
+      databaseService.clear(DB_CONFIGS.cache, STORE_EMAIL_SESSIONS),
+      databaseService.clear(DB_CONFIGS.cache, STORE_TAB_SESSIONS)
+    ])
+  }
+
+  // on merge a summary or chat already here wins unless the archive's copy is newer
+  private async importSummariesAndChats(archive: KnowledgeArchive, mode: RagImportMode): Promise<void> {
+    const merge = mode === 'merge'
+    const newer = <T extends { timestamp?: number }>(local: T | null, incoming: T) =>
+      !merge || !local || (local.timestamp || 0) < (incoming.timestamp || 0)
+
+    for (const page of archive.pageSummaries) {
+      const local = await databaseService.get<StoredPageSummary>(DB_CONFIGS.cache, STORE_PAGE_CACHE, page.url)
+      if (newer(local, page)) await cacheService.setPageSummary(page.url, page.summary)
+    }
+    for (const session of archive.emailSessions) {
+      const local = await cacheService.getEmailSession(session.emailId)
+      if (newer(local, session)) await databaseService.put(DB_CONFIGS.cache, STORE_EMAIL_SESSIONS, session)
+    }
+    for (const session of archive.tabSessions) {
+      const local = await cacheService.getTabSession(session.url)
+      if (newer(local, session)) await databaseService.put(DB_CONFIGS.cache, STORE_TAB_SESSIONS, session)
+    }
+
+    if (archive.globalChat) {
+      const stored = await chrome.storage.local.get(GLOBAL_CHAT_KEY)
+      if (!merge || !stored[GLOBAL_CHAT_KEY]) await chrome.storage.local.set({ [GLOBAL_CHAT_KEY]: archive.globalChat })
+    }
+  }
+}
+
+export const knowledgeArchive = new KnowledgeArchiveService()
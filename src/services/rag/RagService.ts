@@ -3,17 +3,21 @@ import { embeddingProvider } from './EmbeddingProvider'
 import { chunkingService } from './ChunkingService'
 import { databaseService, DB_CONFIGS } from '../DatabaseService'
 import { aiGateway } from '../ai/AIGateway'
+import { promptRegistry } from '../ai/PromptRegistry'
+import { searchFilterKey } from './SearchFilter'
 import { LRUCache } from 'lru-cache'
-import type { VectorEntry, SearchResult } from '../../types'
+import type { VectorEntry, VectorEntryMeta, SearchResult, RagDeleteFilter, RagDeleteResult, RagSearchFilter, RagSourceInfo, RagSourceChunk } from '../../types'
 
 interface ChunkMetadata {
   sourceId: string
   sourceUrl: string
   sourceType: 'article' | 'email' | 'pdf'
   title?: string
+  tags?: string[] // matched by search filters
+  createdAt?: number | string | null // the source's own date: published, sent or created
 }
 
-interface RagMetadataEntry {
+export interface RagMetadataEntry {
   sourceId: string
   contentHash: string
   chunkCount: number
@@ -35,6 +39,12 @@ const STORE_RAG_METADATA = 'rag_metadata'
 const QUERY_CACHE_MAX = 100
 const QUERY_CACHE_TTL = 5 * 60 * 1000
 
+// a source date as epoch ms, unparseable or missing ones give undefined
+function dateOf(value: unknown): number | undefined {
+  const time = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN
+  return Number.isFinite(time) && time > 0 ? time : undefined
+}
+
 function simHash(text: string): bigint {
   const tokens = text.toLowerCase().split(/\s+/).filter(t => t.length > 2)
   const v = new Int32Array(64).fill(0)
@@ -126,6 +136,17 @@ export class RagService {
     }
   }
 
+  private async forgetMetadata(sourceIds: string[]): Promise<void> {
+    for (const sourceId of sourceIds) {
+      this.contentHashes.delete(sourceId)
+      try {
+        await databaseService.delete(DB_CONFIGS.cache, STORE_RAG_METADATA, sourceId)
+      } catch (err) {
+        console.error('[RagService] Failed to delete metadata:', err)
+      }
+    }
+  }
+
   async index(entry: VectorEntry): Promise<void> {
     const startTime = Date.now()
     try {
@@ -225,6 +246,14 @@ export class RagService {
         return
       }
       
+      // chunk ids are positional, so old chunks of this source go before the new ones land
+      const stale = await vectorStore.removeWhere(e => e.metadata?.sourceId === metadata.sourceId)
+      if (stale.length) console.log(`[RagService] Removed ${stale.length} stale chunks for ${metadata.sourceId.slice(0, 50)}`)
+
+      // date filters match on this; a source without its own date keeps the one it was first indexed with
+      const now = Date.now()
+      const createdAt = dateOf(metadata.createdAt) ?? Math.min(now, ...stale.map(e => dateOf(e.metadata?.createdAt) ?? e.timestamp))
+
       report(20) // chunks ready
       stats.chunkCount = chunks.length
       console.log(`[RagService] INDEXING: ${chunks.length} chunks for ${metadata.sourceId.slice(0, 50)}`)
@@ -239,9 +268,11 @@ export class RagService {
           sourceUrl: metadata.sourceUrl,
           title: metadata.title || '',
           chunkIndex: chunk.index,
-          totalChunks: chunks.length
+          totalChunks: chunks.length,
+          createdAt,
+          ...(metadata.tags?.length && { tags: metadata.tags })
         },
-        timestamp: Date.now()
+        timestamp: now
       }))
 
       // embed and store with progress (20% -> 90%)
@@ -334,9 +365,25 @@ export class RagService {
     }
   }
 
-  async search(query: string, limit = 5): Promise<SearchResult[]> {
+  // vectors only, nothing is stored, so a failure part way leaves the index as it was
+  private async embedBatchedWithProgress(
+    entries: VectorEntry[],
+    batchSize: number,
+    onBatchProgress?: (percent: number) => void
+  ): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = []
+    for (let i = 0; i < entries.length; i += batchSize) {
+      const batch = entries.slice(i, i + batchSize)
+      embeddings.push(...await embeddingProvider.embedBatch(batch.map(e => e.content), false))
+      onBatchProgress?.(Math.round((Math.min(i + batchSize, entries.length) / entries.length) * 100))
+    }
+    return embeddings
+  }
+
+  // the filter applies inside both retrievals, so a narrow filter still fills the limit
+  async search(query: string, limit = 5, filter?: RagSearchFilter): Promise<SearchResult[]> {
     // check LRU cache first (instant repeat queries)
-    const cacheKey = `${query}:${limit}`
+    const cacheKey = `${query}:${limit}:${searchFilterKey(filter)}`
     const cached = this.queryCache.get(cacheKey)
     if (cached) {
       console.log('[RagService] Query cache hit')
@@ -351,8 +398,8 @@ export class RagService {
       // 2. parallel retrieval
       const queryEmbedding = await embeddingProvider.embedQuery(processed)
       const [vectorResults, keywordResults] = await Promise.all([
-        vectorStore.search(Array.from(queryEmbedding), limit * 5),
-        vectorStore.searchKeyword(processed, limit * 5)
+        vectorStore.search(Array.from(queryEmbedding), limit * 5, filter, processed),
+        vectorStore.searchKeyword(processed, limit * 5, filter)
       ])
       
       // 3. RRF fusion with adaptive weights
@@ -397,13 +444,9 @@ export class RagService {
 
     try {
       const response = await aiGateway.complete({
-        systemPrompt: `You are a search query optimizer. Output ONLY comma-separated search terms, no explanation.
-RULES:
-1. If user asks about what they "read", "saw", "forgot" - extract the TOPIC keywords only
-2. Ignore personal phrases like "what was the pdf i read about" - focus on the subject
-3. Generate 8-12 diverse terms: synonyms, related concepts, different phrasings
-Example: "what was the pdf i read about islam and ummah" → "islam, ummah, muslim, islamic, community, faith, prophetic, religion"`,
-        userPrompt: `Query: "${query}"`,
+        feature: 'query-expansion',
+        systemPrompt: await promptRegistry.render('query-expansion-system', {}),
+        userPrompt: await promptRegistry.render('query-expansion-user', { query }),
         maxTokens: 100
       })
       
@@ -429,42 +472,17 @@ Example: "what was the pdf i read about islam and ummah" → "islam, ummah, musl
     return fallbackExpand(query)
   }
 
-  async searchWithContext(query: string, limit = 3, sourceUrl?: string): Promise<string> {
+  async searchWithContext(query: string, limit = 3, sourceUrl?: string, filter?: RagSearchFilter): Promise<string> {
     try {
-      const results = await this.search(query, limit * 4)
-      if (results.length === 0) return ''
-      
-      let filtered = results
-      if (sourceUrl) {
-        const sourceBase = sourceUrl.split('?')[0]
-        filtered = results.filter((r, i) => {
-          const entrySourceUrl = r.entry.metadata?.sourceUrl as string | undefined
-          if (!entrySourceUrl || typeof entrySourceUrl !== 'string') return false
-          const entryBase = entrySourceUrl.split('?')[0]
-          
-          const match = entrySourceUrl === sourceUrl || 
-                 entryBase === sourceBase ||
-                 entryBase.startsWith(sourceBase) ||
-                 sourceBase.startsWith(entryBase)
-          
-          if (i < 3 && !match) {
-            console.log(`[RagService] URL mismatch: query="${sourceBase.slice(0, 60)}" vs entry="${entryBase.slice(0, 60)}"`)
-          }
-          return match
-        })
-        
-        console.log(`[RagService] searchWithContext: ${results.length} total -> ${filtered.length} filtered for ${sourceUrl.slice(0, 50)}`)
-        
-        if (filtered.length === 0) {
-          console.log('[RagService] No RAG results for current page, using raw content instead')
-          return ''
-        }
+      // a page chat only retrieves from its own page
+      const scoped: RagSearchFilter | undefined = sourceUrl ? { ...filter, sourceIds: [sourceUrl] } : filter
+      const results = await this.search(query, limit, scoped)
+      if (results.length === 0) {
+        if (sourceUrl) console.log(`[RagService] No RAG results for ${sourceUrl.slice(0, 50)}, using raw content instead`)
+        return ''
       }
       
-      // sort by score
-      filtered.sort((a, b) => b.score - a.score)
-      
-      const contextParts = filtered.slice(0, limit).map((r, i) => {
+      const contextParts = results.map((r, i) => {
         const meta = r.entry.metadata || {}
         const source = meta.title || meta.sourceUrl || r.entry.id
         return `[Source ${i + 1}: ${source}]\n${r.entry.content}`
@@ -477,7 +495,7 @@ Example: "what was the pdf i read about islam and ummah" → "islam, ummah, musl
     }
   }
 
-  async searchWithSources(query: string, limit = 5): Promise<{
+  async searchWithSources(query: string, limit = 5, filter?: RagSearchFilter): Promise<{
     context: string
     sources: Array<{
       index: number
@@ -490,7 +508,7 @@ Example: "what was the pdf i read about islam and ummah" → "islam, ummah, musl
   }> {
     try {
       // fetch more results for comprehensive coverage
-      const results = await this.search(query, limit * 4)
+      const results = await this.search(query, limit * 4, filter)
       console.log('[RagService.searchWithSources] search results:', results.length)
       if (results.length === 0) return { context: '', sources: [] }
       
@@ -782,7 +800,8 @@ Example: "what was the pdf i read about islam and ummah" → "islam, ummah, musl
     const summaryMetadata: ChunkMetadata = {
       ...metadata,
       sourceId: summarySourceId,
-      title: 'Summary: ' + (metadata.title || metadata.sourceUrl)
+      title: 'Summary: ' + (metadata.title || metadata.sourceUrl),
+      createdAt: dateOf(metadata.createdAt) ?? Date.now()
     }
     
     // create single entry for summary
@@ -854,6 +873,166 @@ Example: "what was the pdf i read about islam and ummah" → "islam, ummah, musl
     return 'indexed-now'
   }
 
+  // forget a page, email or pdf: its chunks, its indexed summary and its metadata
+  async deleteSource(sourceId: string): Promise<RagDeleteResult> {
+    await this.ensureMetadataLoaded()
+    const active = this.activeIndexing.get(sourceId)
+    if (active) await active.catch(() => {})
+
+    const summaryId = `${sourceId}:summary`
+    const removed = await vectorStore.removeWhere(e =>
+      e.metadata?.sourceId === sourceId || e.metadata?.sourceId === summaryId || e.metadata?.sourceUrl === sourceId
+    )
+    const sources = [...new Set(removed.map(e => String(e.metadata?.sourceId)))]
+    await this.forgetMetadata([...new Set([sourceId, summaryId, ...sources])])
+    this.queryCache.clear()
+
+    console.log(`[RagService] Deleted ${removed.length} chunks for ${sourceId.slice(0, 50)}`)
+    return { chunks: removed.length, sources }
+  }
+
+  async deleteByFilter(filter: RagDeleteFilter): Promise<RagDeleteResult> {
+    if (!filter.sourceType && !filter.urlPrefix && filter.olderThan === undefined) {
+      throw new Error('delete filter needs at least one condition')
+    }
+    await this.ensureMetadataLoaded()
+
+    const contentType = (e: VectorEntryMeta) => e.type === 'page' ? 'article' : e.type
+    const removed = await vectorStore.removeWhere(e =>
+      (!filter.sourceType || contentType(e) === filter.sourceType) &&
+      (!filter.urlPrefix || String(e.metadata?.sourceUrl || '').startsWith(filter.urlPrefix)) &&
+      (filter.olderThan === undefined || e.timestamp < filter.olderThan)
+    )
+    const sources = [...new Set(removed.map(e => String(e.metadata?.sourceId)))]
+    await this.forgetMetadata(sources)
+    this.queryCache.clear()
+
+    console.log(`[RagService] Deleted ${removed.length} chunks from ${sources.length} sources by filter`)
+    return { chunks: removed.length, sources }
+  }
+
+  // drops the in-memory view of rag_metadata, after an import rewrote it
+  reloadMetadata(): void {
+    this.contentHashes.clear()
+    this.metadataLoaded = false
+    this.loadingPromise = null
+    this.queryCache.clear()
+  }
+
+  // one row per page, email or pdf; its indexed summary is folded into the source it summarizes
+  async listSources(): Promise<RagSourceInfo[]> {
+    await this.ensureMetadataLoaded()
+    const [entries, bytes, metadata] = await Promise.all([
+      vectorStore.entriesWhere(() => true),
+      vectorStore.storedBytes(),
+      databaseService.getAll<RagMetadataEntry>(DB_CONFIGS.cache, STORE_RAG_METADATA)
+    ])
+    const indexedAt = new Map(metadata.map(m => [m.sourceId, m.timestamp]))
+
+    const sources = new Map<string, RagSourceInfo>()
+    for (const entry of entries) {
+      const chunkSourceId = String(entry.metadata?.sourceId || entry.id)
+      const isSummary = entry.metadata?.isSummary === true
+      const sourceId = isSummary ? chunkSourceId.replace(/:summary$/, '') : chunkSourceId
+
+      let source = sources.get(sourceId)
+      if (!source) {
+        source = {
+          sourceId,
+          type: entry.type === 'page' ? 'article' : entry.type,
+          title: '',
+          url: String(entry.metadata?.sourceUrl || ''),
+          chunkCount: 0,
+          hasSummary: false,
+          indexedAt: 0,
+          bytes: 0
+        }
+        sources.set(sourceId, source)
+      }
+
+      const title = String(entry.metadata?.title || '')
+      if (isSummary) {
+        source.hasSummary = true
+        if (!source.title) source.title = title.replace(/^Summary: /, '')
+      } else {
+        source.chunkCount++
+        if (title) source.title = title
+      }
+      source.indexedAt = Math.max(source.indexedAt, indexedAt.get(chunkSourceId) ?? entry.timestamp)
+      source.bytes += bytes.get(entry.id) || 0
+    }
+
+    return Array.from(sources.values()).map(s => ({ ...s, title: s.title || s.url || s.sourceId }))
+  }
+
+  async getSourceChunks(sourceId: string): Promise<RagSourceChunk[]> {
+    const entries = await vectorStore.withContent(await vectorStore.entriesWhere(this.sourceMatcher(sourceId)))
+    return entries
+      .map(e => ({
+        id: e.id,
+        index: Number(e.metadata?.chunkIndex ?? 0),
+        content: e.content,
+        isSummary: e.metadata?.isSummary === true
+      }))
+      .sort((a, b) => Number(b.isSummary) - Number(a.isSummary) || a.index - b.index)
+  }
+
+  // embeds the stored chunks again, the original text isn't kept so chunking stays as it was.
+  // registered as indexing, so indexChunks on the same source waits for it
+  async reindexSource(sourceId: string, onProgress?: (percent: number) => void): Promise<number> {
+    await this.ensureMetadataLoaded()
+    const active = this.activeIndexing.get(sourceId)
+    if (active) await active.catch(() => {})
+
+    const reindex = this._doReindexSource(sourceId, onProgress)
+    const tracked = reindex.then(() => {}, () => {})
+    this.activeIndexing.set(sourceId, tracked)
+    try {
+      return await reindex
+    } finally {
+      if (this.activeIndexing.get(sourceId) === tracked) this.activeIndexing.delete(sourceId)
+    }
+  }
+
+  private async _doReindexSource(sourceId: string, onProgress?: (percent: number) => void): Promise<number> {
+    const match = this.sourceMatcher(sourceId)
+    const entries = await vectorStore.withContent(await vectorStore.entriesWhere(match))
+    if (entries.length === 0) throw new Error('source is not indexed')
+
+    // every new vector exists before the old chunks go, a failed embed keeps the source searchable
+    const now = Date.now()
+    // chunks from before source dates were kept hold on to the date they were indexed
+    const refreshed = entries.map(e => ({
+      ...e,
+      metadata: { ...e.metadata, createdAt: dateOf(e.metadata?.createdAt) ?? e.timestamp },
+      timestamp: now
+    }))
+    const embeddings = await this.embedBatchedWithProgress(refreshed, EMBEDDING_CONCURRENCY, onProgress)
+    await vectorStore.removeWhere(match)
+    await vectorStore.addBatch(refreshed.map((entry, i) => ({ entry, embedding: embeddings[i] })))
+
+    const counts = new Map<string, number>()
+    for (const entry of entries) {
+      const id = String(entry.metadata?.sourceId || sourceId)
+      counts.set(id, (counts.get(id) || 0) + 1)
+    }
+    for (const [id, count] of counts) {
+      const hash = this.contentHashes.get(id) || this.hashContent(entries.filter(e => e.metadata?.sourceId === id).map(e => e.content).join('\n'))
+      this.contentHashes.set(id, hash)
+      await this.persistMetadata(id, hash, count)
+    }
+    this.queryCache.clear()
+
+    console.log(`[RagService] Re-embedded ${entries.length} chunks for ${sourceId.slice(0, 50)}`)
+    return entries.length
+  }
+
+  // a source's own chunks plus its indexed summary
+  private sourceMatcher(sourceId: string): (entry: VectorEntryMeta) => boolean {
+    const summaryId = `${sourceId}:summary`
+    return e => e.metadata?.sourceId === sourceId || e.metadata?.sourceId === summaryId
+  }
+
   async getIndexingStatus(sourceId: string): Promise<'indexed' | 'in-progress' | 'needed'> {
     if (this.activeIndexing.has(sourceId)) return 'in-progress'
     
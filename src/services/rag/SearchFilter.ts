@@ -0,0 +1,65 @@
+import type { RagSearchFilter, VectorEntryMeta } from '../../types'
+
+// summaries are indexed under ":summary" ids but belong to the source they summarize
+export const sourceOf = (entry: VectorEntryMeta) => String(entry.metadata?.sourceId || entry.id).replace(/:summary$/, '')
+
+const withoutQuery = (url: string) => url.split(/[?#]/)[0].replace(/\/+$/, '')
+
+function hostOf(url: string): string | null {
+  if (!/^https?:/.test(url)) return null
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+export function hasSearchFilter(filter?: RagSearchFilter | null): filter is RagSearchFilter {
+  if (!filter) return false
+  return !!(filter.types?.length || filter.domains?.length || filter.sourceIds?.length || filter.tags?.length) ||
+    filter.from !== undefined || filter.to !== undefined
+}
+
+// stable cache key, field order and list order don't matter
+export function searchFilterKey(filter?: RagSearchFilter): string {
+  if (!hasSearchFilter(filter)) return ''
+  return JSON.stringify(Object.entries(filter)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b))))
+}
+
+// sources whose summary carries any of the tags, chunks of those sources match through them
+export function taggedSources(entries: VectorEntryMeta[], tags: string[]): Set<string> {
+  const wanted = new Set(tags.map(t => t.toLowerCase()))
+  const sources = new Set<string>()
+  for (const entry of entries) {
+    const entryTags = entry.metadata?.tags
+    if (Array.isArray(entryTags) && entryTags.some(t => wanted.has(String(t).toLowerCase()))) sources.add(sourceOf(entry))
+  }
+  return sources
+}
+
+export function searchFilterMatcher(filter: RagSearchFilter, tagged?: Set<string>): (entry: VectorEntryMeta) => boolean {
+  const types = filter.types?.length ? new Set(filter.types) : null
+  const domains = filter.domains?.map(d => d.toLowerCase().replace(/^www\./, '')).filter(Boolean) || []
+  const sourceIds = new Set((filter.sourceIds || []).flatMap(id => [id, withoutQuery(id)]))
+
+  return (entry) => {
+    const type = entry.type === 'page' ? 'article' : entry.type
+    if (types && !types.has(type)) return false
+    // the source's own date, chunks indexed before it was kept fall back to their index time
+    const created = Number(entry.metadata?.createdAt ?? entry.timestamp)
+    if (filter.from !== undefined && created < filter.from) return false
+    if (filter.to !== undefined && created >= filter.to) return false
+
+    const url = String(entry.metadata?.sourceUrl || '')
+    if (domains.length) {
+      const host = hostOf(url)
+      if (!host || !domains.some(d => host === d || host.endsWith(`.${d}`))) return false
+    }
+    if (sourceIds.size && !sourceIds.has(sourceOf(entry)) && !(url && sourceIds.has(withoutQuery(url)))) return false
+    if (filter.tags?.length && !tagged?.has(sourceOf(entry))) return false
+    return true
+  }
+}
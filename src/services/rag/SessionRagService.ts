@@ -4,6 +4,7 @@
 import { chunkingService } from './ChunkingService'
 import { embeddingProvider } from './EmbeddingProvider'
 import { localModels } from '../ai/LocalModelProvider'
+import { Bm25Index, analyzeDoc } from './Bm25Index'
 
 interface SessionChunk {
   id: string
@@ -12,56 +13,9 @@ interface SessionChunk {
   embedding: number[]
 }
 
-// simple in-memory inverted index for keyword search
-class SessionInvertedIndex {
-  private index = new Map<string, Set<number>>()
-  private docs = new Map<number, string>()
-
-  add(chunkIndex: number, text: string) {
-    this.docs.set(chunkIndex, text)
-    for (const token of this.tokenize(text)) {
-      if (!this.index.has(token)) this.index.set(token, new Set())
-      this.index.get(token)!.add(chunkIndex)
-    }
-  }
-
-  search(query: string, limit: number): Array<{ index: number; score: number }> {
-    const tokens = this.tokenize(query)
-    if (tokens.length === 0) return []
-    
-    const scores = new Map<number, number>()
-    for (const token of tokens) {
-      const indices = this.index.get(token)
-      if (indices) {
-        const idf = Math.log(this.docs.size / indices.size + 1)
-        for (const idx of indices) {
-          scores.set(idx, (scores.get(idx) || 0) + idf)
-        }
-      }
-    }
-    
-    return Array.from(scores.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, limit)
-      .map(([index, score]) => ({ index, score: score / tokens.length }))
-  }
-
-  clear() {
-    this.index.clear()
-    this.docs.clear()
-  }
-
-  private tokenize(text: string): string[] {
-    return text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 2)
-  }
-}
-
 class SessionRagService {
   private chunks: SessionChunk[] = []
-  private keywordIndex = new SessionInvertedIndex()
+  private keywordIndex = new Bm25Index<number>()
   private indexed = false
   private indexingPromise: Promise<void> | null = null
   private contentHash = ''
@@ -123,7 +77,7 @@ class SessionRagService {
             index: chunk.index,
             embedding: Array.from(embeddings[j])
           })
-          this.keywordIndex.add(chunk.index, chunk.text)
+          this.keywordIndex.add(chunk.index, analyzeDoc(chunk.text))
         }
       } catch (err) {
         console.error('[SessionRag] Embedding batch failed:', err)
@@ -156,7 +110,7 @@ class SessionRagService {
       }))
       
       // keyword search
-      const keywordScores = this.keywordIndex.search(query, limit * 2)
+      const keywordScores = this.keywordIndex.search(query, limit * 2).map(({ key, score }) => ({ index: key, score }))
       
       // fuse results (RRF - reciprocal rank fusion)
       const fused = this.fuseResults(vectorScores, keywordScores)
@@ -200,9 +154,10 @@ class SessionRagService {
     vec: Array<{ index: number; score: number }>,
     key: Array<{ index: number; score: number }>
   ): Array<{ index: number; score: number }> {
-    // normalize vector scores to 0-1
+    // normalize both to 0-1, bm25 scores have no fixed range
     const maxVec = Math.max(...vec.map(v => v.score), 0.001)
     const vecNorm = vec.map(v => ({ index: v.index, score: v.score / maxVec }))
+    const maxKey = Math.max(...key.map(k => k.score), 0.001)
     
     // combine with weighted average (vector 0.7, keyword 0.3)
     const combined = new Map<number, number>()
@@ -210,7 +165,7 @@ class SessionRagService {
       combined.set(index, (combined.get(index) || 0) + score * 0.7)
     }
     for (const { index, score } of key) {
-      combined.set(index, (combined.get(index) || 0) + score * 0.3)
+      combined.set(index, (combined.get(index) || 0) + score / maxKey * 0.3)
     }
     
     return Array.from(combined.entries())
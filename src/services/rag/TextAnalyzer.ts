@@ -0,0 +1,87 @@
+// keyword analysis shared by the saved-content and session indexes: unicode word segmentation,
+// per-language stopwords and light suffix stemming. bump ANALYZER_VERSION when output changes,
+// persisted postings from an older version are analyzed again at load
+export const ANALYZER_VERSION = 1
+
+export type Language = 'en' | 'de' | 'fr' | 'es' | 'it' | 'pt' | 'nl' | 'pl' | 'cs' | 'vi' | 'other'
+
+const STOPWORDS: Record<Exclude<Language, 'other'>, Set<string>> = {
+  en: new Set('the a an and or but in on at to for of with by from as is was are were be been it its this that these those i you he she we they my your our their not no so if then than too very can will would should could do does did have has had just also about into over what which who when where how all any some there here'.split(' ')),
+  de: new Set('der die das den dem des ein eine einer eines einem einen und oder aber in im am an auf aus bei mit nach von vor zu zum zur für über unter ist sind war waren wird werden hat haben hatte es er sie wir ihr ich du nicht kein keine auch nur noch wie was wer wo wenn dass als so dann doch schon sehr man sich'.split(' ')),
+  fr: new Set('le la les un une des du de et ou mais en dans sur sous pour par avec sans est sont était été être avoir a ont il elle ils elles nous vous je tu ne pas plus que qui quoi dont où ce cette ces son sa ses leur leurs au aux se'.split(' ')),
+  es: new Set('el la los las un una unos unas y o pero en de del al con sin por para es son era fue ser estar está están hay que qué quien como cuando donde no sí se su sus lo le les me te nos muy más también ya'.split(' ')),
+  it: new Set('il lo la i gli le un uno una e o ma in di da del della dei delle al alla con senza per su è sono era essere che chi come quando dove non si suo sua loro mi ti ci anche più molto'.split(' ')),
+  pt: new Set('o a os as um uma uns umas e ou mas em no na nos nas de do da dos das ao com sem por para é são era ser estar que quem como quando onde não se seu sua seus suas me te também mais muito já'.split(' ')),
+  nl: new Set('de het een en of maar in op aan bij met van voor naar uit over is zijn was waren wordt worden heeft hebben ik je jij hij zij wij niet geen ook nog wel dat die dit deze als dan zo er om te'.split(' ')),
+  pl: new Set('i w we z ze na do od o a ale lub czy nie tak to ten ta te jest są był była było być się że jak co który która które dla po przez przy za jego jej ich mnie mi już też bardzo'.split(' ')),
+  cs: new Set('a i v ve z ze na do od o ale nebo že jak co který která které pro po při za je jsou byl byla bylo být se si to ten ta te jeho její jejich mě mi už také velmi ne'.split(' ')),
+  vi: new Set('và của là có không những các một được cho với trong này đã để người khi thì cũng như đến từ ra về lại nên vì mà'.split(' '))
+}
+
+// letters only one of the languages uses, they settle short or stopword-poor texts
+const MARKERS: Array<[Language, RegExp]> = [
+  ['vi', /[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/],
+  ['pl', /[ąęłńśźż]/],
+  ['cs', /[ěřůďťň]/],
+  ['de', /[ß]/]
+]
+
+// longest first, one suffix comes off and the stem keeps at least MIN_STEM letters.
+// vietnamese is isolating, its syllables are left as they are
+const SUFFIXES: Partial<Record<Language, Array<[string, string]>>> = {
+  en: [['ies', 'y'], ['aes', 'aes'], ['ees', 'ees'], ['oes', 'oes'], ['es', 'e'], ['ss', 'ss'], ['us', 'us'], ['s', '']], // plurals only, a suffix mapped to itself stops there
+  de: [['ungen', 'ung'], ['heiten', 'heit'], ['keiten', 'keit'], ['ern', ''], ['em', ''], ['en', ''], ['er', ''], ['es', ''], ['e', ''], ['s', ''], ['n', '']],
+  fr: [['ements', ''], ['ement', ''], ['ations', ''], ['ation', ''], ['euses', ''], ['euse', ''], ['eux', ''], ['ées', ''], ['ée', ''], ['es', ''], ['és', ''], ['é', ''], ['s', ''], ['e', '']],
+  es: [['aciones', ''], ['ación', ''], ['amente', ''], ['mente', ''], ['es', ''], ['os', ''], ['as', ''], ['s', ''], ['o', ''], ['a', '']],
+  it: [['azioni', ''], ['azione', ''], ['mente', ''], ['i', ''], ['e', ''], ['a', ''], ['o', '']],
+  pt: [['ações', ''], ['ação', ''], ['mente', ''], ['os', ''], ['as', ''], ['es', ''], ['s', ''], ['o', ''], ['a', '']],
+  nl: [['heden', 'heid'], ['ingen', 'ing'], ['en', ''], ['s', ''], ['e', '']],
+  pl: [['ami', ''], ['ach', ''], ['ów', ''], ['om', ''], ['ia', ''], ['ie', ''], ['y', ''], ['i', ''], ['a', ''], ['e', ''], ['ę', ''], ['ą', ''], ['u', ''], ['o', '']],
+  cs: [['ech', ''], ['ami', ''], ['ové', ''], ['ích', ''], ['ům', ''], ['ů', ''], ['y', ''], ['i', ''], ['a', ''], ['e', ''], ['u', ''], ['o', '']]
+}
+
+const MIN_STEM = 3
+const DETECT_SAMPLE = 300 // words looked at when guessing a text's language
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' })
+
+// lowercased word-like segments; single letters only count in scripts that write words with one
+export function words(text: string): string[] {
+  const out: string[] = []
+  for (const { segment, isWordLike } of segmenter.segment(text.normalize('NFC').toLowerCase())) {
+    if (isWordLike && (segment.length > 1 || /\p{Ideographic}|\p{Script=Hangul}|\p{Script=Kana}/u.test(segment))) out.push(segment)
+  }
+  return out
+}
+
+export function detectLanguage(sample: string[]): Language {
+  const hits = new Map<Language, number>()
+  const head = sample.slice(0, DETECT_SAMPLE)
+  for (const [lang, stop] of Object.entries(STOPWORDS) as Array<[Language, Set<string>]>) {
+    hits.set(lang, head.filter(w => stop.has(w)).length)
+  }
+  const text = head.join(' ')
+  for (const [lang, marker] of MARKERS) {
+    if (marker.test(text)) hits.set(lang, (hits.get(lang) || 0) + 3)
+  }
+
+  let best: Language = 'other'
+  let most = 0
+  for (const [lang, count] of hits) {
+    if (count > most) [best, most] = [lang, count]
+  }
+  // one shared stopword says little about a long text
+  return most >= Math.min(3, Math.ceil(head.length / 10)) ? best : 'other'
+}
+
+export function isStopword(word: string, lang: Language): boolean {
+  return lang !== 'other' && STOPWORDS[lang].has(word)
+}
+
+export function stem(word: string, lang: Language): string {
+  for (const [suffix, replacement] of SUFFIXES[lang] || []) {
+    if (word.endsWith(suffix) && word.length - suffix.length + replacement.length >= MIN_STEM) {
+      return word.slice(0, word.length - suffix.length) + replacement
+    }
+  }
+  return word
+}
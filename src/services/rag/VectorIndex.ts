@@ -0,0 +1,187 @@
+import { localModels } from '../ai/LocalModelProvider'
+import type { VectorQuantization } from '../../types'
+
+// a chunk as the search index holds it, voy also matches title and url on removal
+export type IndexItem = { id: string; embedding: number[]; title: string; url: string }
+export type IndexHit = { id: string; score: number }
+
+// quantized candidates per result that get re-scored with float vectors
+export const RESCORE_OVERSAMPLE = 4
+// how fast voy's k grows while a filter keeps rejecting its neighbours
+const FILTER_GROWTH = 4
+
+// the live index answers searches, staging is built beside it while an embedding migration runs.
+// with allow set, only those ids are ranked
+export interface VectorIndex {
+  add(items: IndexItem[], staging?: boolean): Promise<void>
+  search(query: number[], limit: number, staging?: boolean, allow?: Set<string>): Promise<IndexHit[]>
+  remove(items: IndexItem[], staging?: boolean): Promise<number> // how many were actually dropped
+  clear(staging?: boolean): Promise<void>
+  promote(): Promise<void>
+}
+
+// float vectors in the sandbox's voy index, rebuilt from the stored vectors at every load
+export class VoyVectorIndex implements VectorIndex {
+  async add(items: IndexItem[], staging = false): Promise<void> {
+    if (items.length) await localModels.voyAdd(items, staging)
+  }
+
+  // voy can't filter, so k grows until enough allowed neighbours turn up or the index runs out
+  async search(query: number[], limit: number, staging = false, allow?: Set<string>): Promise<IndexHit[]> {
+    if (!allow) return localModels.voySearch(query, limit, staging)
+    for (let k = limit * FILTER_GROWTH; ; k *= FILTER_GROWTH) {
+      const hits = await localModels.voySearch(query, k, staging)
+      const allowed = hits.filter(hit => allow.has(hit.id))
+      if (allowed.length >= limit || hits.length < k) return allowed.slice(0, limit)
+    }
+  }
+
+  remove(items: IndexItem[], staging = false): Promise<number> {
+    return localModels.voyRemove(items, staging)
+  }
+
+  clear(staging = false): Promise<void> {
+    return localModels.voyClear(staging)
+  }
+
+  promote(): Promise<void> {
+    return localModels.voyPromote()
+  }
+}
+
+export type Code = { code: Int8Array | Uint8Array; scale: number; dims: number }
+
+// quantized codes scanned flat in the service worker. callers save each chunk's code and hand
+// the saved ones back through addCodes at load; scores are rough, callers re-score the top
+export class QuantizedVectorIndex implements VectorIndex {
+  private live = new Map<string, Code>()
+  private staged = new Map<string, Code>()
+
+  constructor(readonly mode: Exclude<VectorQuantization, 'none'>) {}
+
+  private codes(staging: boolean): Map<string, Code> {
+    return staging ? this.staged : this.live
+  }
+
+  async add(items: IndexItem[], staging = false): Promise<void> {
+    for (const item of items) this.codes(staging).set(item.id, quantize(item.embedding, this.mode))
+  }
+
+  addCodes(codes: Array<[string, Code]>, staging = false): void {
+    for (const [id, code] of codes) this.codes(staging).set(id, code)
+  }
+
+  async search(query: number[], limit: number, staging = false, allow?: Set<string>): Promise<IndexHit[]> {
+    return rank(this.codes(staging), quantize(query, this.mode), query, limit, id => !allow || allow.has(id))
+  }
+
+  async remove(items: IndexItem[], staging = false): Promise<number> {
+    return items.filter(item => this.codes(staging).delete(item.id)).length
+  }
+
+  async clear(staging = false): Promise<void> {
+    this.codes(staging).clear()
+  }
+
+  async promote(): Promise<void> {
+    this.live = this.staged
+    this.staged = new Map()
+  }
+}
+
+// int8: symmetric per-vector scale. binary: sign bits, packed 8 per byte
+export function quantize(vector: ArrayLike<number>, mode: Exclude<VectorQuantization, 'none'>): Code {
+  const dims = vector.length
+  if (mode === 'binary') {
+    const code = new Uint8Array(Math.ceil(dims / 8))
+    for (let i = 0; i < dims; i++) if (vector[i] > 0) code[i >> 3] |= 1 << (i & 7)
+    return { code, scale: 1, dims }
+  }
+  let max = 0
+  for (let i = 0; i < dims; i++) max = Math.max(max, Math.abs(vector[i]))
+  const scale = max / 127 || 1
+  const code = new Int8Array(dims)
+  for (let i = 0; i < dims; i++) code[i] = Math.round(vector[i] / scale)
+  return { code, scale, dims }
+}
+
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, i) => {
+  let bits = 0
+  for (let n = i; n; n >>= 1) bits += n & 1
+  return bits
+})
+
+// int8 against the float query, binary by hamming distance mapped onto [-1, 1]
+function score(entry: Code, query: Code, raw: ArrayLike<number>): number {
+  if (entry.code instanceof Uint8Array) {
+    let distance = 0
+    for (let i = 0; i < entry.code.length; i++) distance += POPCOUNT[entry.code[i] ^ query.code[i]]
+    return 1 - (2 * distance) / entry.dims
+  }
+  let dot = 0
+  for (let i = 0; i < entry.dims; i++) dot += entry.code[i] * raw[i]
+  return dot * entry.scale
+}
+
+function rank(codes: Map<string, Code>, query: Code, raw: ArrayLike<number>, limit: number, keep: (id: string) => boolean): IndexHit[] {
+  const hits: IndexHit[] = []
+  for (const [id, entry] of codes) {
+    if (!keep(id) || entry.dims !== query.dims) continue // filtered out, or a vector from before a dims change
+    hits.push({ id, score: score(entry, query, raw) })
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit)
+}
+
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+// bytes a search index holds in memory for n vectors of this many dims
+export function indexBytes(mode: VectorQuantization, count: number, dims: number): number {
+  if (mode === 'int8') return count * (dims + 4)
+  if (mode === 'binary') return count * Math.ceil(dims / 8)
+  return count * dims * 4
+}
+
+// recall@k of quantized search plus float re-scoring against exact float search. sampled
+// vectors stand in for queries and their own chunk is left out of every ranking
+export function measureRecall(
+  vectors: Map<string, Float32Array>,
+  modes: VectorQuantization[],
+  k: number,
+  samples: number
+): { sampled: number; recall: Record<VectorQuantization, number | null> } {
+  const recall = { none: null, int8: null, binary: null } as Record<VectorQuantization, number | null>
+  const ids = Array.from(vectors.keys())
+  if (ids.length <= k) return { sampled: 0, recall }
+
+  const step = Math.max(1, Math.floor(ids.length / samples))
+  const queries = ids.filter((_, i) => i % step === 0).slice(0, samples)
+  const exact = queries.map(id => new Set(ids
+    .filter(other => other !== id)
+    .map(other => ({ id: other, score: dot(vectors.get(id)!, vectors.get(other)!) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(hit => hit.id)))
+
+  for (const mode of modes) {
+    if (mode === 'none') {
+      recall.none = 1 // voy's k-d tree search is exact
+      continue
+    }
+    const codes = new Map(ids.map(id => [id, quantize(vectors.get(id)!, mode)]))
+    let found = 0
+    queries.forEach((id, q) => {
+      const query = vectors.get(id)!
+      found += rank(codes, quantize(query, mode), query, k * RESCORE_OVERSAMPLE, other => other !== id)
+        .map(hit => ({ id: hit.id, score: dot(query, vectors.get(hit.id)!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .filter(hit => exact[q].has(hit.id)).length
+    })
+    recall[mode] = found / (queries.length * k)
+  }
+  return { sampled: queries.length, recall }
+}
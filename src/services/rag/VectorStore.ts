@@ -1,49 +1,104 @@
 import { databaseService, DB_CONFIGS } from '../DatabaseService'
+import { storageService } from '../StorageService'
 import { localModels } from '../ai/LocalModelProvider'
-import type { VectorEntry, SearchResult } from '../../types'
+import { embeddingProvider } from './EmbeddingProvider'
+import { VoyVectorIndex, QuantizedVectorIndex, RESCORE_OVERSAMPLE, dot, indexBytes, measureRecall, quantize, type Code, type IndexItem, type VectorIndex } from './VectorIndex'
+import { hasSearchFilter, searchFilterMatcher, taggedSources } from './SearchFilter'
+import { Bm25Index, analyzeDoc, isCurrentAnalysis, type AnalyzedDoc } from './Bm25Index'
+import { VectorPrefs } from '../../utils/vectorStorage'
+import { LEGACY_EMBEDDING_SIGNATURE, sameEmbedding } from '../../types/local-models'
+import type { VectorEntry, VectorEntryMeta, SearchResult, EmbeddingSignature, EmbeddingMigrationStatus, RagIndexStats, RagSearchFilter, VectorQuantization, VectorStorageSettings } from '../../types'
+
+// idb record for a chunk. records from before rag_vectors still carry their vector inline,
+// it moves out on the next load
+type StoredDocument = VectorEntry & { url: string; embedding?: Float32Array }
+// the one copy of a chunk's float vector, voy is rebuilt from these at load
+type StoredVector = { id: string; embedding: Float32Array }
+// a chunk's int8 or binary code, kept while quantization is on so loading never reads floats
+type StoredCode = Code & { id: string; mode: Exclude<VectorQuantization, 'none'> }
+// a chunk's keyword terms and everything about it but its text, so loading reads neither
+// documents nor vectors. records from before entry was kept make their document load once
+type StoredPostings = AnalyzedDoc & { id: string; entry?: VectorEntryMeta; bytes?: number }
+
+// which embedding and quantization the index was built with, under the key the voy blob used to have
+type IndexRecord = { url: string; embedder?: EmbeddingSignature; quantization?: VectorQuantization; timestamp: number }
+
+const STORE_POSTINGS = 'rag_postings'
+const STORE_VECTORS = 'rag_vectors'
+const STORE_CODES = 'rag_codes'
+const INDEX_RECORD = 'system:voy_index'
+
+const REBUILD_BATCH = 256
+const MIGRATION_BATCH = 16
+const RECALL_AT = 10
+const RECALL_SAMPLES = 20
+const RECALL_POOL = 1000 // stored vectors read to measure recall, queries and neighbours both come from these
+
+const isCurrent = (entry: VectorEntryMeta) => sameEmbedding(entry.embedder, embeddingProvider.signature)
+const describe = (sig: EmbeddingSignature) => `${sig.model}/${sig.dims}/${sig.scheme}`
+const metaOf = ({ content: _content, ...meta }: VectorEntry): VectorEntryMeta => meta
+const sizeOf = (entry: VectorEntry) => new TextEncoder().encode(JSON.stringify(entry)).length
+
+// a longer vector from the same matryoshka model slices down to the target without re-embedding
+const sliceable = (from: EmbeddingSignature | undefined, to: EmbeddingSignature) => {
+  const stored = from || LEGACY_EMBEDDING_SIGNATURE
+  return !!embeddingProvider.model.matryoshkaDims && stored.model === to.model && stored.scheme === to.scheme && stored.dims > to.dims
+}
+
+function slice(vector: Float32Array, dims: number): Float32Array {
+  const sliced = vector.slice(0, dims)
+  const norm = Math.sqrt(dot(sliced, sliced))
+  if (norm > 0) for (let i = 0; i < sliced.length; i++) sliced[i] /= norm
+  return sliced
+}
 
+// chunk metadata by id for filtering, their terms in a bm25 index; text stays in idb
 class InvertedIndex {
-  private index: Map<string, Set<string>> = new Map()
-  private docs: Map<string, VectorEntry> = new Map()
+  private bm25 = new Bm25Index<string>()
+  private docs: Map<string, VectorEntryMeta> = new Map()
+  private sizes: Map<string, number> = new Map()
 
-  add(entry: VectorEntry) {
+  add(entry: VectorEntryMeta, analyzed: AnalyzedDoc, bytes: number) {
     this.docs.set(entry.id, entry)
-    const tokens = this.tokenize(entry.content)
-    for (const token of tokens) {
-      if (!this.index.has(token)) this.index.set(token, new Set())
-      this.index.get(token)!.add(entry.id)
-    }
+    this.sizes.set(entry.id, bytes)
+    this.bm25.add(entry.id, analyzed)
   }
 
-  search(query: string, limit: number): SearchResult[] {
-    const tokens = this.tokenize(query)
-    if (tokens.length === 0) return []
-    
-    const scores = new Map<string, number>()
-    for (const token of tokens) {
-      const docIds = this.index.get(token)
-      if (docIds) {
-        const idf = Math.log(this.docs.size / docIds.size + 1)
-        for (const id of docIds) {
-          scores.set(id, (scores.get(id) || 0) + idf)
-        }
-      }
-    }
-    
-    return Array.from(scores.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, limit)
-      .map(([id, score]) => ({
-        entry: this.docs.get(id)!,
-        score: score / tokens.length,
-        matchType: 'keyword' as const
-      }))
-      .filter(r => r.entry)
+  // same content under a new embedding stamp, its terms stay as they are
+  restamp(entry: VectorEntryMeta, bytes: number) {
+    if (!this.docs.has(entry.id)) return
+    this.docs.set(entry.id, entry)
+    this.sizes.set(entry.id, bytes)
+  }
+
+  remove(id: string) {
+    this.docs.delete(id)
+    this.sizes.delete(id)
+    this.bm25.remove(id)
+  }
+
+  has(id: string): boolean {
+    return this.docs.has(id)
+  }
+
+  find(match: (entry: VectorEntryMeta) => boolean): VectorEntryMeta[] {
+    return Array.from(this.docs.values()).filter(match)
+  }
+
+  // bytes of the chunk's stored document, without its vector
+  sizeOf(id: string): number {
+    return this.sizes.get(id) || 0
+  }
+
+  search(query: string, limit: number, match?: (entry: VectorEntryMeta) => boolean): Array<{ id: string; score: number }> {
+    return this.bm25.search(query, limit, match && (id => match(this.docs.get(id)!)))
+      .map(({ key, score }) => ({ id: key, score }))
   }
 
   clear() {
-    this.index.clear()
+    this.bm25.clear()
     this.docs.clear()
+    this.sizes.clear()
   }
 
   getDocCount(): number {
@@ -59,13 +114,6 @@ class InvertedIndex {
     }
     return false
   }
-
-  private tokenize(text: string): string[] {
-    return text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 2)
-  }
 }
 
 export class VectorStore {
@@ -79,15 +127,28 @@ export class VectorStore {
   
   // sandbox lifecycle tracking
   private lastSandboxId: string | null = null
-  private voyIndexLoadedAt: number = 0
+
+  // embedding migration: the live voy index keeps serving while chunks are re-embedded
+  // into a staging index, which replaces it once every chunk carries the current signature
+  private indexSignature: EmbeddingSignature = LEGACY_EMBEDDING_SIGNATURE
+  private migrating = false
+  private migration: Promise<void> | null = null
+
+  // float vectors search through voy, rebuilt at every load; quantized ones through saved codes
+  private quantization: VectorQuantization = 'none'
+  private index: VectorIndex = new VoyVectorIndex()
+
+  // recall only moves when chunks, the model or the quantization change; any chunk write drops it
+  private statsCache: { key: string; stats: RagIndexStats } | null = null
 
   async add(entry: VectorEntry, embedding: Float32Array): Promise<void> {
     this.pendingAdds++
     this.operationQueue = this.operationQueue.then(async () => {
       await this.ensureIndexLoaded()
-      await this.storeDocument(entry)
-      this.invertedIndex.add(entry)
-      await localModels.voyAdd(entry.id, Array.from(embedding), String(entry.metadata?.title || entry.id), String(entry.metadata?.sourceUrl || ''))
+      const stamped = { ...entry, embedder: embeddingProvider.signature }
+      await this.storeDocument(stamped, embedding)
+      await databaseService.put<StoredPostings>(DB_CONFIGS.cache, STORE_POSTINGS, this.indexTerms(stamped))
+      await this.index.add([this.itemFor(entry, embedding)], this.migrating)
       this.pendingAdds--
       this.scheduleDebouncedSave()
     }).catch(err => {
@@ -97,22 +158,275 @@ export class VectorStore {
     return this.operationQueue
   }
 
-  async search(queryEmbedding: number[], limit: number): Promise<SearchResult[]> {
+  // the query text lets a migration search the old index with a query from the old model
+  async search(queryEmbedding: number[], limit: number, filter?: RagSearchFilter, query?: string): Promise<SearchResult[]> {
     await this.ensureIndexLoaded()
-    const results = await localModels.voySearch(queryEmbedding, limit)
+    const match = this.matcherFor(filter)
+    const allow = match ? new Set(this.invertedIndex.find(match).map(e => e.id)) : undefined
+    if (allow && !allow.size) return []
+
+    const quantized = this.quantization !== 'none'
+    const candidates = quantized ? limit * RESCORE_OVERSAMPLE : limit
+    let results = await this.index.search(queryEmbedding, candidates, this.migrating, allow)
+    // which query each result is scored against, vectors of the two models don't compare
+    const queries = new Map(results.map(r => [r.id, queryEmbedding]))
+
+    // chunks not moved yet only exist in the old index, searched with the query embedded by
+    // the model that built it; a chunk found in both keeps its new-model hit
+    if (this.migrating && query) {
+      const oldQuery = await embeddingProvider.embedQueryAs(this.indexSignature, query).catch(err => {
+        console.warn('[VectorStore] Old index skipped, its model could not embed the query:', err)
+        return null
+      })
+      if (oldQuery) {
+        const asked = Array.from(oldQuery)
+        const old = await this.index.search(asked, candidates, false, allow).catch(() => [])
+        const fresh = old.filter(r => !queries.has(r.id))
+        for (const r of fresh) queries.set(r.id, asked)
+        results = [...results, ...fresh].sort((a, b) => b.score - a.score).slice(0, candidates)
+      }
+    }
 
     const hydrated = await Promise.all(results.map(async r => {
-      const entry = await this.retrieveDocument(r.id)
-      if (!entry) return null
-      return { entry, score: r.score, matchType: 'semantic' } as SearchResult
+      const stored = await databaseService.get<StoredDocument>(DB_CONFIGS.cache, 'page_cache', `rag:${r.id}`)
+      if (!stored) return null
+      const { embedding: _inline, ...entry } = stored
+      // quantized scores only pick the candidates, the stored float vector ranks them
+      const vector = quantized ? await this.vectorFor(r.id) : null
+      const asked = queries.get(r.id)!
+      const score = vector?.length === asked.length ? dot(asked, vector) : r.score
+      return { entry, score, matchType: 'semantic' } as SearchResult
     }))
 
-    return hydrated.filter(Boolean) as SearchResult[]
+    return (hydrated.filter(Boolean) as SearchResult[]).sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  async searchKeyword(query: string, limit: number, filter?: RagSearchFilter): Promise<SearchResult[]> {
+    await this.ensureIndexLoaded()
+    const results = this.invertedIndex.search(query, limit, this.matcherFor(filter))
+    const entries = new Map((await this.withContent(results.map(r => ({ id: r.id })))).map(e => [e.id, e]))
+    return results
+      .filter(r => entries.has(r.id))
+      .map(r => ({ entry: entries.get(r.id)!, score: r.score, matchType: 'keyword' as const }))
+  }
+
+  // tags sit on a source's summary, so they're resolved to sources before chunks are matched
+  private matcherFor(filter?: RagSearchFilter): ((entry: VectorEntryMeta) => boolean) | undefined {
+    if (!hasSearchFilter(filter)) return undefined
+    const tagged = filter.tags?.length ? taggedSources(this.invertedIndex.find(() => true), filter.tags) : undefined
+    return searchFilterMatcher(filter, tagged)
   }
 
-  async searchKeyword(query: string, limit: number): Promise<SearchResult[]> {
+  // metadata only, withContent reads the text of the ones that need it
+  async entriesWhere(match: (entry: VectorEntryMeta) => boolean): Promise<VectorEntryMeta[]> {
     await this.ensureIndexLoaded()
-    return this.invertedIndex.search(query, limit)
+    return this.invertedIndex.find(match)
+  }
+
+  // chunks whose document is gone are left out
+  async withContent(entries: Array<Pick<VectorEntryMeta, 'id'>>): Promise<VectorEntry[]> {
+    const docs = await Promise.all(entries.map(e => databaseService.get<StoredDocument>(DB_CONFIGS.cache, 'page_cache', `rag:${e.id}`)))
+    return docs
+      .filter((doc): doc is StoredDocument => !!doc)
+      .map(({ url: _url, embedding: _inline, ...entry }) => entry)
+  }
+
+  // drops matching chunks from idb, the keyword index and voy, returns what was removed
+  async removeWhere(match: (entry: VectorEntryMeta) => boolean): Promise<VectorEntryMeta[]> {
+    let removed: VectorEntryMeta[] = []
+    this.operationQueue = this.operationQueue.then(async () => {
+      await this.ensureIndexLoaded()
+      removed = this.invertedIndex.find(match)
+      if (removed.length === 0) return
+
+      // mid-migration only the staging index is kept exact, the old one is searched through
+      // stored documents so its stale points drop out on their own
+      const indexed = this.migrating ? removed.filter(isCurrent) : removed
+      this.statsCache = null
+      const dropped = indexed.length ? await this.index.remove(await this.indexItemsFor(indexed), this.migrating) : 0
+      for (const entry of removed) {
+        await databaseService.delete(DB_CONFIGS.cache, 'page_cache', `rag:${entry.id}`)
+        await databaseService.delete(DB_CONFIGS.cache, STORE_VECTORS, entry.id)
+        await databaseService.delete(DB_CONFIGS.cache, STORE_CODES, entry.id)
+        await databaseService.delete(DB_CONFIGS.cache, STORE_POSTINGS, entry.id)
+        this.invertedIndex.remove(entry.id)
+      }
+
+      // a re-embedded legacy chunk can miss its point in voy, rebuilding from what's left is exact
+      if (dropped < indexed.length) {
+        console.warn(`[VectorStore] VOY dropped ${dropped}/${indexed.length}, compacting index...`)
+        await this.rebuildIndex(this.migrating)
+      }
+      await this.saveIndex()
+      console.log(`[VectorStore] Removed ${removed.length} chunks`)
+    }).catch(err => {
+      removed = []
+      console.error('[VectorStore] Remove failed:', err)
+    })
+    await this.operationQueue
+    return removed
+  }
+
+  // stored vectors by chunk id, chunks indexed before vectors were kept have none
+  async embeddingsFor(entries: VectorEntryMeta[]): Promise<Map<string, Float32Array>> {
+    const vectors = new Map<string, Float32Array>()
+    for (const entry of entries) {
+      const vector = await this.vectorFor(entry.id)
+      if (vector) vectors.set(entry.id, vector)
+    }
+    return vectors
+  }
+
+  private async vectorFor(id: string): Promise<Float32Array | null> {
+    return (await databaseService.get<StoredVector>(DB_CONFIGS.cache, STORE_VECTORS, id))?.embedding || null
+  }
+
+  // empties the search index, the keyword index and every stored chunk
+  async clear(): Promise<void> {
+    this.operationQueue = this.operationQueue.then(async () => {
+      await this.ensureIndexLoaded()
+      await this.index.clear()
+      if (this.migrating) await this.index.clear(true)
+      this.indexSignature = embeddingProvider.signature
+      this.migrating = false
+      for (const entry of this.invertedIndex.find(() => true)) {
+        await databaseService.delete(DB_CONFIGS.cache, 'page_cache', `rag:${entry.id}`)
+      }
+      await databaseService.delete(DB_CONFIGS.cache, 'page_cache', INDEX_RECORD)
+      await databaseService.clear(DB_CONFIGS.cache, STORE_VECTORS)
+      await databaseService.clear(DB_CONFIGS.cache, STORE_CODES)
+      this.statsCache = null
+      await databaseService.clear(DB_CONFIGS.cache, STORE_POSTINGS)
+      this.invertedIndex.clear()
+      console.log('[VectorStore] Cleared')
+    }).catch(err => {
+      console.error('[VectorStore] Clear failed:', err)
+    })
+    return this.operationQueue
+  }
+
+  private itemFor(entry: VectorEntryMeta, embedding: ArrayLike<number>): IndexItem {
+    return {
+      id: entry.id,
+      embedding: Array.from(embedding),
+      title: String(entry.metadata?.title || entry.id),
+      url: String(entry.metadata?.sourceUrl || '')
+    }
+  }
+
+  // index payloads for stored chunks; chunks stored before vectors were kept get embedded
+  // again and their vector kept, unless they're going into the old index mid-migration where
+  // a new vector won't fit
+  private async indexItemsFor(entries: VectorEntryMeta[], vectors?: Map<string, Float32Array>, embedMissing = true): Promise<IndexItem[]> {
+    const stored = vectors
+      ? entries.map(e => vectors.get(e.id))
+      : await Promise.all(entries.map(e => this.vectorFor(e.id)))
+    const missing = embedMissing ? await this.withContent(entries.filter((_, i) => !stored[i])) : []
+    const embedded = missing.length ? await embeddingProvider.embedBatch(missing.map(e => e.content), false) : []
+    const byId = new Map(missing.map((e, i) => [e.id, embedded[i]]))
+    if (missing.length) {
+      await databaseService.putBatch<StoredVector>(DB_CONFIGS.cache, STORE_VECTORS, missing.map((e, i) => ({ id: e.id, embedding: embedded[i] })))
+    }
+
+    return entries
+      .map((entry, i) => this.itemFor(entry, stored[i] || byId.get(entry.id) || []))
+      .filter(item => item.embedding.length > 0)
+  }
+
+  // compaction: a fresh index from stored chunks. staging, and the live index outside a
+  // migration, take the chunks with current vectors; mid-migration the live one keeps the rest.
+  // saved codes go in as they are, chunks without one are quantized from their float vector
+  private async rebuildIndex(staging: boolean, vectors?: Map<string, Float32Array>, codes?: Map<string, Code>): Promise<void> {
+    await this.index.clear(staging)
+    const current = staging || !this.migrating
+    let entries = this.invertedIndex.find(e => isCurrent(e) === current)
+    const total = entries.length
+    if (codes && this.index instanceof QuantizedVectorIndex) {
+      this.index.addCodes(entries.filter(e => codes.has(e.id)).map(e => [e.id, codes.get(e.id)!]), staging)
+      entries = entries.filter(e => !codes.has(e.id))
+    }
+    for (let i = 0; i < entries.length; i += REBUILD_BATCH) {
+      const items = await this.indexItemsFor(entries.slice(i, i + REBUILD_BATCH), vectors, current)
+      await this.index.add(items, staging)
+      if (this.quantization !== 'none') {
+        await databaseService.putBatch<StoredCode>(DB_CONFIGS.cache, STORE_CODES, items.map(item => this.codeFor(item.id, item.embedding)))
+      }
+    }
+    console.log(`[VectorStore] ${this.quantization === 'none' ? 'VOY' : this.quantization} ${staging ? 'staging ' : ''}index rebuilt with ${total} entries, ${entries.length} from float vectors`)
+  }
+
+  getMigrationStatus(): EmbeddingMigrationStatus {
+    const total = this.invertedIndex.getDocCount()
+    const done = total - this.invertedIndex.find(e => !isCurrent(e)).length
+    return { active: this.migrating, done, total, ...(this.migrating && { from: this.indexSignature }), to: embeddingProvider.signature }
+  }
+
+  // a pass still winding down after a model switch hands over to the next one
+  private startMigration(): void {
+    const run: Promise<void> = (this.migration || Promise.resolve())
+      .then(() => this.migrate())
+      .catch(err => console.error('[VectorStore] Embedding migration paused, resumes on next load:', err))
+      .finally(() => { if (this.migration === run) this.migration = null })
+    this.migration = run
+  }
+
+  // re-embeds stored chunk text batch by batch; each chunk is stamped as it lands, so a
+  // restarted worker rebuilds staging from the stamped ones and carries on with the rest
+  private async migrate(): Promise<void> {
+    if (!this.migrating) return
+    // a model switched mid-run ends this pass, the reload for the new one starts the next
+    const target = embeddingProvider.signature
+    const switched = () => !sameEmbedding(target, embeddingProvider.signature)
+    console.log(`[VectorStore] Migrating embeddings ${describe(this.indexSignature)} → ${describe(target)}`)
+    this.broadcastMigration()
+
+    for (;;) {
+      const batch = await this.withContent(this.invertedIndex.find(e => !isCurrent(e)).slice(0, MIGRATION_BATCH))
+      if (batch.length === 0 || switched()) break
+      const vectors = await this.migrationVectors(batch, target)
+
+      const step = this.operationQueue.then(async () => {
+        await this.ensureIndexLoaded()
+        if (switched()) return
+        for (const [i, entry] of batch.entries()) {
+          if (!this.invertedIndex.has(entry.id)) continue // deleted while embedding
+          const stamped = { ...entry, embedder: target }
+          await this.storeDocument(stamped, vectors[i])
+          await this.restampPostings(stamped)
+          await this.index.add([this.itemFor(entry, vectors[i])], true)
+        }
+      })
+      this.operationQueue = step.catch(() => {})
+      await step
+      this.broadcastMigration()
+    }
+
+    const promote = this.operationQueue.then(async () => {
+      await this.ensureIndexLoaded()
+      if (switched()) return
+      await this.index.promote()
+      this.indexSignature = target
+      this.migrating = false
+      await this.saveIndex()
+    })
+    this.operationQueue = promote.catch(() => {})
+    await promote
+    if (switched()) return
+    console.log('[VectorStore] Embedding migration complete')
+    this.broadcastMigration()
+  }
+
+  // stored vectors of a smaller matryoshka size are sliced, everything else is re-embedded
+  private async migrationVectors(batch: VectorEntry[], target: EmbeddingSignature): Promise<Float32Array[]> {
+    const stored = await this.embeddingsFor(batch.filter(e => sliceable(e.embedder, target)))
+    const rest = batch.filter(e => !stored.has(e.id))
+    const embedded = rest.length ? await embeddingProvider.embedBatch(rest.map(e => e.content), false) : []
+    const byId = new Map(rest.map((e, i) => [e.id, embedded[i]]))
+    return batch.map(e => stored.has(e.id) ? slice(stored.get(e.id)!, target.dims) : byId.get(e.id)!)
+  }
+
+  private broadcastMigration(): void {
+    chrome.runtime.sendMessage({ type: 'EMBEDDING_MIGRATION_PROGRESS', status: this.getMigrationStatus() }).catch(() => {})
   }
 
   async addBatch(entries: Array<{ entry: VectorEntry; embedding: Float32Array }>): Promise<void> {
@@ -167,36 +481,98 @@ export class VectorStore {
   private async _doLoad(): Promise<void> {
     const startTime = Date.now()
     console.log('[VectorStore] Loading index...')
+
+    await embeddingProvider.ready()
+    const { vectorStorage } = await storageService.getMultiple<{ vectorStorage: Partial<VectorStorageSettings> }>(['vectorStorage'])
+    this.quantization = VectorPrefs.normalize(vectorStorage).quantization
+    this.index = this.quantization === 'none' ? new VoyVectorIndex() : new QuantizedVectorIndex(this.quantization)
     
-    // load voy index from IDB
-    const record = await databaseService.get<any>(DB_CONFIGS.cache, 'page_cache', 'system:voy_index')
-    if (record && record.value) {
-      console.log('[VectorStore] Found persisted VOY index, loading into sandbox...')
-      try {
-        // handle both compressed and legacy uncompressed data
-        let indexData = record.value as Uint8Array
-        if (record.compressed) {
-          indexData = await this.decompress(indexData)
-          console.log(`[VectorStore] Decompressed VOY index: ${record.value.length} → ${indexData.length} bytes`)
-        }
-        // convert bytes back to string for voyLoad
-        const indexStr = new TextDecoder().decode(indexData)
-        await localModels.voyLoad(indexStr)
-        this.voyIndexLoadedAt = Date.now()
-        console.log(`[VectorStore] VOY index loaded from IDB (${Date.now() - startTime}ms)`)
-      } catch (err) {
-        console.error('[VectorStore] VOY load failed, starting fresh:', err)
-      }
-    } else {
-      console.log('[VectorStore] No persisted VOY index found, starting fresh.')
+    // the record only says which model built the index, voy holds nothing between loads
+    const record = await databaseService.get<IndexRecord>(DB_CONFIGS.cache, 'page_cache', INDEX_RECORD)
+    this.indexSignature = record ? record.embedder || LEGACY_EMBEDDING_SIGNATURE : embeddingProvider.signature
+    await localModels.voyClear()
+    console.log(`[VectorStore] Building ${this.quantization === 'none' ? 'VOY index from stored vectors' : `${this.quantization} index from saved codes`}.`)
+
+    // quantized search never reads the float vectors in bulk, only chunks without a code
+    await this.loadInvertedIndex()
+    const quantized = this.quantization !== 'none'
+    const vectors = quantized ? undefined : await this.readStoredVectors()
+    const codes = quantized ? await this.readStoredCodes() : undefined
+
+    // a fresh sandbox has no staging index, it's rebuilt from the chunks already moved
+    const stale = this.invertedIndex.find(e => !isCurrent(e)).length
+    this.migrating = stale > 0 || !sameEmbedding(this.indexSignature, embeddingProvider.signature)
+    await this.rebuildIndex(false, vectors, codes)
+    if (this.migrating) {
+      console.log(`[VectorStore] Index built with ${describe(this.indexSignature)}, ${stale} chunks to re-embed`)
+      await this.rebuildIndex(true, vectors, codes)
     }
     
-    // rebuild inverted index from stored documents
-    await this.rebuildInvertedIndex()
-    
     this.loaded = true
     this.lastSandboxId = localModels.getSandboxId()
     console.log(`[VectorStore] Index ready. ${this.invertedIndex.getDocCount()} docs in inverted index. (${Date.now() - startTime}ms total)`)
+    if (this.migrating) this.startMigration()
+  }
+
+  // loads the index up front so an unfinished embedding migration resumes at startup
+  async ready(): Promise<void> {
+    await this.ensureIndexLoaded()
+  }
+
+  // search settings changed. a new model or dims reloads as an index built with the old one,
+  // so search keeps serving while chunks are re-embedded; a new quantization only rebuilds
+  async reconfigure(): Promise<void> {
+    this.operationQueue = this.operationQueue.then(async () => {
+      if (this.pendingSaveTimeout) {
+        clearTimeout(this.pendingSaveTimeout)
+        this.pendingSaveTimeout = null
+        await this.saveIndex()
+      }
+      await embeddingProvider.loadModel()
+      console.log(`[VectorStore] Embedding model is now ${describe(embeddingProvider.signature)}`)
+      this.loaded = false
+      this.loadingPromise = null
+      await this.ensureIndexLoaded()
+      await this.saveIndex()
+    }).catch(err => {
+      console.error('[VectorStore] Reconfigure failed:', err)
+    })
+    return this.operationQueue
+  }
+
+  // what the index costs and how much quantized search misses, measured on a bounded sample
+  // of the stored vectors and kept until chunks, model or quantization change
+  async getIndexStats(): Promise<RagIndexStats> {
+    await this.ensureIndexLoaded()
+    const signature = embeddingProvider.signature
+    const current = this.invertedIndex.find(isCurrent)
+    const key = `${describe(signature)}:${this.quantization}`
+    if (this.statsCache?.key === key) return this.statsCache.stats
+
+    const step = Math.max(1, Math.ceil(current.length / RECALL_POOL))
+    const pool = await this.embeddingsFor(current.filter((_, i) => i % step === 0))
+    const { sampled, recall } = measureRecall(pool, VectorPrefs.QUANTIZATIONS, RECALL_AT, RECALL_SAMPLES)
+
+    let vectorBytes = 0
+    for (const entry of this.invertedIndex.find(() => true)) {
+      vectorBytes += (entry.embedder || LEGACY_EMBEDDING_SIGNATURE).dims * Float32Array.BYTES_PER_ELEMENT
+    }
+    const stats: RagIndexStats = {
+      chunks: this.invertedIndex.getDocCount(),
+      embedding: signature,
+      quantization: this.quantization,
+      vectorBytes,
+      codeBytes: this.quantization === 'none' ? 0 : indexBytes(this.quantization, current.length, signature.dims),
+      recallAt: RECALL_AT,
+      sampled,
+      options: VectorPrefs.QUANTIZATIONS.map(quantization => ({
+        quantization,
+        indexBytes: indexBytes(quantization, current.length, signature.dims),
+        recall: recall[quantization]
+      }))
+    }
+    this.statsCache = { key, stats }
+    return stats
   }
 
   // force reload from IDB - call when index seems stale
@@ -228,37 +604,73 @@ export class VectorStore {
     return this.invertedIndex.getDocCount()
   }
 
-  private async rebuildInvertedIndex(): Promise<void> {
-    console.log('[VectorStore] Rebuilding inverted index from IDB...')
+  // postings carry each chunk's metadata, so only chunk keys are read from page_cache. a
+  // document is read, tokenized and saved again only when its postings are missing, stale or
+  // lack the entry; a vector still stored inside it moves to rag_vectors on the way
+  private async loadInvertedIndex(): Promise<void> {
+    console.log('[VectorStore] Loading inverted index from IDB...')
     this.invertedIndex.clear()
-    const db = await databaseService.getDatabase(DB_CONFIGS.cache)
-    const tx = db.transaction('page_cache', 'readonly')
-    const store = tx.objectStore('page_cache')
-    const cursorRequest = store.openCursor()
-
-    return new Promise<void>((resolve) => {
-      let count = 0
-      cursorRequest.onsuccess = (e) => {
-        const cursor = (e.target as IDBRequest).result as IDBCursorWithValue
-        if (cursor) {
-          const val = cursor.value
-          if (typeof val.url === 'string' && val.url.startsWith('rag:')) {
-            this.invertedIndex.add(val as VectorEntry)
-            count++
-          }
-          cursor.continue()
-        } else {
-          console.log(`[VectorStore] Inverted index rebuilt with ${count} documents.`)
-          resolve()
-        }
-      }
-      cursorRequest.onerror = () => {
-        console.error('[VectorStore] Cursor error during rebuild')
-        resolve()
+    const [records, keys] = await Promise.all([
+      databaseService.getAll<StoredPostings>(DB_CONFIGS.cache, STORE_POSTINGS),
+      databaseService.getAllKeys(DB_CONFIGS.cache, 'page_cache', IDBKeyRange.bound('rag:', 'rag:\uffff'))
+    ])
+    const postings = new Map(records.map(p => [p.id, p]))
+    const analyzed: StoredPostings[] = []
+    const inline: StoredDocument[] = []
+
+    for (const key of keys) {
+      const id = key.slice('rag:'.length)
+      const stored = postings.get(id)
+      postings.delete(id)
+      if (stored?.entry && isCurrentAnalysis(stored)) {
+        this.invertedIndex.add(stored.entry, stored, stored.bytes || 0)
+        continue
       }
-    })
+      const doc = await databaseService.get<StoredDocument>(DB_CONFIGS.cache, 'page_cache', key)
+      if (!doc) continue
+      const { url: _url, embedding, ...entry } = doc
+      analyzed.push(this.indexTerms(entry, isCurrentAnalysis(stored) ? stored : undefined))
+      if (embedding) inline.push(doc)
+    }
+    console.log(`[VectorStore] Inverted index loaded with ${this.invertedIndex.getDocCount()} documents, ${analyzed.length} read from page_cache.`)
+
+    if (analyzed.length) await databaseService.putBatch(DB_CONFIGS.cache, STORE_POSTINGS, analyzed)
+    // postings left over belong to chunks that are gone
+    for (const id of postings.keys()) await databaseService.delete(DB_CONFIGS.cache, STORE_POSTINGS, id)
+
+    if (inline.length) {
+      await databaseService.putBatch<StoredVector>(DB_CONFIGS.cache, STORE_VECTORS, inline.map(doc => ({ id: doc.id, embedding: doc.embedding! })))
+      await databaseService.putBatch(DB_CONFIGS.cache, 'page_cache', inline.map(({ embedding: _embedding, ...doc }) => doc))
+      console.log(`[VectorStore] Moved ${inline.length} inline vectors to ${STORE_VECTORS}`)
+    }
   }
 
+  private async readStoredVectors(): Promise<Map<string, Float32Array>> {
+    const vectors = await databaseService.getAll<StoredVector>(DB_CONFIGS.cache, STORE_VECTORS)
+    return new Map(vectors.map(v => [v.id, v.embedding]))
+  }
+
+  // codes saved under another quantization are skipped, their chunks get quantized again
+  private async readStoredCodes(): Promise<Map<string, Code>> {
+    const codes = await databaseService.getAll<StoredCode>(DB_CONFIGS.cache, STORE_CODES)
+    return new Map(codes.filter(c => c.mode === this.quantization).map(({ id, code, scale, dims }) => [id, { code, scale, dims }]))
+  }
+
+  private codeFor(id: string, embedding: ArrayLike<number>): StoredCode {
+    const mode = this.quantization as StoredCode['mode']
+    return { id, mode, ...quantize(embedding, mode) }
+  }
+
+  // approximate idb footprint per chunk id: the record as json plus its float vector
+  async storedBytes(): Promise<Map<string, number>> {
+    await this.ensureIndexLoaded()
+    return new Map(this.invertedIndex.find(() => true).map(entry => [
+      entry.id,
+      this.invertedIndex.sizeOf(entry.id) + (entry.embedder || LEGACY_EMBEDDING_SIGNATURE).dims * Float32Array.BYTES_PER_ELEMENT
+    ]))
+  }
+
+
   private scheduleDebouncedSave(): void {
     if (this.pendingSaveTimeout) clearTimeout(this.pendingSaveTimeout)
     
@@ -279,57 +691,43 @@ export class VectorStore {
 
   private async saveIndex(): Promise<void> {
     if (!this.loaded) return
-    
-    console.log('[VectorStore] Saving VOY index (compressed) to IDB...')
-    try {
-      // voySerialize now returns string directly (survives chrome messaging)
-      const serializedStr = await localModels.voySerialize()
-      
-      if (!serializedStr) {
-        console.log('[VectorStore] VOY index empty, skipping save')
-        return
-      }
-      
-      // convert string to bytes for compression
-      const index = new TextEncoder().encode(serializedStr)
-      
-      // gzip compress for 60-80% smaller storage
-      const compressed = await this.compress(index)
-      
-      await databaseService.put(DB_CONFIGS.cache, 'page_cache', {
-        url: 'system:voy_index',
-        value: compressed,
-        compressed: true,
-        timestamp: Date.now()
-      })
-      console.log(`[VectorStore] VOY index saved: ${index.length} → ${compressed.length} bytes (${Math.round((1 - compressed.length / index.length) * 100)}% reduction)`)
-    } catch (err) {
-      console.error('[VectorStore] Save failed:', err)
-    }
+    await databaseService.put<IndexRecord>(DB_CONFIGS.cache, 'page_cache', {
+      url: INDEX_RECORD,
+      quantization: this.quantization,
+      embedder: this.indexSignature,
+      timestamp: Date.now()
+    }).catch(err => console.error('[VectorStore] Save failed:', err))
   }
 
-  private async compress(data: Uint8Array): Promise<Uint8Array> {
-    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'))
-    return new Uint8Array(await new Response(stream).arrayBuffer())
+  // a stored analysis skips the tokenizer; returns the postings record to persist
+  private indexTerms(entry: VectorEntry, analyzed?: AnalyzedDoc): StoredPostings {
+    const doc = analyzed || analyzeDoc(entry.content, String(entry.metadata?.title || ''))
+    const { version, lang, terms, lengths } = doc
+    const record = { id: entry.id, version, lang, terms, lengths, entry: metaOf(entry), bytes: sizeOf(entry) }
+    this.invertedIndex.add(record.entry, doc, record.bytes)
+    return record
   }
 
-  private async decompress(data: Uint8Array): Promise<Uint8Array> {
-    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'))
-    return new Uint8Array(await new Response(stream).arrayBuffer())
+  // a new embedding stamp leaves the terms alone, only the entry saved with them changes
+  private async restampPostings(entry: VectorEntry): Promise<void> {
+    const stored = await databaseService.get<StoredPostings>(DB_CONFIGS.cache, STORE_POSTINGS, entry.id)
+    const record = { ...(stored || this.indexTerms(entry)), entry: metaOf(entry), bytes: sizeOf(entry) }
+    this.invertedIndex.restamp(record.entry, record.bytes)
+    await databaseService.put<StoredPostings>(DB_CONFIGS.cache, STORE_POSTINGS, record)
   }
 
-  private async storeDocument(entry: VectorEntry): Promise<void> {
+  private async storeDocument(entry: VectorEntry, embedding: Float32Array): Promise<void> {
     await databaseService.put(DB_CONFIGS.cache, 'page_cache', {
       url: `rag:${entry.id}`,
       ...entry,
-      timestamp: Date.now(),
+      timestamp: entry.timestamp || Date.now(),
       ttl: 24 * 60 * 60 * 1000 * 60 // 60 days
     })
-  }
-
-  private async retrieveDocument(id: string): Promise<VectorEntry | undefined> {
-    const item = await databaseService.get<any>(DB_CONFIGS.cache, 'page_cache', `rag:${id}`)
-    return item as VectorEntry | undefined
+    this.statsCache = null
+    await databaseService.put<StoredVector>(DB_CONFIGS.cache, STORE_VECTORS, { id: entry.id, embedding })
+    // without quantization a code would go stale as the vector changes, it's made again on switching
+    if (this.quantization !== 'none') await databaseService.put<StoredCode>(DB_CONFIGS.cache, STORE_CODES, this.codeFor(entry.id, embedding))
+    else await databaseService.delete(DB_CONFIGS.cache, STORE_CODES, entry.id)
   }
 }
 
@@ -118,7 +118,9 @@ declare global {
     prompt(input: string, options?: { signal?: AbortSignal }): Promise<string>
     promptStreaming(input: string, options?: { signal?: AbortSignal }): ReadableStream<string>
     clone(): Promise<LanguageModelSession>
+    append?(messages: Array<{ role: 'user' | 'assistant'; content: string }>): Promise<void> // newer chrome only
     destroy(): void
+    measureInputUsage(input: string, options?: { signal?: AbortSignal }): Promise<number>
     readonly inputUsage: number
     readonly inputQuota: number
   }
@@ -1,3 +1,5 @@
+import type { AIFeature } from './index'
+
 export type ChromeAIAvailability = 'available' | 'downloadable' | 'downloading' | 'unavailable'
 
 // summarizer api
@@ -108,25 +110,108 @@ export interface CreateOptions {
   monitor?: (m: DownloadMonitor) => void
 }
 
-export interface AICompleteRequest {
+// routing and cancellation fields shared by the gateway-routed requests
+export interface AIRoutedRequest {
+  feature?: AIFeature // picks the routing table entry
+  model?: string // pinned model, set by the gateway from the route (ollama only)
+  signal?: AbortSignal // aborts the in-flight call, never forwarded as message data
+  bypassCache?: boolean // skip the persistent response cache for this call
+}
+
+export interface AICompleteRequest extends AIRoutedRequest {
   systemPrompt: string
   userPrompt: string
   messages?: Array<{ role: 'user' | 'assistant'; content: string }>
   temperature?: number
   maxTokens?: number
   responseConstraint?: object
+  sessionKey?: string // conversation id, chrome ai keeps a warm session per key across turns
+  sessionTurn?: string // the bare user message when userPrompt also carries this turn's retrieved context
 }
 
 export interface AICompleteResponse {
   ok: boolean
   content?: string
   error?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
   model?: string
   timing?: number
 }
 
-export interface AISummarizeRequest {
+// json schema subset accepted by completeStructured
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: unknown[]
+  minItems?: number
+  maxItems?: number
+  description?: string
+}
+
+export type AIStructuredErrorKind =
+  | 'provider'        // no provider produced a completion
+  | 'cancelled'
+  | 'invalid-json'    // the last reply had no parseable json
+  | 'schema-mismatch' // json parsed but did not fit the schema
+
+export type AIStructuredResponse<T> =
+  | { ok: true; data: T; provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'; model?: string; attempts: number }
+  | { ok: false; kind: AIStructuredErrorKind; error: string; issues?: string[]; provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'; attempts: number }
+
+// tool the model may call, parameters describe the arguments object
+export interface AIToolDefinition {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+export interface AIToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+// conversation for a tool-calling turn: assistant messages may carry calls, tool messages carry results
+export interface AIToolMessage {
+  role: 'user' | 'assistant' | 'tool'
+  content: string
+  toolCalls?: AIToolCall[] // assistant only
+  toolName?: string        // tool only
+}
+
+export interface AIToolRequest extends AIRoutedRequest {
+  systemPrompt: string
+  messages: AIToolMessage[] // ends with the user's message or tool results
+  tools: AIToolDefinition[] // empty forces a plain answer
+  temperature?: number
+}
+
+// either tool calls to run or the final answer in content
+export interface AIToolResponse {
+  ok: boolean
+  content?: string
+  toolCalls?: AIToolCall[]
+  error?: string
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
+  model?: string
+  timing?: number
+}
+
+// one piece of a streamed completion
+export interface AIStreamChunk {
+  content: string // delta, not the accumulated text
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser' | 'mock'
+  model?: string
+}
+
+// offscreen -> background messages on the chrome ai stream port
+export type ChromeAIStreamMessage =
+  | { type: 'chunk'; content: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string }
+
+export interface AISummarizeRequest extends AIRoutedRequest {
   content: string
   context?: string
   type?: 'key-points' | 'tldr' | 'teaser' | 'headline'
@@ -137,7 +222,7 @@ export interface AISummarizeResponse {
   ok: boolean
   summary?: string
   error?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
   timing?: number
 }
 
@@ -151,7 +236,7 @@ export interface AITranslateResponse {
   ok: boolean
   translation?: string
   error?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
   timing?: number
 }
 
@@ -165,10 +250,10 @@ export interface AIDetectLanguageResponse {
   confidence?: number
   allResults?: LanguageDetection[]
   error?: string
-  provider?: 'chrome-ai' | 'ollama' | 'regex'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser' | 'regex'
 }
 
-export interface AIWriteRequest {
+export interface AIWriteRequest extends AIRoutedRequest {
   prompt: string
   tone?: 'formal' | 'neutral' | 'casual'
   length?: 'short' | 'medium' | 'long'
@@ -179,11 +264,11 @@ export interface AIWriteResponse {
   ok: boolean
   content?: string
   error?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
   timing?: number
 }
 
-export interface AIRewriteRequest {
+export interface AIRewriteRequest extends AIRoutedRequest {
   text: string
   tone?: 'as-is' | 'more-formal' | 'more-casual'
   length?: 'as-is' | 'shorter' | 'longer'
@@ -194,6 +279,6 @@ export interface AIRewriteResponse {
   ok: boolean
   content?: string
   error?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
   timing?: number
 }
@@ -174,7 +174,7 @@ export interface SummaryTiming {
   total: number
   cached?: boolean
   model?: string
-  provider?: 'chrome-ai' | 'ollama'
+  provider?: 'chrome-ai' | 'ollama' | 'openai-compat'
 }
 
 export interface PageSummary {
@@ -296,9 +296,10 @@ export interface ApiEntry {
   meanings: ApiMeaning[]
 }
 
+// structured ai answer for a word lookup, keys kept short for small models
 export interface LLMParsedResult {
-  definition?: string
-  partOfSpeech?: string
+  pos: string
+  def: string
   example?: string
   synonyms?: string[]
 }
@@ -358,12 +359,165 @@ export interface LookupResponse {
 // ollama/llm
 export interface OllamaModel {
   name: string
+  size?: number // bytes on disk
+  modified_at?: string
+  digest?: string
+  details?: OllamaModelDetails
+}
+
+export interface OllamaModelDetails {
+  format?: string
+  family?: string
+  families?: string[]
+  parameter_size?: string // e.g. "3.2B"
+  quantization_level?: string // e.g. "Q4_K_M"
 }
 
 export interface OllamaTagsResponse {
   models?: OllamaModel[]
 }
 
+// subset of POST /api/show used for model profiles
+export interface OllamaShowResponse {
+  parameters?: string // modelfile PARAMETER lines, e.g. "num_ctx 8192"
+  model_info?: Record<string, unknown> // includes "<arch>.context_length", "general.parameter_count"
+  details?: OllamaModelDetails
+  capabilities?: string[] // "completion", "embedding", "vision", "tools"...; missing on older ollama
+}
+
+// what a model can do and how big it is, probed once per model digest
+export interface OllamaModelProfile {
+  name: string
+  digest?: string
+  family: string
+  parameterSize: string
+  parameterCount: number | null // billions
+  quantization: string
+  contextLength: number
+  capabilities: string[]
+  chat: boolean // can serve text tasks; false for embedding-only and vision-only models
+}
+
+// latency budget vs quality when picking a model for a task
+export type OllamaSelectionPolicy = 'fast' | 'balanced' | 'quality'
+
+export type OllamaSelectionPrefs = Partial<Record<TaskType, OllamaSelectionPolicy>>
+
+// installed model as listed by the settings model manager
+export interface OllamaModelInfo {
+  name: string
+  size: number
+  family: string
+  parameterSize: string
+  quantization: string
+  contextLength: number
+  chat: boolean
+  modifiedAt?: string
+}
+
+// one line of the streaming /api/pull response, tagged with the model being pulled
+export interface OllamaPullProgress {
+  model: string
+  status: string
+  completed?: number
+  total?: number
+  done?: boolean
+  error?: string
+}
+
+// suggested models to pull for a task
+export interface OllamaRecommendation {
+  task: TaskType
+  models: Array<{ name: string; installed: boolean }>
+}
+
+// user-configured ollama endpoint, tried in list order
+export interface OllamaHost {
+  url: string
+  token?: string
+  timeout?: number // chat request timeout in ms, defaults to OllamaService.TIMEOUT_CHAT
+}
+
+export interface OllamaHostHealth {
+  url: string
+  available: boolean
+  models: string[]
+  latency?: number
+  error?: string
+}
+
+// features the gateway can route to their own provider order
+export type AIFeature =
+  | 'email-summary'
+  | 'email-replies'
+  | 'page-summary'
+  | 'page-chat'
+  | 'global-chat'
+  | 'word-lookup'
+  | 'query-expansion'
+
+export interface AIRoute {
+  providers: Array<'chrome-ai' | 'ollama' | 'openai-compat'> // tried in order before the in-browser model, others are skipped
+  ollamaModel?: string // pins the ollama model for this feature
+}
+
+// missing features use the global provider preference
+export type AIRoutingTable = Partial<Record<AIFeature, AIRoute>>
+
+// tools the chat agent can call, each one switched on or off in settings
+export type AgentToolName = 'search_knowledge' | 'get_email_summary' | 'define_word' | 'summarize_page'
+
+export interface AgentSettings {
+  enabled: boolean
+  maxIterations: number // model turns per question, the last one has to answer
+  tools: Record<AgentToolName, boolean>
+}
+
+// one tool call as shown under the assistant message
+export interface AgentToolStep {
+  id: string
+  tool: AgentToolName
+  args: Record<string, unknown>
+  status: 'running' | 'done' | 'error' | 'denied'
+  summary?: string
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+// per-provider breaker state, written by the gateway on every transition
+export interface ProviderCircuit {
+  state: CircuitState
+  retryAt?: number // when an open circuit lets a probe call through
+  reason?: string  // what tripped it
+}
+
+export type ProviderCircuitTable = Partial<Record<'chrome-ai' | 'ollama' | 'openai-compat' | 'browser' | 'mock', ProviderCircuit>>
+
+// what the settings card shows per provider: breaker state plus recorded call stats
+// open page or email the prompt editor previews against
+export interface PromptPreviewSource {
+  title: string
+  content: string
+  bullets: string[]
+  isEmail: boolean
+}
+
+export interface ProviderHealth {
+  provider: 'chrome-ai' | 'ollama' | 'openai-compat' | 'browser'
+  circuit: ProviderCircuit
+  calls: number
+  successRate: number // 0-1
+  p50: number         // ms
+  p95: number         // ms
+}
+
+// openai-compatible local server (llama.cpp / lm studio / vllm)
+export interface OpenAICompatConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+}
+
 export interface ChatMessage {
   role: string
   content: string
@@ -471,12 +625,81 @@ export interface ChatMessageRequest {
   model?: string
   messages: ChatMessage[]
   pageContext?: PageContext
+  systemPrompt?: string // replaces the prompt built from pageContext when the caller already did retrieval
+  context?: string // sections retrieved for this turn, sent with the question so systemPrompt stays the same
+  conversationId?: string // same id across turns of one chat, lets chrome ai reuse its session
+}
+
+export interface GlobalChatRequest {
+  type: 'GLOBAL_CHAT'
+  messages: ChatMessage[]
+  filter?: RagSearchFilter // narrows what the chat retrieves from
 }
 
+export interface ChatSource {
+  index: number
+  title: string
+  url: string
+  type: 'email' | 'page' | 'pdf'
+  score: number
+  snippet: string
+}
+
+// background -> side panel events on the chat stream port
+export type ChatStreamEvent =
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'tool'; step: AgentToolStep }
+  | { type: 'token'; content: string }
+  | { type: 'done'; content: string; timing: { total: number; model: string } }
+  | { type: 'error'; error: string }
+
+// side panel -> background on the archive port; an import sends its file in parts first
+export type ArchivePortRequest =
+  | { type: 'part'; data: string }
+  | { type: 'export'; filter?: RagDeleteFilter }
+  | { type: 'import'; mode: RagImportMode }
+
+// background -> side panel on the archive port; an export's file arrives in parts
+export type ArchivePortEvent =
+  | { type: 'part'; data: string }
+  | { type: 'exported'; documents: number }
+  | { type: 'imported'; result: RagImportResult }
+  | { type: 'error'; error: string }
+
 export interface CheckHealthMessage {
   type: 'CHECK_OLLAMA_HEALTH'
 }
 
+export interface OllamaListModelsMessage {
+  type: 'OLLAMA_LIST_MODELS'
+}
+
+export interface OllamaPullModelMessage {
+  type: 'OLLAMA_PULL_MODEL'
+  model: string
+}
+
+export interface OllamaCancelPullMessage {
+  type: 'OLLAMA_CANCEL_PULL'
+  model: string
+}
+
+export interface OllamaDeleteModelMessage {
+  type: 'OLLAMA_DELETE_MODEL'
+  model: string
+}
+
+export interface CheckOpenAICompatHealthMessage {
+  type: 'CHECK_OPENAI_COMPAT_HEALTH'
+}
+
+// omitting operation cancels every kind for the url, omitting the url cancels every url
+export interface CancelOperationMessage {
+  type: 'CANCEL_OPERATION'
+  operation?: 'chat' | 'indexing' | 'summary'
+  sourceUrl?: string
+}
+
 export interface GetEmailCacheMessage {
   type: 'GET_EMAIL_CACHE'
   emailId: string
@@ -509,6 +732,12 @@ export type BackgroundMessage =
   | WordLookupMessage
   | ChatMessageRequest
   | CheckHealthMessage
+  | CheckOpenAICompatHealthMessage
+  | OllamaListModelsMessage
+  | OllamaPullModelMessage
+  | OllamaCancelPullMessage
+  | OllamaDeleteModelMessage
+  | CancelOperationMessage
   | GetEmailCacheMessage
   | SetEmailCacheMessage
   | DevSeedDataMessage
@@ -517,19 +746,30 @@ export type BackgroundMessage =
   | { type: 'EXTRACT_ONLY'; tabId: number }
   | { type: 'RAG_INDEX'; entry: VectorEntry }
   | { type: 'RAG_INDEX_CHUNKS'; text: string; metadata: Record<string, unknown> }
-  | { type: 'RAG_SEARCH'; query: string; limit?: number }
+  | { type: 'RAG_SEARCH'; query: string; limit?: number; filter?: RagSearchFilter }
   | { type: 'RAG_HAS_INDEXED_CONTENT'; sourceUrl: string }
   | { type: 'RAG_SEARCH_WITH_CONTEXT'; query: string; limit?: number; sourceUrl?: string }
   | { type: 'RAG_IS_INDEXING'; sourceId: string }
   | { type: 'RAG_ENSURE_INDEXED'; text: string; metadata: Record<string, unknown> }
   | { type: 'RAG_INDEXING_STATUS'; sourceId: string }
-  | { type: 'GLOBAL_CHAT'; messages: ChatMessage[] }
+  | { type: 'RAG_DELETE_SOURCE'; sourceId: string }
+  | { type: 'RAG_DELETE_BY_FILTER'; filter: RagDeleteFilter }
+  | { type: 'RAG_LIST_SOURCES' }
+  | { type: 'RAG_GET_SOURCE_CHUNKS'; sourceId: string }
+  | { type: 'RAG_REINDEX_SOURCE'; sourceId: string }
+  | { type: 'RAG_MIGRATION_STATUS' }
+  | { type: 'RAG_INDEX_STATS' }
+  | GlobalChatRequest
   | { type: 'PDF_SUMMARIZE'; url: string }
   | { type: 'PDF_EXTRACT_TEXT'; url: string }
   | { type: 'OPEN_SIDE_PANEL'; focus?: string }
   | { type: 'TOGGLE_SIDE_PANEL'; focus?: string }
   | { type: 'PDF_PROCESS_ARRAYBUFFER'; data: number[]; filename: string; action: 'summarize' | 'copy'; sourceUrl?: string }
   | { type: 'GET_PAGE_CACHE'; url: string }
+  | { type: 'AI_MOCK_STATUS' }
+  | { type: 'AI_MOCK_EXPORT_FIXTURE' }
+  | { type: 'AI_MOCK_IMPORT_FIXTURE'; fixture: unknown }
+  | { type: 'AI_MOCK_CLEAR_FIXTURE' }
 
 export type ResponseCallback = (response: unknown) => void
 
@@ -667,6 +907,7 @@ export interface AppPageSummary {
 export interface AppChatMessage {
   role: 'user' | 'assistant'
   content: string
+  steps?: AgentToolStep[] // tool calls the agent made for this reply
   timing?: { 
     total: number
     model?: string
@@ -704,6 +945,16 @@ export interface OllamaHealthResponse {
   error?: string
   success?: boolean
   connected?: boolean
+  hosts?: OllamaHostHealth[]
+}
+
+export interface OllamaModelsResponse {
+  success: boolean
+  models?: OllamaModelInfo[]
+  recommendations?: OllamaRecommendation[]
+  picks?: Partial<Record<TaskType, string>> // model each task would run on right now
+  pulls?: OllamaPullProgress[] // pulls still running in the background
+  error?: string
 }
 
 export interface AppSummaryResponse {
@@ -743,12 +994,108 @@ export interface FetchResponse {
 }
 
 // rag & pdf
+// what produced a vector, vectors only compare with others of the same signature
+export interface EmbeddingSignature {
+  model: string
+  dims: number
+  scheme: string // pooling, normalization and task prefixes
+}
+
 export interface VectorEntry {
   id: string
   type: 'email' | 'page' | 'pdf' | 'article'
   content: string
   metadata: Record<string, unknown>
   timestamp: number
+  embedder?: EmbeddingSignature // stamped when stored, missing on chunks stored before stamping
+}
+
+// a chunk without its text, what the vector store keeps in memory
+export type VectorEntryMeta = Omit<VectorEntry, 'content'>
+
+export interface EmbeddingMigrationStatus {
+  active: boolean
+  done: number
+  total: number
+  from?: EmbeddingSignature
+  to: EmbeddingSignature
+}
+
+// how the search index holds vectors: float in voy, or quantized in memory and re-scored
+// with the float vectors kept per chunk
+export type VectorQuantization = 'none' | 'int8' | 'binary'
+
+export interface VectorStorageSettings {
+  dims: number | null // matryoshka models only, null keeps the model's default
+  quantization: VectorQuantization
+}
+
+export interface VectorQuantizationReport {
+  quantization: VectorQuantization
+  indexBytes: number    // in memory while searching
+  recall: number | null // recall@k against exact float search, null without enough vectors
+}
+
+export interface RagIndexStats {
+  chunks: number
+  embedding: EmbeddingSignature
+  quantization: VectorQuantization
+  vectorBytes: number          // float vectors stored per chunk
+  codeBytes: number            // saved quantized codes, 0 without quantization
+  recallAt: number
+  sampled: number              // queries behind the recall figures
+  options: VectorQuantizationReport[]
+}
+
+// which indexed sources to forget, every given field has to match
+export interface RagDeleteFilter {
+  sourceType?: 'article' | 'email' | 'pdf'
+  urlPrefix?: string
+  olderThan?: number // indexed before this timestamp
+}
+
+// narrows retrieval before ranking, every given field has to match and lists match any value
+export interface RagSearchFilter {
+  types?: Array<'article' | 'email' | 'pdf'>
+  from?: number // source dated at or after this timestamp (published, sent or created)
+  to?: number // source dated before this timestamp
+  domains?: string[] // hostnames, subdomains included
+  sourceIds?: string[] // source ids or urls, query strings ignored
+  tags?: string[] // tags the source's summary was given
+}
+
+export interface RagDeleteResult {
+  chunks: number
+  sources: string[]
+}
+
+// one indexed page, email or pdf as the library lists it
+export interface RagSourceInfo {
+  sourceId: string
+  type: 'article' | 'email' | 'pdf'
+  title: string
+  url: string
+  chunkCount: number
+  hasSummary: boolean
+  indexedAt: number
+  bytes: number // approximate size in idb, vectors included
+}
+
+export interface RagSourceChunk {
+  id: string
+  index: number
+  content: string
+  isSummary: boolean
+}
+
+// merge keeps whichever copy of a source is newer, replace empties the knowledge base first
+export type RagImportMode = 'merge' | 'replace'
+
+export interface RagImportResult {
+  sources: number
+  chunks: number
+  reembedded: number // chunks whose vectors didn't fit the current embedding model
+  skipped: number    // sources kept because the local copy was newer
 }
 
 export interface SearchResult {
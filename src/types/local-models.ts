@@ -1,7 +1,9 @@
 // local model types for transformers.js integration
-// embedding model bundled only
+// embedding, email triage (zero-shot + ner) and a small instruct model for the in-browser fallback provider
 
-export type LocalTask = 'embed'
+import type { EmbeddingSignature } from './index'
+
+export type LocalTask = 'embed' | 'classify' | 'ner' | 'generate'
 
 export interface ModelConfig {
   id: string              
@@ -11,25 +13,141 @@ export interface ModelConfig {
   sizeBytes: number       
   maxTokens?: number      
   dims?: number           
+  localPath?: string      // bundled location under the extension root
+}
+
+// embed is whichever entry of EMBEDDING_MODELS is selected in settings
+export const MODEL_REGISTRY: Record<Exclude<LocalTask, 'embed'>, ModelConfig> = {
+  classify: {
+    id: 'MoritzLaurer/deberta-v3-xsmall-zeroshot-v1.1-all-33',
+    task: 'zero-shot-classification',
+    dtype: 'q8',
+    device: 'wasm',
+    sizeBytes: 83_000_000,
+    maxTokens: 512,
+    localPath: 'models/deberta-v3-xsmall-zeroshot/'
+  },
+  ner: {
+    id: 'Xenova/bert-base-NER',
+    task: 'token-classification',
+    dtype: 'q8',
+    device: 'wasm',
+    sizeBytes: 104_000_000,
+    maxTokens: 512,
+    localPath: 'models/bert-base-NER/'
+  },
+  generate: {
+    id: 'onnx-community/Qwen2.5-0.5B-Instruct',
+    task: 'text-generation',
+    dtype: 'q4',
+    device: 'wasm',
+    sizeBytes: 500_000_000,
+    maxTokens: 32768,
+    localPath: 'models/qwen2.5-0.5b-instruct/'
+  }
+} as const
+
+export type EmbeddingModelId = 'nomic-embed-text-v1.5' | 'multilingual-e5-small' | 'bge-m3'
+
+export interface EmbeddingModelConfig {
+  id: string              // hugging face id
+  label: string
+  dtype: ModelConfig['dtype']
+  sizeBytes: number
+  localPath: string       // under the extension root, bundled by scripts/download-models.mjs
+  dims: number            // matryoshka models are sliced to this and renormalized
+  matryoshkaDims?: number[] // other sizes the slice can be set to in settings
+  pooling: 'mean' | 'cls'
+  queryPrefix: string
+  documentPrefix: string
+  maxChars: number        // past this the tokenizer truncates
+  multilingual: boolean
 }
 
-export const MODEL_REGISTRY: Record<LocalTask, ModelConfig> = {
-  embed: {
+// nomic is bundled by default, the others are downloaded into the build on request. models
+// can't be imported at runtime, only these ones load
+export const EMBEDDING_MODELS: Record<EmbeddingModelId, EmbeddingModelConfig> = {
+  'nomic-embed-text-v1.5': {
     id: 'nomic-ai/nomic-embed-text-v1.5',
-    task: 'feature-extraction',
+    label: 'nomic embed v1.5 (english)',
     dtype: 'q8',
-    device: 'wasm',  // wasm for CSP compatibility
     sizeBytes: 68_000_000,
-    maxTokens: 8192,
-    dims: 768  // matryoshka: slice to 256 for efficiency
+    localPath: 'models/nomic-embed-text-v1.5/',
+    dims: 256, // of 768
+    matryoshkaDims: [768, 512, 256, 128],
+    pooling: 'mean',
+    queryPrefix: 'search_query: ',
+    documentPrefix: 'search_document: ',
+    maxChars: 24000, // 8192 tokens, with headroom
+    multilingual: false
+  },
+  'multilingual-e5-small': {
+    id: 'Xenova/multilingual-e5-small',
+    label: 'multilingual e5 small',
+    dtype: 'q8',
+    sizeBytes: 118_000_000,
+    localPath: 'models/multilingual-e5-small/',
+    dims: 384,
+    pooling: 'mean',
+    queryPrefix: 'query: ',
+    documentPrefix: 'passage: ',
+    maxChars: 2000, // 512 tokens, above the longest (pdf) chunks
+    multilingual: true
+  },
+  'bge-m3': {
+    id: 'Xenova/bge-m3',
+    label: 'bge-m3 (multilingual, large)',
+    dtype: 'q8',
+    sizeBytes: 570_000_000,
+    localPath: 'models/bge-m3/',
+    dims: 1024,
+    pooling: 'cls',
+    queryPrefix: '',
+    documentPrefix: '',
+    maxChars: 24000,
+    multilingual: true
   }
-} as const
+}
+
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModelId = 'nomic-embed-text-v1.5'
+
+export function isEmbeddingModelId(value: unknown): value is EmbeddingModelId {
+  return typeof value === 'string' && value in EMBEDDING_MODELS
+}
+
+// pooling, renormalized after any slice, then the document|query prefixes
+export function embeddingSignature(model: EmbeddingModelConfig): EmbeddingSignature {
+  const prefix = (p: string) => p.replace(/[:\s]+$/, '')
+  return {
+    model: model.id,
+    dims: model.dims,
+    scheme: `${model.pooling}-norm:${prefix(model.documentPrefix)}|${prefix(model.queryPrefix)}`
+  }
+}
+
+// the model config that produces vectors with this signature, sized to its dims
+export function embeddingModelFor(signature: EmbeddingSignature): EmbeddingModelConfig | null {
+  const model = Object.values(EMBEDDING_MODELS).find(m => m.id === signature.model)
+  if (!model) return null
+  const sized = model.matryoshkaDims?.includes(signature.dims) ? { ...model, dims: signature.dims } : model
+  const made = embeddingSignature(sized)
+  return made.dims === signature.dims && made.scheme === signature.scheme ? sized : null
+}
+
+// what produced vectors and indexes stored before they were stamped
+export const LEGACY_EMBEDDING_SIGNATURE: EmbeddingSignature = embeddingSignature(EMBEDDING_MODELS['nomic-embed-text-v1.5'])
+
+export function sameEmbedding(a: EmbeddingSignature | undefined, b: EmbeddingSignature): boolean {
+  const from = a || LEGACY_EMBEDDING_SIGNATURE
+  return from.model === b.model && from.dims === b.dims && from.scheme === b.scheme
+}
 
 // request/response types
 
 export interface EmbedRequest {
   texts: string[]
   isQuery?: boolean
+  model: EmbeddingModelConfig
 }
 
 export interface EmbedResponse {
@@ -53,11 +171,12 @@ export interface NERRequest {
   text: string
 }
 
+// one entity per span: word pieces are merged and B-/I- prefixes dropped, so entity is PER, ORG, LOC or MISC
 export interface NEREntity {
   word: string
   entity: string
-  score: number
-  start: number
+  score: number // mean over the span's tokens
+  start: number // offsets into the request text, -1 when the span couldn't be located
   end: number
 }
 
@@ -69,7 +188,10 @@ export interface NERResponse {
 
 export interface GenerateRequest {
   prompt: string
+  system?: string
+  messages?: Array<{ role: 'user' | 'assistant'; content: string }> // earlier turns, before prompt
   maxTokens?: number
+  temperature?: number // 0 decodes greedily
 }
 
 export interface GenerateResponse {
@@ -87,11 +209,14 @@ export interface PipelineStatus {
 // discriminated union for sandbox messages
 export type OffscreenRequest =
   | { type: 'EMBED'; payload: EmbedRequest }
-  | { type: 'TOKENIZE'; texts: string[] }
-  | { type: 'PRELOAD'; tasks: LocalTask[] }
+  | { type: 'CLASSIFY'; payload: ClassifyRequest }
+  | { type: 'NER'; payload: NERRequest }
+  | { type: 'GENERATE'; payload: GenerateRequest }
+  | { type: 'TOKENIZE'; texts: string[]; model: EmbeddingModelConfig }
+  | { type: 'PRELOAD'; tasks: LocalTask[]; embedModel: EmbeddingModelConfig }
   | { type: 'UNLOAD'; tasks: LocalTask[] }
   | { type: 'STATUS' }
-  | { type: 'VOY'; action: 'ADD' | 'SEARCH' | 'SERIALIZE' | 'LOAD'; payload: unknown }
+  | { type: 'VOY'; action: 'ADD' | 'SEARCH' | 'REMOVE' | 'CLEAR' | 'PROMOTE'; payload: unknown }
 
 export type OffscreenResponse<T = unknown> = 
   | { ok: true; data: T; timing: number }
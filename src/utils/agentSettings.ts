@@ -0,0 +1,37 @@
+import type { AgentSettings, AgentToolName } from '../types'
+
+export class AgentPrefs {
+  static TOOLS: AgentToolName[] = ['search_knowledge', 'get_email_summary', 'define_word', 'summarize_page']
+
+  static LABELS: Record<AgentToolName, string> = {
+    search_knowledge: 'search saved pages & emails',
+    get_email_summary: 'read email summaries',
+    define_word: 'look up words',
+    summarize_page: 'summarize open tabs'
+  }
+
+  static MAX_ITERATIONS = 8
+
+  // summarizing a page runs a whole extra model call, so it starts off
+  static DEFAULT: AgentSettings = {
+    enabled: false,
+    maxIterations: 4,
+    tools: {
+      search_knowledge: true,
+      get_email_summary: true,
+      define_word: true,
+      summarize_page: false
+    }
+  }
+
+  static normalize(stored: Partial<AgentSettings> | null | undefined): AgentSettings {
+    const iterations = Math.round(Number(stored?.maxIterations))
+    return {
+      enabled: stored?.enabled === true,
+      maxIterations: Number.isFinite(iterations)
+        ? Math.min(Math.max(iterations, 1), AgentPrefs.MAX_ITERATIONS)
+        : AgentPrefs.DEFAULT.maxIterations,
+      tools: { ...AgentPrefs.DEFAULT.tools, ...stored?.tools }
+    }
+  }
+}
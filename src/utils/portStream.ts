@@ -0,0 +1,66 @@
+// runtime port names for streamed responses
+export const STREAM_PORTS = {
+  CHAT: 'chat-stream',           // side panel <-> background
+  CHROME_AI: 'chrome-ai-stream', // background <-> offscreen
+  ARCHIVE: 'archive-stream'      // side panel <-> background, knowledge base files
+} as const
+
+// chrome caps one message at 64 MiB; a part stays far under it even with every char escaped
+const PART_CHARS = 4 * 1024 * 1024
+
+// a long string as several 'part' messages, the receiver joins them in order
+export function postParts(port: chrome.runtime.Port, text: string): void {
+  for (let i = 0; i < text.length; i += PART_CHARS) {
+    port.postMessage({ type: 'part', data: text.slice(i, i + PART_CHARS) })
+  }
+}
+
+// turns a runtime port into an async iterator of its messages
+// ends after a message matching isLast, when the other side disconnects, or on abort
+// disconnects the port on the way out so the sender can stop work
+export async function* iteratePort<T>(
+  port: chrome.runtime.Port,
+  isLast: (msg: T) => boolean,
+  signal?: AbortSignal
+): AsyncGenerator<T, void, unknown> {
+  const queue: T[] = []
+  let disconnected = false
+  let wake: (() => void) | null = null
+
+  const notify = () => {
+    const resolve = wake
+    wake = null
+    resolve?.()
+  }
+  const onMessage = (msg: T) => {
+    queue.push(msg)
+    notify()
+  }
+  const onDisconnect = () => {
+    disconnected = true
+    notify()
+  }
+
+  port.onMessage.addListener(onMessage)
+  port.onDisconnect.addListener(onDisconnect)
+  signal?.addEventListener('abort', notify)
+
+  try {
+    while (!signal?.aborted) {
+      if (queue.length) {
+        const msg = queue.shift() as T
+        yield msg
+        if (isLast(msg)) return
+      } else if (disconnected) {
+        return
+      } else {
+        await new Promise<void>(resolve => { wake = resolve })
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', notify)
+    port.onMessage.removeListener(onMessage)
+    port.onDisconnect.removeListener(onDisconnect)
+    if (!disconnected) port.disconnect()
+  }
+}
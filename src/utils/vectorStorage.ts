@@ -0,0 +1,32 @@
+import type { VectorQuantization, VectorStorageSettings } from '../types'
+import type { EmbeddingModelConfig } from '../types/local-models'
+
+export class VectorPrefs {
+  static QUANTIZATIONS: VectorQuantization[] = ['none', 'int8', 'binary']
+
+  static LABELS: Record<VectorQuantization, string> = {
+    none: 'float (exact)',
+    int8: 'int8 + re-score',
+    binary: 'binary + re-score'
+  }
+
+  static DEFAULT: VectorStorageSettings = {
+    dims: null,
+    quantization: 'none'
+  }
+
+  static normalize(stored: Partial<VectorStorageSettings> | null | undefined): VectorStorageSettings {
+    const dims = Number(stored?.dims)
+    return {
+      dims: Number.isInteger(dims) && dims > 0 ? dims : null,
+      quantization: VectorPrefs.QUANTIZATIONS.includes(stored?.quantization as VectorQuantization)
+        ? stored!.quantization as VectorQuantization
+        : VectorPrefs.DEFAULT.quantization
+    }
+  }
+
+  // a dims setting only applies to models that were trained to be sliced
+  static withDims(model: EmbeddingModelConfig, prefs: VectorStorageSettings): EmbeddingModelConfig {
+    return prefs.dims && model.matryoshkaDims?.includes(prefs.dims) ? { ...model, dims: prefs.dims } : model
+  }
+}